@@ -2,6 +2,7 @@ import express, { Express } from "express";
 import helmet from "helmet";
 import compression from "compression";
 import cors from "cors";
+import cookieParser from "cookie-parser";
 import httpStatus from "http-status";
 import morgan from "./config/morgan.js";
 import xss from "./middlewares/xss.js";
@@ -27,19 +28,26 @@ app.use(express.json());
 // parse urlencoded request body
 app.use(express.urlencoded({ extended: true }));
 
+// parse cookies, used by the session cookie transport
+app.use(cookieParser());
+
 // sanitize request data
 app.use(xss());
 
 // gzip compression
 app.use(compression());
 
-// enable cors
-app.use(cors());
-app.options("*", cors());
+// enable cors, with credentials for the configured origins only
+const corsOptions = config.cors.origins.length
+  ? { origin: config.cors.origins, credentials: true }
+  : {};
+app.use(cors(corsOptions));
+app.options("*", cors(corsOptions));
 
 // limit repeated failed requests to auth endpoints
 if (config.env === "production") {
   app.use("/v1/auth", authLimiter);
+  app.use("/v1/oauth/token", authLimiter);
 }
 
 // v1 api routes
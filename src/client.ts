@@ -14,3 +14,59 @@ const prisma = global.prisma || new PrismaClient();
 if (config.env === "development") global.prisma = prisma;
 
 export default prisma;
+
+// models whose rows belong to one organization
+const TENANT_MODELS: string[] = ["Membership"];
+
+const WHERE_OPERATIONS = [
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+  "update",
+  "updateMany",
+  "delete",
+  "deleteMany",
+  "upsert",
+];
+
+/**
+ * A client whose queries on tenant models only ever see and write the rows
+ * of one organization. The organization is added to every filter and to
+ * the data of every create, overriding whatever the caller passed. Rows
+ * reached through the relations of other models are not scoped.
+ * @param {string} orgId
+ */
+export const forOrganization = (orgId: string) =>
+  prisma.$extends({
+    name: "tenant",
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          if (!TENANT_MODELS.includes(model)) {
+            return query(args);
+          }
+          const scoped: Record<string, unknown> = { ...args };
+          if (WHERE_OPERATIONS.includes(operation)) {
+            scoped.where = { ...(scoped.where as object), orgId };
+          }
+          if (operation === "create") {
+            scoped.data = { ...(scoped.data as object), orgId };
+          }
+          if (operation === "createMany") {
+            scoped.data = [scoped.data as object | object[]]
+              .flat()
+              .map((data) => ({ ...data, orgId }));
+          }
+          if (operation === "upsert") {
+            scoped.create = { ...(scoped.create as object), orgId };
+          }
+          return query(scoped as typeof args);
+        },
+      },
+    },
+  });
@@ -2,6 +2,13 @@ import dotenv from "dotenv";
 import path from "path";
 import Joi from "joi";
 
+export type PasswordCharacterClass =
+  | "lowercase"
+  | "uppercase"
+  | "letter"
+  | "digit"
+  | "symbol";
+
 dotenv.config({ path: path.join(process.cwd(), ".env") });
 
 const envVarsSchema = Joi.object()
@@ -17,6 +24,204 @@ const envVarsSchema = Joi.object()
     EMAIL_FROM: Joi.string().description(
       "the from field in the emails sent by the app"
     ),
+    AUTH_TOKEN_MODE: Joi.string()
+      .valid("session", "tokens")
+      .default("session")
+      .description(
+        "what logins issue: a session token, or access and refresh tokens"
+      ),
+    ACCESS_TOKEN_EXPIRATION_MINUTES: Joi.number()
+      .default(15)
+      .description("minutes after which access tokens expire"),
+    REFRESH_TOKEN_EXPIRATION_DAYS: Joi.number()
+      .default(30)
+      .description("days after which refresh tokens expire"),
+    ROLE_CACHE_TTL_SECONDS: Joi.number()
+      .default(60)
+      .description(
+        "seconds the rights of a user are cached, bounding how long other instances miss role changes"
+      ),
+    POLICY_EXPLAIN: Joi.boolean()
+      .default(false)
+      .description(
+        "add the policy decision to 403 responses, for debugging access rules"
+      ),
+    RECENT_AUTH_MINUTES: Joi.number()
+      .default(10)
+      .description(
+        "minutes after a login or reauthentication in which sensitive actions are allowed"
+      ),
+    SESSION_COOKIE_ENABLED: Joi.boolean()
+      .default(false)
+      .description("send session tokens in an HttpOnly cookie"),
+    SESSION_COOKIE_NAME: Joi.string()
+      .default("session")
+      .description("name of the session cookie"),
+    SESSION_COOKIE_SAME_SITE: Joi.string()
+      .valid("strict", "lax", "none")
+      .default("lax")
+      .description("SameSite attribute of the session cookie"),
+    SESSION_COOKIE_SECURE: Joi.boolean()
+      .default(true)
+      .description("only send the session cookie over https"),
+    SESSION_COOKIE_DOMAIN: Joi.string().description(
+      "domain of the session cookie"
+    ),
+    CORS_ORIGINS: Joi.string().description(
+      "comma separated origins allowed to make credentialed requests"
+    ),
+    PASSWORD_MIN_LENGTH: Joi.number()
+      .default(8)
+      .description("minimum password length"),
+    PASSWORD_MAX_LENGTH: Joi.number()
+      .default(128)
+      .description("maximum password length"),
+    PASSWORD_CHARACTER_CLASSES: Joi.string()
+      .allow("")
+      .pattern(
+        /^((lowercase|uppercase|letter|digit|symbol)(,(lowercase|uppercase|letter|digit|symbol))*)?$/
+      )
+      .default("letter,digit")
+      .description(
+        "comma separated character classes a password must contain: lowercase, uppercase, letter, digit, symbol"
+      ),
+    PASSWORD_DISALLOW_PERSONAL_INFO: Joi.boolean()
+      .default(true)
+      .description("reject passwords containing the email or name of the user"),
+    PASSWORD_HISTORY_SIZE: Joi.number()
+      .default(5)
+      .description("number of previous passwords that cannot be reused"),
+    PASSWORD_BREACHED_HASHES_DIR: Joi.string().description(
+      "directory of SHA-1 k-anonymity prefix files of breached passwords"
+    ),
+    PASSWORD_HASH_ALGORITHM: Joi.string()
+      .valid("bcrypt", "scrypt")
+      .default("bcrypt")
+      .description("algorithm new password hashes are created with"),
+    PASSWORD_BCRYPT_COST: Joi.number()
+      .integer()
+      .min(4)
+      .max(31)
+      .default(8)
+      .description("bcrypt cost factor"),
+    PASSWORD_SCRYPT_LOG_N: Joi.number()
+      .integer()
+      .min(10)
+      .max(22)
+      .default(15)
+      .description("scrypt CPU/memory cost, as a power of two"),
+    PASSWORD_SCRYPT_BLOCK_SIZE: Joi.number()
+      .integer()
+      .default(8)
+      .description("scrypt block size"),
+    PASSWORD_SCRYPT_PARALLELIZATION: Joi.number()
+      .integer()
+      .default(1)
+      .description("scrypt parallelization"),
+    PASSWORD_CHANGE_REVOKE_SESSIONS: Joi.string()
+      .valid("all", "others")
+      .default("others")
+      .description(
+        "sessions revoked when users change their own password: all of them or all but the current one"
+      ),
+    LOGIN_LOCKOUT_THRESHOLD: Joi.number()
+      .default(10)
+      .description("failed logins after which an account is locked"),
+    LOGIN_LOCKOUT_DURATION_MINUTES: Joi.number()
+      .default(30)
+      .description("minutes an account stays locked"),
+    LOGIN_DELAY_BASE_SECONDS: Joi.number()
+      .default(1)
+      .description(
+        "delay after the first failed login, doubled after each further one"
+      ),
+    TWO_FACTOR_ISSUER: Joi.string()
+      .default("Express Boilerplate")
+      .description("issuer shown in authenticator apps"),
+    TWO_FACTOR_CHALLENGE_EXPIRATION_MINUTES: Joi.number()
+      .default(5)
+      .description("minutes after which a two-factor login challenge expires"),
+    MAGIC_LINK_EXPIRATION_MINUTES: Joi.number()
+      .default(10)
+      .description("minutes after which a magic link expires"),
+    RESET_PASSWORD_TOKEN_EXPIRATION_MINUTES: Joi.number()
+      .default(10)
+      .description("minutes after which a reset password link expires"),
+    VERIFY_EMAIL_TOKEN_EXPIRATION_MINUTES: Joi.number()
+      .default(10)
+      .description("minutes after which an email verification link expires"),
+    ONE_TIME_TOKEN_MAX_ATTEMPTS: Joi.number()
+      .integer()
+      .min(1)
+      .default(5)
+      .description(
+        "failed attempts after which a two-factor challenge or magic link stops working"
+      ),
+    EMAIL_CHANGE_EXPIRATION_HOURS: Joi.number()
+      .default(24)
+      .description("hours after which an email change confirmation expires"),
+    INVITATION_EXPIRATION_DAYS: Joi.number()
+      .default(7)
+      .description("days after which an invitation expires"),
+    REGISTRATION_INVITE_ONLY: Joi.boolean()
+      .default(false)
+      .description("only let invited users create an account"),
+    DEVICE_ALERT_EXPIRATION_HOURS: Joi.number()
+      .default(72)
+      .description("hours after which the links of a new device alert expire"),
+    CLEANUP_ENABLED: Joi.boolean()
+      .default(true)
+      .description("periodically delete expired sessions, tokens and links"),
+    CLEANUP_INTERVAL_MINUTES: Joi.number()
+      .default(60)
+      .description("minutes between two cleanup runs"),
+    CLEANUP_BATCH_SIZE: Joi.number()
+      .integer()
+      .min(1)
+      .default(500)
+      .description("rows deleted per query by the cleanup"),
+    CLEANUP_ROTATED_TOKEN_RETENTION_DAYS: Joi.number()
+      .default(7)
+      .description(
+        "days rotated refresh tokens are kept to detect their reuse"
+      ),
+    OAUTH_CLIENT_TOKEN_EXPIRATION_MINUTES: Joi.number()
+      .default(60)
+      .description(
+        "minutes after which a client_credentials access token expires"
+      ),
+    IMPERSONATION_EXPIRATION_MINUTES: Joi.number()
+      .default(30)
+      .description("minutes after which an impersonation session expires"),
+    WEBAUTHN_RP_ID: Joi.string()
+      .default("localhost")
+      .description("relying party id (the domain) passkeys are bound to"),
+    WEBAUTHN_RP_NAME: Joi.string()
+      .default("Express Boilerplate")
+      .description("relying party name shown by authenticators"),
+    WEBAUTHN_ORIGINS: Joi.string()
+      .default("http://localhost:3000")
+      .description("comma separated origins allowed to perform ceremonies"),
+    OAUTH_REDIRECT_BASE_URL: Joi.string()
+      .default("http://localhost:3000/v1/auth/oauth")
+      .description("base url the providers redirect back to"),
+    OAUTH_GITHUB_CLIENT_ID: Joi.string().description(
+      "GitHub OAuth app client id"
+    ),
+    OAUTH_GITHUB_CLIENT_SECRET: Joi.string().description(
+      "GitHub OAuth app client secret"
+    ),
+    OAUTH_GOOGLE_CLIENT_ID: Joi.string().description("Google OAuth client id"),
+    OAUTH_GOOGLE_CLIENT_SECRET: Joi.string().description(
+      "Google OAuth client secret"
+    ),
+    OAUTH_OIDC_ISSUER: Joi.string().description(
+      "issuer url of a generic OpenID Connect provider"
+    ),
+    OAUTH_OIDC_CLIENT_ID: Joi.string().description("OpenID Connect client id"),
+    OAUTH_OIDC_CLIENT_SECRET: Joi.string().description(
+      "OpenID Connect client secret"
+    ),
   })
   .unknown();
 
@@ -42,4 +247,115 @@ export default {
     },
     from: envVars.EMAIL_FROM,
   },
+  auth: {
+    tokenMode: envVars.AUTH_TOKEN_MODE as "session" | "tokens",
+    accessExpirationMinutes: envVars.ACCESS_TOKEN_EXPIRATION_MINUTES,
+    refreshExpirationDays: envVars.REFRESH_TOKEN_EXPIRATION_DAYS,
+    recentAuthMinutes: envVars.RECENT_AUTH_MINUTES,
+    roleCacheTtlSeconds: envVars.ROLE_CACHE_TTL_SECONDS,
+    explainPolicies: envVars.POLICY_EXPLAIN as boolean,
+  },
+  cookie: {
+    enabled: envVars.SESSION_COOKIE_ENABLED as boolean,
+    name: envVars.SESSION_COOKIE_NAME,
+    sameSite: envVars.SESSION_COOKIE_SAME_SITE as "strict" | "lax" | "none",
+    secure: envVars.SESSION_COOKIE_SECURE as boolean,
+    domain: envVars.SESSION_COOKIE_DOMAIN,
+  },
+  cors: {
+    origins: envVars.CORS_ORIGINS
+      ? (envVars.CORS_ORIGINS as string)
+          .split(",")
+          .map((origin) => origin.trim())
+      : [],
+  },
+  password: {
+    minLength: envVars.PASSWORD_MIN_LENGTH,
+    maxLength: envVars.PASSWORD_MAX_LENGTH,
+    characterClasses: (envVars.PASSWORD_CHARACTER_CLASSES as string)
+      .split(",")
+      .filter(Boolean) as PasswordCharacterClass[],
+    disallowPersonalInfo: envVars.PASSWORD_DISALLOW_PERSONAL_INFO as boolean,
+    historySize: envVars.PASSWORD_HISTORY_SIZE,
+    breachedHashesDir: envVars.PASSWORD_BREACHED_HASHES_DIR as
+      | string
+      | undefined,
+  },
+  passwordHash: {
+    algorithm: envVars.PASSWORD_HASH_ALGORITHM as "bcrypt" | "scrypt",
+    bcrypt: {
+      cost: envVars.PASSWORD_BCRYPT_COST as number,
+    },
+    scrypt: {
+      ln: envVars.PASSWORD_SCRYPT_LOG_N as number,
+      r: envVars.PASSWORD_SCRYPT_BLOCK_SIZE as number,
+      p: envVars.PASSWORD_SCRYPT_PARALLELIZATION as number,
+    },
+  },
+  passwordChange: {
+    revokeSessions: envVars.PASSWORD_CHANGE_REVOKE_SESSIONS as "all" | "others",
+  },
+  lockout: {
+    threshold: envVars.LOGIN_LOCKOUT_THRESHOLD,
+    durationMinutes: envVars.LOGIN_LOCKOUT_DURATION_MINUTES,
+    delayBaseSeconds: envVars.LOGIN_DELAY_BASE_SECONDS,
+  },
+  twoFactor: {
+    issuer: envVars.TWO_FACTOR_ISSUER,
+  },
+  oneTimeToken: {
+    // per token type
+    expirationMinutes: {
+      RESET_PASSWORD: envVars.RESET_PASSWORD_TOKEN_EXPIRATION_MINUTES as number,
+      VERIFY_EMAIL: envVars.VERIFY_EMAIL_TOKEN_EXPIRATION_MINUTES as number,
+      TWO_FACTOR: envVars.TWO_FACTOR_CHALLENGE_EXPIRATION_MINUTES as number,
+      MAGIC_LINK: envVars.MAGIC_LINK_EXPIRATION_MINUTES as number,
+    },
+    maxAttempts: envVars.ONE_TIME_TOKEN_MAX_ATTEMPTS as number,
+  },
+  emailChange: {
+    expirationHours: envVars.EMAIL_CHANGE_EXPIRATION_HOURS,
+  },
+  invitation: {
+    expirationDays: envVars.INVITATION_EXPIRATION_DAYS,
+    inviteOnly: envVars.REGISTRATION_INVITE_ONLY,
+  },
+  deviceAlert: {
+    expirationHours: envVars.DEVICE_ALERT_EXPIRATION_HOURS,
+  },
+  cleanup: {
+    enabled: envVars.CLEANUP_ENABLED as boolean,
+    intervalMinutes: envVars.CLEANUP_INTERVAL_MINUTES,
+    batchSize: envVars.CLEANUP_BATCH_SIZE,
+    rotatedTokenRetentionDays: envVars.CLEANUP_ROTATED_TOKEN_RETENTION_DAYS,
+  },
+  impersonation: {
+    expirationMinutes: envVars.IMPERSONATION_EXPIRATION_MINUTES,
+  },
+  oauthServer: {
+    accessExpirationMinutes: envVars.OAUTH_CLIENT_TOKEN_EXPIRATION_MINUTES,
+  },
+  webauthn: {
+    rpId: envVars.WEBAUTHN_RP_ID,
+    rpName: envVars.WEBAUTHN_RP_NAME,
+    origins: (envVars.WEBAUTHN_ORIGINS as string)
+      .split(",")
+      .map((origin) => origin.trim()),
+  },
+  oauth: {
+    redirectBaseUrl: envVars.OAUTH_REDIRECT_BASE_URL,
+    github: {
+      clientId: envVars.OAUTH_GITHUB_CLIENT_ID,
+      clientSecret: envVars.OAUTH_GITHUB_CLIENT_SECRET,
+    },
+    google: {
+      clientId: envVars.OAUTH_GOOGLE_CLIENT_ID,
+      clientSecret: envVars.OAUTH_GOOGLE_CLIENT_SECRET,
+    },
+    oidc: {
+      issuer: envVars.OAUTH_OIDC_ISSUER,
+      clientId: envVars.OAUTH_OIDC_CLIENT_ID,
+      clientSecret: envVars.OAUTH_OIDC_CLIENT_SECRET,
+    },
+  },
 };
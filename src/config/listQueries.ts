@@ -0,0 +1,16 @@
+import { Role } from "@prisma/client";
+import { ListQuerySpec } from "../utils/listQuery.js";
+
+// what each list endpoint lets clients filter, search and sort on. Only
+// list fields every caller of the endpoint may see.
+export const userListQuery: ListQuerySpec = {
+  filters: {
+    name: { type: "string" },
+    email: { type: "string" },
+    role: { type: "enum", values: Object.values(Role) },
+    isEmailVerified: { type: "boolean" },
+    createdAt: { type: "date" },
+  },
+  search: ["name", "email"],
+  sortable: ["name", "email", "role", "createdAt", "updatedAt"],
+};
@@ -0,0 +1,178 @@
+import { OrgRole, Role } from "@prisma/client";
+
+/**
+ * What a rule requires, every condition given must hold
+ */
+export interface PolicyCondition {
+  // the actor has this right, through their roles or the scopes of their token
+  permission?: string;
+  // the actor is, or is not, the user the resource belongs to
+  owner?: boolean;
+  // the actor belongs to the organization of the resource with one of these
+  // roles
+  member?: OrgRole[];
+  // the user the resource belongs to holds, or does not hold, a right the
+  // actor lacks
+  outranks?: boolean;
+  // the actor has one of these values for each attribute, e.g. their role
+  actor?: Record<string, unknown[]>;
+  // the target resource has one of these values for each attribute
+  resource?: Record<string, unknown[]>;
+  // the request sets at least one of these fields
+  changes?: string[];
+}
+
+export interface PolicyRule {
+  effect: "allow" | "deny";
+  // explains the decision when the rule is the one that matched
+  description: string;
+  when: PolicyCondition;
+  // sent instead of "Forbidden" when the rule denies the request
+  message?: string;
+}
+
+// the rules in front of every action that manages another user, so neither
+// a custom role with manageUsers nor a client takes over a stronger account
+const managingOtherUsers: PolicyRule[] = [
+  {
+    effect: "deny",
+    description: "clients never manage admins",
+    when: { actor: { kind: ["client"] }, resource: { role: [Role.ADMIN] } },
+  },
+  {
+    effect: "deny",
+    description: "users only manage users whose rights they all hold",
+    when: { owner: false, outranks: true },
+  },
+];
+
+// the rules of each action of each resource, the first rule that matches
+// decides and requests no rule matches are denied
+export const policies = {
+  user: {
+    read: [
+      {
+        effect: "allow",
+        description: "getUsers reads any user",
+        when: { permission: "getUsers" },
+      },
+      {
+        effect: "allow",
+        description: "users read themselves",
+        when: { owner: true },
+      },
+    ],
+    update: [
+      ...managingOtherUsers,
+      {
+        effect: "allow",
+        description: "manageUsers updates any user",
+        when: { permission: "manageUsers" },
+      },
+      {
+        effect: "deny",
+        description: "only manageUsers skips the email confirmation",
+        when: { changes: ["skipEmailConfirmation"] },
+        message: "Only admins can skip the email confirmation",
+      },
+      {
+        effect: "allow",
+        description: "users update themselves",
+        when: { owner: true },
+      },
+    ],
+    delete: [
+      ...managingOtherUsers,
+      {
+        effect: "allow",
+        description: "manageUsers deletes any user",
+        when: { permission: "manageUsers" },
+      },
+      {
+        effect: "allow",
+        description: "users delete themselves",
+        when: { owner: true },
+      },
+    ],
+    unlock: [
+      ...managingOtherUsers,
+      {
+        effect: "allow",
+        description: "manageUsers unlocks any user",
+        when: { permission: "manageUsers" },
+      },
+    ],
+    readSessions: [
+      {
+        effect: "allow",
+        description: "getUsers lists the sessions of any user",
+        when: { permission: "getUsers" },
+      },
+      {
+        effect: "allow",
+        description: "users list their own sessions",
+        when: { owner: true },
+      },
+    ],
+    revokeSessions: [
+      ...managingOtherUsers,
+      {
+        effect: "allow",
+        description: "manageUsers revokes the sessions of any user",
+        when: { permission: "manageUsers" },
+      },
+      {
+        effect: "allow",
+        description: "users revoke their own sessions",
+        when: { owner: true },
+      },
+    ],
+    readRoles: [
+      {
+        effect: "allow",
+        description: "manageRoles reads the roles of any user",
+        when: { permission: "manageRoles" },
+      },
+      {
+        effect: "allow",
+        description: "users read their own roles",
+        when: { owner: true },
+      },
+    ],
+  },
+  // organizations are decided by membership alone, platform rights such as
+  // manageUsers grant nothing in them
+  org: {
+    read: [
+      {
+        effect: "allow",
+        description: "members read their organization",
+        when: { member: [OrgRole.OWNER, OrgRole.ADMIN, OrgRole.MEMBER] },
+      },
+    ],
+    update: [
+      {
+        effect: "allow",
+        description: "organization admins update their organization",
+        when: { member: [OrgRole.OWNER, OrgRole.ADMIN] },
+      },
+    ],
+    delete: [
+      {
+        effect: "allow",
+        description: "owners delete their organization",
+        when: { member: [OrgRole.OWNER] },
+      },
+    ],
+    manageMembers: [
+      {
+        effect: "allow",
+        description: "organization admins manage the members",
+        when: { member: [OrgRole.OWNER, OrgRole.ADMIN] },
+      },
+    ],
+  },
+} satisfies Record<string, Record<string, PolicyRule[]>>;
+
+export type PolicyResource = keyof typeof policies;
+export type PolicyAction<R extends PolicyResource> = keyof (typeof policies)[R];
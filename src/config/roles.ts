@@ -1,9 +1,19 @@
 import { Role } from "@prisma/client";
 
+// the rights the built-in roles start with, stored in the database the first
+// time they are seen and managed through /v1/roles from then on
 const allRoles = {
   [Role.USER]: [],
-  [Role.ADMIN]: ["getUsers", "manageUsers"],
+  [Role.ADMIN]: [
+    "getUsers",
+    "manageUsers",
+    "impersonateUsers",
+    "manageClients",
+    "runMaintenance",
+    "manageRoles",
+  ],
 };
 
 export const roles = Object.keys(allRoles);
 export const roleRights = new Map(Object.entries(allRoles));
+export const rights = [...new Set(Object.values(allRoles).flat())];
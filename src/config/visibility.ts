@@ -0,0 +1,37 @@
+/**
+ * Who a response is for, relative to the resource it returns
+ */
+export type Audience = "self" | "admin" | "other";
+
+export interface FieldVisibility {
+  // the field holding the id of the user the resource belongs to
+  owner: string;
+  // the right that shows the admin fields of resources of other users
+  adminPermission: string;
+  // the fields each audience sees, anything not listed is never sent
+  fields: Record<Audience, string[]>;
+}
+
+// the fields of each resource that responses may contain. Hashes and other
+// internal fields are left out of every list so no response carries them.
+export const visibility = {
+  user: {
+    owner: "id",
+    adminPermission: "getUsers",
+    fields: {
+      self: ["id", "name", "email", "role", "isEmailVerified"],
+      admin: [
+        "id",
+        "name",
+        "email",
+        "role",
+        "isEmailVerified",
+        "createdAt",
+        "updatedAt",
+      ],
+      other: ["id", "name"],
+    },
+  },
+} satisfies Record<string, FieldVisibility>;
+
+export type VisibleResource = keyof typeof visibility;
@@ -0,0 +1,36 @@
+import httpStatus from "http-status";
+import ApiError from "../utils/ApiError.js";
+import catchAsync from "../utils/catchAsync.js";
+import { apiKeyService } from "../services";
+import { User } from "@prisma/client";
+import { Request, Response } from "express";
+
+const createApiKey = catchAsync(async (req: Request, res: Response) => {
+  if (req.apiKey) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      "API keys cannot be used to create API keys"
+    );
+  }
+  const user = req.user as User;
+  const result = await apiKeyService.createApiKey(user.id, req.body);
+  res.status(httpStatus.CREATED).send(result);
+});
+
+const getApiKeys = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const apiKeys = await apiKeyService.queryApiKeys(user.id);
+  res.send(apiKeys);
+});
+
+const deleteApiKey = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await apiKeyService.deleteApiKey(user.id, Number(req.params.apiKeyId));
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export default {
+  createApiKey,
+  getApiKeys,
+  deleteApiKey,
+};
@@ -1,41 +1,136 @@
 import httpStatus from "http-status";
 import catchAsync from "../utils/catchAsync.js";
+import sessionMetadata from "../utils/sessionMetadata.js";
+import {
+  clearSessionCookie,
+  getSessionCookie,
+  hasValidCsrfToken,
+  sendSessionCookie,
+} from "../utils/sessionCookie.js";
+import config from "../config/config.js";
 import {
   authService,
   userService,
   tokenService,
   emailService,
+  twoFactorService,
+  emailChangeService,
+  deviceService,
 } from "../services";
-import exclude from "../utils/exclude.js";
+import { pickVisible } from "../utils/serialize.js";
+import { sendLoginResponse } from "../utils/loginResponse.js";
+import ApiError from "../utils/ApiError.js";
 import { User } from "@prisma/client";
 import { Request, Response } from "express";
 
 const register = catchAsync(async (req, res) => {
+  if (config.invitation.inviteOnly) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      "Registration is by invitation only"
+    );
+  }
   const { name, email, password, role } = req.body;
   const user = await userService.createUser(name, email, password, role);
-  const userWithoutPassword = exclude(user, [
-    "password",
-    "createdAt",
-    "updatedAt",
-  ]);
-  const token = await tokenService.generateSessionToken();
-  await tokenService.createSession(token, user.id);
-  res.status(httpStatus.CREATED).send({ user: userWithoutPassword, token });
+  const loginTokens = await tokenService.generateLoginTokens(
+    user,
+    sessionMetadata(req)
+  );
+  res.status(httpStatus.CREATED).send({
+    user: pickVisible("user", "self", user),
+    ...(await sendSessionCookie(res, loginTokens)),
+  });
 });
 
 const login = catchAsync(async (req, res) => {
   const { email, password } = req.body;
   const user = await authService.loginUserWithEmailAndPassword(email, password);
-  const token = await tokenService.generateSessionToken();
-  await tokenService.createSession(token, user.id);
-  res.send({ user, token });
+  await sendLoginResponse(req, res, user);
+});
+
+const requestMagicLink = catchAsync(async (req, res) => {
+  const user = await userService.getUserByEmail(req.body.email, ["id"]);
+  // respond the same way whether or not the email belongs to a user
+  if (user) {
+    const magicLinkToken = await tokenService.generateMagicLinkToken(user);
+    await emailService.sendMagicLinkEmail(req.body.email, magicLinkToken);
+  }
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const consumeMagicLink = catchAsync(async (req, res) => {
+  const { token, email } = req.body;
+  const user = await authService.loginWithMagicLink(token, email);
+  await sendLoginResponse(req, res, user);
+});
+
+const verifyTwoFactor = catchAsync(async (req, res) => {
+  const { challengeToken, code, recoveryCode } = req.body;
+  const user = await authService.verifyTwoFactorChallenge(challengeToken, {
+    code,
+    recoveryCode,
+  });
+  const loginTokens = await tokenService.generateLoginTokens(
+    user,
+    sessionMetadata(req)
+  );
+  await deviceService.recordLogin(user, sessionMetadata(req));
+  res.send({
+    user: pickVisible("user", "self", user),
+    ...(await sendSessionCookie(res, loginTokens)),
+  });
+});
+
+const enrollTwoFactor = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const result = await twoFactorService.enroll(user);
+  res.send(result);
+});
+
+const confirmTwoFactor = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const recoveryCodes = await twoFactorService.confirm(user.id, req.body.code);
+  res.send({ recoveryCodes });
+});
+
+const regenerateRecoveryCodes = catchAsync(
+  async (req: Request, res: Response) => {
+    const user = req.user as User;
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+      user.id,
+      req.body.code
+    );
+    res.send({ recoveryCodes });
+  }
+);
+
+const disableTwoFactor = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await twoFactorService.disable(user.id, req.body.code);
+  res.status(httpStatus.NO_CONTENT).send();
 });
 
 const logout = catchAsync(async (req, res) => {
-  await authService.logout(req.body.sessionToken);
+  const cookieToken = req.body.sessionToken ? undefined : getSessionCookie(req);
+  // like auth(), so other sites cannot log the user out
+  if (cookieToken && !(await hasValidCsrfToken(req, cookieToken))) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Invalid CSRF token");
+  }
+  await authService.logout(
+    req.body.sessionToken ?? cookieToken,
+    req.body.refreshToken
+  );
+  if (config.cookie.enabled) {
+    clearSessionCookie(res);
+  }
   res.status(httpStatus.NO_CONTENT).send();
 });
 
+const refreshTokens = catchAsync(async (req, res) => {
+  const tokens = await authService.refreshAuth(req.body.refreshToken);
+  res.send({ ...tokens });
+});
+
 const forgotPassword = catchAsync(async (req, res) => {
   const resetPasswordToken = await tokenService.generateResetPasswordToken(
     req.body.email
@@ -45,12 +140,31 @@ const forgotPassword = catchAsync(async (req, res) => {
 });
 
 const resetPassword = catchAsync(async (req, res) => {
-  console.log(req.query.token, req.body.password);
-
   await authService.resetPassword(req.query.token as string, req.body.password);
   res.status(httpStatus.NO_CONTENT).send();
 });
 
+const changePassword = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await authService.changePassword(
+    user.id,
+    req.body.currentPassword,
+    req.body.newPassword,
+    { sessionId: req.session?.id, family: req.tokenFamily }
+  );
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const reauthenticate = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const authenticatedAt = await authService.reauthenticate(
+    user.id,
+    req.body.password,
+    { sessionId: req.session?.id, family: req.tokenFamily }
+  );
+  res.send({ authenticatedAt });
+});
+
 const sendVerificationEmail = catchAsync(
   async (req: Request, res: Response) => {
     const user = req.user as User;
@@ -65,12 +179,34 @@ const verifyEmail = catchAsync(async (req, res) => {
   res.status(httpStatus.NO_CONTENT).send();
 });
 
+const confirmEmailChange = catchAsync(async (req, res) => {
+  await emailChangeService.confirmEmailChange(req.query.token as string);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const cancelEmailChange = catchAsync(async (req, res) => {
+  await emailChangeService.cancelEmailChange(req.query.token as string);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
 export default {
   register,
   login,
+  requestMagicLink,
+  consumeMagicLink,
+  verifyTwoFactor,
+  enrollTwoFactor,
+  confirmTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
   logout,
+  refreshTokens,
   forgotPassword,
   resetPassword,
+  changePassword,
+  reauthenticate,
   sendVerificationEmail,
   verifyEmail,
+  confirmEmailChange,
+  cancelEmailChange,
 };
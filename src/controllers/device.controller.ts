@@ -0,0 +1,34 @@
+import httpStatus from "http-status";
+import catchAsync from "../utils/catchAsync.js";
+import { deviceService } from "../services";
+import { User } from "@prisma/client";
+import { Request, Response } from "express";
+
+const getMyDevices = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const devices = await deviceService.queryDevices(user.id);
+  res.send(devices);
+});
+
+const deleteMyDevice = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await deviceService.deleteDevice(user.id, Number(req.params.deviceId));
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const confirmDevice = catchAsync(async (req, res) => {
+  await deviceService.confirmDevice(req.query.token as string);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const denyDevice = catchAsync(async (req, res) => {
+  await deviceService.denyDevice(req.query.token as string);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export default {
+  getMyDevices,
+  deleteMyDevice,
+  confirmDevice,
+  denyDevice,
+};
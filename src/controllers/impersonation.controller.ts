@@ -0,0 +1,44 @@
+import httpStatus from "http-status";
+import pick from "../utils/pick.js";
+import ApiError from "../utils/ApiError.js";
+import catchAsync from "../utils/catchAsync.js";
+import sessionMetadata from "../utils/sessionMetadata.js";
+import { serialize } from "../utils/serialize.js";
+import { impersonationService } from "../services";
+import { User } from "@prisma/client";
+import { Request, Response } from "express";
+
+const startImpersonation = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      "Only users can impersonate other users"
+    );
+  }
+  const result = await impersonationService.startImpersonation(
+    req.user as User,
+    req.body.userId,
+    sessionMetadata(req)
+  );
+  res
+    .status(httpStatus.CREATED)
+    .send({ ...result, user: serialize(req, "user", result.user) });
+});
+
+const stopImpersonation = catchAsync(async (req: Request, res: Response) => {
+  await impersonationService.stopImpersonation(req.session, req.ip);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const getImpersonationEvents = catchAsync(async (req, res) => {
+  const filter = pick(req.query, ["impersonatorId", "userId", "action"]);
+  const options = pick(req.query, ["limit", "page"]);
+  const events = await impersonationService.queryEvents(filter, options);
+  res.send(events);
+});
+
+export default {
+  startImpersonation,
+  stopImpersonation,
+  getImpersonationEvents,
+};
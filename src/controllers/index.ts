@@ -1,2 +1,13 @@
 export { default as authController } from "./auth.controller.js";
 export { default as userController } from "./user.controller.js";
+export { default as webauthnController } from "./webauthn.controller.js";
+export { default as oauthController } from "./oauth.controller.js";
+export { default as sessionController } from "./session.controller.js";
+export { default as impersonationController } from "./impersonation.controller.js";
+export { default as apiKeyController } from "./apiKey.controller.js";
+export { default as oauthServerController } from "./oauthServer.controller.js";
+export { default as deviceController } from "./device.controller.js";
+export { default as invitationController } from "./invitation.controller.js";
+export { default as maintenanceController } from "./maintenance.controller.js";
+export { default as roleController } from "./role.controller.js";
+export { default as orgController } from "./org.controller.js";
@@ -0,0 +1,58 @@
+import httpStatus from "http-status";
+import pick from "../utils/pick.js";
+import ApiError from "../utils/ApiError.js";
+import catchAsync from "../utils/catchAsync.js";
+import { sendLoginTokens } from "../utils/loginResponse.js";
+import { invitationService, roleService } from "../services";
+import { Role, User } from "@prisma/client";
+import { Request, Response } from "express";
+
+const createInvitation = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Only users can invite users");
+  }
+  await roleService.assertCanGrantRole(
+    req.rights ?? [],
+    req.body.role ?? Role.USER
+  );
+  const invitation = await invitationService.createInvitation(
+    (req.user as User).id,
+    req.body
+  );
+  res.status(httpStatus.CREATED).send(invitation);
+});
+
+const getInvitations = catchAsync(async (req, res) => {
+  const filter = pick(req.query, ["email", "role"]);
+  const options = pick(req.query, ["limit", "page"]);
+  const invitations = await invitationService.queryInvitations(filter, options);
+  res.send(invitations);
+});
+
+const resendInvitation = catchAsync(async (req, res) => {
+  const invitation = await invitationService.resendInvitation(
+    Number(req.params.invitationId)
+  );
+  res.send(invitation);
+});
+
+const revokeInvitation = catchAsync(async (req, res) => {
+  await invitationService.revokeInvitation(Number(req.params.invitationId));
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const acceptInvitation = catchAsync(async (req, res) => {
+  const user = await invitationService.acceptInvitation(
+    req.query.token as string,
+    req.body
+  );
+  await sendLoginTokens(req, res, user, httpStatus.CREATED);
+});
+
+export default {
+  createInvitation,
+  getInvitations,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation,
+};
@@ -0,0 +1,16 @@
+import catchAsync from "../utils/catchAsync.js";
+import { cleanupService } from "../services";
+
+const getCleanupMetrics = catchAsync(async (req, res) => {
+  res.send(cleanupService.getCleanupMetrics());
+});
+
+const runCleanup = catchAsync(async (req, res) => {
+  const run = await cleanupService.runCleanupNow();
+  res.send(run);
+});
+
+export default {
+  getCleanupMetrics,
+  runCleanup,
+};
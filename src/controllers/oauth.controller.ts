@@ -0,0 +1,64 @@
+import httpStatus from "http-status";
+import catchAsync from "../utils/catchAsync.js";
+import { pickVisible } from "../utils/serialize.js";
+import { sendLoginResponse } from "../utils/loginResponse.js";
+import {
+  setOAuthStateCookie,
+  takeOAuthStateCookie,
+} from "../utils/oauthStateCookie.js";
+import { oauthService } from "../services";
+import { User } from "@prisma/client";
+import { Request, Response } from "express";
+
+const authorize = catchAsync(async (req, res) => {
+  const { url, state, expiresAt } = await oauthService.createAuthorizationUrl(
+    req.params.provider
+  );
+  setOAuthStateCookie(res, state, expiresAt);
+  res.redirect(url);
+});
+
+const link = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const { url, state, expiresAt } = await oauthService.createAuthorizationUrl(
+    req.params.provider,
+    user.id
+  );
+  setOAuthStateCookie(res, state, expiresAt);
+  res.send({ url });
+});
+
+const callback = catchAsync(async (req, res) => {
+  const { code, state } = req.query;
+  const { user, linked } = await oauthService.handleCallback(
+    req.params.provider,
+    code as string,
+    state as string,
+    takeOAuthStateCookie(req, res)
+  );
+  if (linked) {
+    res.send({ user: pickVisible("user", "self", user) });
+    return;
+  }
+  await sendLoginResponse(req, res, user);
+});
+
+const getIdentities = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const identities = await oauthService.queryIdentities(user.id);
+  res.send(identities);
+});
+
+const deleteIdentity = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await oauthService.unlinkIdentity(user.id, Number(req.params.identityId));
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export default {
+  authorize,
+  link,
+  callback,
+  getIdentities,
+  deleteIdentity,
+};
@@ -0,0 +1,96 @@
+import httpStatus from "http-status";
+import ApiError from "../utils/ApiError.js";
+import catchAsync from "../utils/catchAsync.js";
+import { oauthServerService } from "../services";
+import { User } from "@prisma/client";
+import { Request } from "express";
+
+/**
+ * Read the client credentials from HTTP Basic auth or from the body
+ * @param {Request} req
+ * @returns {{ clientId?: string; clientSecret?: string }}
+ */
+const getClientCredentials = (
+  req: Request
+): { clientId?: string; clientSecret?: string } => {
+  const [scheme, credentials] = (req.headers.authorization ?? "").split(" ");
+  if (scheme.toLowerCase() === "basic" && credentials) {
+    const decoded = Buffer.from(credentials, "base64").toString("utf8");
+    const separator = decoded.indexOf(":");
+    return {
+      clientId: decoded.slice(0, separator),
+      clientSecret: decoded.slice(separator + 1),
+    };
+  }
+  return {
+    clientId: req.body.client_id,
+    clientSecret: req.body.client_secret,
+  };
+};
+
+const token = catchAsync(async (req, res) => {
+  const { clientId, clientSecret } = getClientCredentials(req);
+  const client = await oauthServerService.authenticateClient(
+    clientId,
+    clientSecret
+  );
+  const result = await oauthServerService.issueClientToken(
+    client,
+    req.body.scope
+  );
+  res.set("Cache-Control", "no-store").send(result);
+});
+
+const introspect = catchAsync(async (req, res) => {
+  const { clientId, clientSecret } = getClientCredentials(req);
+  const client = await oauthServerService.authenticateClient(
+    clientId,
+    clientSecret
+  );
+  const result = await oauthServerService.introspectToken(
+    client,
+    req.body.token
+  );
+  res.send(result);
+});
+
+const revoke = catchAsync(async (req, res) => {
+  const { clientId, clientSecret } = getClientCredentials(req);
+  const client = await oauthServerService.authenticateClient(
+    clientId,
+    clientSecret
+  );
+  await oauthServerService.revokeToken(client, req.body.token);
+  res.status(httpStatus.OK).send();
+});
+
+const createClient = catchAsync(async (req, res) => {
+  const ownerId = req.body.ownerId ?? (req.user as User | undefined)?.id;
+  if (!ownerId) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "ownerId is required");
+  }
+  const result = await oauthServerService.createClient({
+    ...req.body,
+    ownerId,
+  });
+  res.status(httpStatus.CREATED).send(result);
+});
+
+const getClients = catchAsync(async (req, res) => {
+  const clients = await oauthServerService.queryClients();
+  res.send(clients);
+});
+
+const deleteClient = catchAsync(async (req, res) => {
+  await oauthServerService.deleteClient(req.params.clientId);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export default {
+  token,
+  introspect,
+  revoke,
+  createClient,
+  getClients,
+  deleteClient,
+};
@@ -0,0 +1,125 @@
+import httpStatus from "http-status";
+import ApiError from "../utils/ApiError.js";
+import catchAsync from "../utils/catchAsync.js";
+import { orgService } from "../services";
+import { User } from "@prisma/client";
+import { Request, Response } from "express";
+
+/**
+ * Get the role in the organization of the route of the member making the
+ * request. The policy of the route already checked they are a member.
+ * @param {Request} req
+ */
+const getActorRole = async (req: Request) => {
+  const member = await orgService.getMember(
+    req.params.orgId,
+    (req.user as User).id
+  );
+  return member.role;
+};
+
+const createOrg = catchAsync(async (req: Request, res: Response) => {
+  if (!req.user) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      "Only users can create organizations"
+    );
+  }
+  const org = await orgService.createOrg((req.user as User).id, req.body);
+  res.status(httpStatus.CREATED).send(org);
+});
+
+const getMyOrgs = catchAsync(async (req: Request, res: Response) => {
+  const orgs = await orgService.queryUserOrgs(
+    (req.user as User).id,
+    req.session?.activeOrgId
+  );
+  res.send(orgs);
+});
+
+const getOrg = catchAsync(async (req, res) => {
+  const org = await orgService.getOrgById(req.params.orgId);
+  res.send(org);
+});
+
+const updateOrg = catchAsync(async (req, res) => {
+  const org = await orgService.updateOrgById(req.params.orgId, req.body);
+  res.send(org);
+});
+
+const deleteOrg = catchAsync(async (req, res) => {
+  await orgService.deleteOrgById(req.params.orgId);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const getMembers = catchAsync(async (req, res) => {
+  const members = await orgService.queryMembers(req.params.orgId);
+  res.send(members);
+});
+
+const addMember = catchAsync(async (req: Request, res: Response) => {
+  const member = await orgService.addMember(
+    req.params.orgId,
+    await getActorRole(req),
+    req.body
+  );
+  res.status(httpStatus.CREATED).send(member);
+});
+
+const updateMember = catchAsync(async (req: Request, res: Response) => {
+  const member = await orgService.updateMemberRole(
+    req.params.orgId,
+    await getActorRole(req),
+    req.params.userId,
+    req.body.role
+  );
+  res.send(member);
+});
+
+const removeMember = catchAsync(async (req: Request, res: Response) => {
+  await orgService.removeMember(
+    req.params.orgId,
+    await getActorRole(req),
+    req.params.userId
+  );
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const leaveOrg = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await orgService.removeMember(
+    req.params.orgId,
+    await getActorRole(req),
+    user.id
+  );
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const setActiveOrg = catchAsync(async (req: Request, res: Response) => {
+  if (!req.session) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Only sessions have an active organization"
+    );
+  }
+  await orgService.setActiveOrg(
+    req.session.id,
+    (req.user as User).id,
+    req.body.orgId ?? null
+  );
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export default {
+  createOrg,
+  getMyOrgs,
+  getOrg,
+  updateOrg,
+  deleteOrg,
+  getMembers,
+  addMember,
+  updateMember,
+  removeMember,
+  leaveOrg,
+  setActiveOrg,
+};
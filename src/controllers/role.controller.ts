@@ -0,0 +1,96 @@
+import httpStatus from "http-status";
+import catchAsync from "../utils/catchAsync.js";
+import { roleService } from "../services";
+
+const getRoles = catchAsync(async (req, res) => {
+  const roles = await roleService.queryRoles();
+  res.send(roles);
+});
+
+const createRole = catchAsync(async (req, res) => {
+  const role = await roleService.createRole(req.body);
+  res.status(httpStatus.CREATED).send(role);
+});
+
+const getRole = catchAsync(async (req, res) => {
+  const role = await roleService.getRoleById(Number(req.params.roleId));
+  res.send(role);
+});
+
+const updateRole = catchAsync(async (req, res) => {
+  const role = await roleService.updateRoleById(
+    Number(req.params.roleId),
+    req.body
+  );
+  res.send(role);
+});
+
+const deleteRole = catchAsync(async (req, res) => {
+  await roleService.deleteRoleById(Number(req.params.roleId));
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const grantPermission = catchAsync(async (req, res) => {
+  const role = await roleService.grantPermission(
+    Number(req.params.roleId),
+    req.params.permission
+  );
+  res.send(role);
+});
+
+const revokePermission = catchAsync(async (req, res) => {
+  const role = await roleService.revokePermission(
+    Number(req.params.roleId),
+    req.params.permission
+  );
+  res.send(role);
+});
+
+const assignRole = catchAsync(async (req, res) => {
+  const roles = await roleService.assignRole(
+    req.params.userId,
+    Number(req.params.roleId)
+  );
+  res.send(roles);
+});
+
+const unassignRole = catchAsync(async (req, res) => {
+  await roleService.unassignRole(req.params.userId, Number(req.params.roleId));
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const getUserRoles = catchAsync(async (req, res) => {
+  const roles = await roleService.getUserRoles(req.params.userId);
+  res.send(roles);
+});
+
+const getPermissions = catchAsync(async (req, res) => {
+  const permissions = await roleService.queryPermissions();
+  res.send(permissions);
+});
+
+const createPermission = catchAsync(async (req, res) => {
+  const permission = await roleService.createPermission(req.body);
+  res.status(httpStatus.CREATED).send(permission);
+});
+
+const deletePermission = catchAsync(async (req, res) => {
+  await roleService.deletePermission(req.params.permission);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export default {
+  getRoles,
+  createRole,
+  getRole,
+  updateRole,
+  deleteRole,
+  grantPermission,
+  revokePermission,
+  assignRole,
+  unassignRole,
+  getUserRoles,
+  getPermissions,
+  createPermission,
+  deletePermission,
+};
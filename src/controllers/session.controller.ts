@@ -0,0 +1,62 @@
+import httpStatus from "http-status";
+import catchAsync from "../utils/catchAsync.js";
+import exclude from "../utils/exclude.js";
+import { sessionService } from "../services";
+import { Session, User } from "@prisma/client";
+import { Request, Response } from "express";
+
+const serializeSessions = (sessions: Session[], currentSessionId?: string) =>
+  sessions.map((session) => ({
+    ...exclude(session, ["userId"]),
+    current: session.id === currentSessionId,
+  }));
+
+const getMySessions = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const sessions = await sessionService.querySessions(user.id);
+  res.send(serializeSessions(sessions, req.session?.id));
+});
+
+const deleteMySession = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await sessionService.deleteSessionById(user.id, req.params.sessionId);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const deleteMyOtherSessions = catchAsync(
+  async (req: Request, res: Response) => {
+    const user = req.user as User;
+    await sessionService.revokeLogins(user.id, {
+      sessionId: req.session?.id,
+      family: req.tokenFamily,
+    });
+    res.status(httpStatus.NO_CONTENT).send();
+  }
+);
+
+const getUserSessions = catchAsync(async (req, res) => {
+  const sessions = await sessionService.querySessions(req.params.userId);
+  res.send(serializeSessions(sessions));
+});
+
+const deleteUserSession = catchAsync(async (req, res) => {
+  await sessionService.deleteSessionById(
+    req.params.userId,
+    req.params.sessionId
+  );
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const deleteUserSessions = catchAsync(async (req, res) => {
+  await sessionService.revokeLogins(req.params.userId);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export default {
+  getMySessions,
+  deleteMySession,
+  deleteMyOtherSessions,
+  getUserSessions,
+  deleteUserSession,
+  deleteUserSessions,
+};
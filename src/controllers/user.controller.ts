@@ -2,19 +2,31 @@ import httpStatus from "http-status";
 import pick from "../utils/pick.js";
 import ApiError from "../utils/ApiError.js";
 import catchAsync from "../utils/catchAsync.js";
-import { userService } from "../services";
+import { assertRecentAuth } from "../utils/recentAuth.js";
+import { serialize } from "../utils/serialize.js";
+import { parseListQuery } from "../utils/listQuery.js";
+import { userListQuery } from "../config/listQueries.js";
+import config from "../config/config.js";
+import {
+  emailChangeService,
+  lockoutService,
+  roleService,
+  userService,
+} from "../services";
+import { Request, Response } from "express";
 
-const createUser = catchAsync(async (req, res) => {
+const createUser = catchAsync(async (req: Request, res: Response) => {
   const { email, password, name, role } = req.body;
+  await roleService.assertCanGrantRole(req.rights ?? [], role);
   const user = await userService.createUser(name, email, password, role);
-  res.status(httpStatus.CREATED).send(user);
+  res.status(httpStatus.CREATED).send(serialize(req, "user", user));
 });
 
 const getUsers = catchAsync(async (req, res) => {
-  const filter = pick(req.query, ["name", "role"]);
-  const options = pick(req.query, ["sortBy", "limit", "page"]);
-  const result = await userService.queryUsers(filter, options);
-  res.send(result);
+  const { where, orderBy } = parseListQuery(req.query, userListQuery);
+  const options = pick(req.query, ["limit", "page"]);
+  const result = await userService.queryUsers(where, { ...options, orderBy });
+  res.send(result.map((user) => serialize(req, "user", user)));
 });
 
 const getUser = catchAsync(async (req, res) => {
@@ -22,12 +34,54 @@ const getUser = catchAsync(async (req, res) => {
   if (!user) {
     throw new ApiError(httpStatus.NOT_FOUND, "User not found");
   }
-  res.send(user);
+  res.send(serialize(req, "user", user));
 });
 
-const updateUser = catchAsync(async (req, res) => {
-  const user = await userService.updateUserById(req.params.userId, req.body);
-  res.send(user);
+const updateUser = catchAsync(async (req: Request, res: Response) => {
+  const { email, skipEmailConfirmation, ...updateBody } = req.body;
+  if (req.user?.impersonatedBy && (email || updateBody.password)) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      "This action is not allowed while impersonating a user"
+    );
+  }
+  if (updateBody.password && req.params.userId === req.user?.id) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Use /v1/auth/change-password to change your own password"
+    );
+  }
+  // clients have no credentials to reenter, their scopes decide alone
+  if (req.user && (email || updateBody.password)) {
+    assertRecentAuth(req, config.auth.recentAuthMinutes);
+  }
+  if (email && skipEmailConfirmation) {
+    updateBody.email = email;
+  }
+  const user = Object.keys(updateBody).length
+    ? await userService.updateUserById(req.params.userId, updateBody)
+    : await userService.getUserById(req.params.userId, [
+        "id",
+        "email",
+        "name",
+        "role",
+      ]);
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  if (email && !skipEmailConfirmation) {
+    // the email only changes once the new address confirms it
+    const emailChange = await emailChangeService.requestEmailChange(
+      req.params.userId,
+      email
+    );
+    res.send({
+      ...serialize(req, "user", user),
+      pendingEmail: emailChange.newEmail,
+    });
+    return;
+  }
+  res.send(serialize(req, "user", user));
 });
 
 const deleteUser = catchAsync(async (req, res) => {
@@ -35,10 +89,22 @@ const deleteUser = catchAsync(async (req, res) => {
   res.status(httpStatus.NO_CONTENT).send();
 });
 
+const getPasswordHashReport = catchAsync(async (req, res) => {
+  const report = await userService.getPasswordHashReport();
+  res.send(report);
+});
+
+const unlockUser = catchAsync(async (req, res) => {
+  await lockoutService.unlockUser(req.params.userId);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
 export default {
   createUser,
   getUsers,
   getUser,
   updateUser,
   deleteUser,
+  unlockUser,
+  getPasswordHashReport,
 };
@@ -0,0 +1,59 @@
+import httpStatus from "http-status";
+import catchAsync from "../utils/catchAsync.js";
+import { sendLoginTokens } from "../utils/loginResponse.js";
+import { webauthnService } from "../services";
+import { User } from "@prisma/client";
+import { Request, Response } from "express";
+
+const registrationOptions = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const options = await webauthnService.generateRegistrationOptions(user);
+  res.send(options);
+});
+
+const register = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const { name, response } = req.body;
+  const credential = await webauthnService.verifyRegistration(
+    user.id,
+    response,
+    name
+  );
+  res.status(httpStatus.CREATED).send({
+    id: credential.id,
+    name: credential.name,
+    transports: credential.transports,
+    createdAt: credential.createdAt,
+  });
+});
+
+const loginOptions = catchAsync(async (req, res) => {
+  const options = await webauthnService.generateAuthenticationOptions();
+  res.send(options);
+});
+
+const login = catchAsync(async (req, res) => {
+  const user = await webauthnService.verifyAuthentication(req.body);
+  await sendLoginTokens(req, res, user);
+});
+
+const getCredentials = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  const credentials = await webauthnService.queryCredentials(user.id);
+  res.send(credentials);
+});
+
+const deleteCredential = catchAsync(async (req: Request, res: Response) => {
+  const user = req.user as User;
+  await webauthnService.deleteCredential(user.id, req.params.credentialId);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+export default {
+  registrationOptions,
+  register,
+  loginOptions,
+  login,
+  getCredentials,
+  deleteCredential,
+};
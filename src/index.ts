@@ -3,13 +3,16 @@ import app from "./app.js";
 import prisma from "./client.js";
 import config from "./config/config.js";
 import logger from "./config/logger.js";
+import { cleanupService } from "./services";
 
 let server: Server;
+let cleanupTimer: NodeJS.Timeout | undefined;
 prisma.$connect().then(() => {
   logger.info("Connected to SQL Database");
   server = app.listen(config.port, () => {
     logger.info(`Listening to port ${config.port}`);
   });
+  cleanupTimer = cleanupService.scheduleCleanup();
 });
 
 const exitHandler = () => {
@@ -33,6 +36,7 @@ process.on("unhandledRejection", unexpectedErrorHandler);
 
 process.on("SIGTERM", () => {
   logger.info("SIGTERM received");
+  clearInterval(cleanupTimer);
   if (server) {
     server.close();
   }
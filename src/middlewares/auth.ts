@@ -1,38 +1,198 @@
 import httpStatus from "http-status";
 import ApiError from "../utils/ApiError.js";
-import { roleRights } from "../config/roles.js";
 import { NextFunction, Request, Response } from "express";
-import { tokenService } from "../services";
+import config from "../config/config.js";
+import { PolicyAction, PolicyResource } from "../config/policies.js";
+import logger from "../config/logger.js";
+import { assertRecentAuth } from "../utils/recentAuth.js";
+import { PolicyActor } from "../services/policy.service.js";
+import {
+  apiKeyService,
+  impersonationService,
+  oauthServerService,
+  policyService,
+  roleService,
+  tokenService,
+} from "../services";
+import {
+  getSessionCookie,
+  hasValidCsrfToken,
+  setSessionCookie,
+} from "../utils/sessionCookie.js";
+
+export interface AuthOptions {
+  // reject users who have not entered their credentials for this long
+  recentAuthMinutes?: number;
+  // the policy of config/policies.ts that decides the request
+  policy?: { resource: PolicyResource; action: string };
+}
+
+/**
+ * Require the user to have logged in or reauthenticated recently
+ * @param {number} [minutes] - RECENT_AUTH_MINUTES by default
+ * @returns {AuthOptions}
+ */
+export const recentAuth = (
+  minutes: number = config.auth.recentAuthMinutes
+): AuthOptions => ({ recentAuthMinutes: minutes });
+
+/**
+ * Let a policy decide the request. The resource is the one of the
+ * `:<resource>Id` route parameter, e.g. `:userId` for users.
+ * @param {PolicyResource} resource
+ * @param {string} action
+ * @returns {AuthOptions}
+ */
+export const policy = <R extends PolicyResource>(
+  resource: R,
+  action: PolicyAction<R>
+): AuthOptions => ({ policy: { resource, action: action as string } });
+
+/**
+ * Decide the request with the policy of the route, if it has one
+ * @param {Request} req
+ * @param {AuthOptions} options
+ * @param {PolicyActor} actor
+ * @returns {Promise<void>}
+ */
+const authorizePolicy = async (
+  req: Request,
+  options: AuthOptions,
+  actor: PolicyActor
+): Promise<void> => {
+  if (!options.policy) {
+    return;
+  }
+  const { resource, action } = options.policy;
+  await policyService.authorize(
+    resource,
+    action,
+    req.params[`${resource}Id`],
+    actor,
+    { changes: Object.keys(req.body ?? {}) }
+  );
+};
 
 const auth =
-  (...requiredRights: string[]) =>
+  (...args: (string | AuthOptions)[]) =>
   async (req: Request, res: Response, next: NextFunction) => {
-    return new Promise(async (resolve, reject) => {
-      const sessionId = req.headers.authorization?.split(" ")[1] as string;
-      const { session, user } = await tokenService.validateSessionToken(
-        sessionId
-      );
-
-      if (!session) {
-        return reject(
-          new ApiError(httpStatus.UNAUTHORIZED, "Please authenticate")
-        );
+    const requiredRights = args.filter(
+      (arg): arg is string => typeof arg === "string"
+    );
+    const options: AuthOptions = Object.assign(
+      {},
+      ...args.filter((arg) => typeof arg !== "string")
+    );
+    try {
+      const bearerToken = req.headers.authorization?.split(" ")[1];
+      const cookieToken = bearerToken ? undefined : getSessionCookie(req);
+      const token = (bearerToken ?? cookieToken) as string;
+      const servicePrincipal = bearerToken
+        ? await oauthServerService.validateClientToken(bearerToken)
+        : null;
+      if (servicePrincipal) {
+        // clients act for no user, so they only reach routes guarded by rights
+        // or policies
+        const hasRequiredRights =
+          (requiredRights.length > 0 || options.policy !== undefined) &&
+          requiredRights.every((requiredRight) =>
+            servicePrincipal.scopes.includes(requiredRight)
+          );
+        if (!hasRequiredRights) {
+          throw new ApiError(httpStatus.FORBIDDEN, "Forbidden");
+        }
+        await authorizePolicy(req, options, {
+          rights: servicePrincipal.scopes,
+          attributes: { kind: "client" },
+        });
+        req.client = servicePrincipal;
+        req.rights = servicePrincipal.scopes;
+        return next();
+      }
+      // API keys are only ever sent as bearer tokens
+      const apiKeyAuth = bearerToken
+        ? await apiKeyService.validateApiKey(bearerToken)
+        : null;
+      // session tokens and access tokens are both accepted as bearer tokens
+      const { session, user: sessionUser } = apiKeyAuth
+        ? { session: null, user: apiKeyAuth.user }
+        : await tokenService.validateSessionToken(token);
+      const accessTokenAuth = sessionUser
+        ? null
+        : await tokenService.validateAccessToken(token);
+      const user = sessionUser ?? accessTokenAuth?.user;
+
+      if (!user) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, "Please authenticate");
+      }
+      if (apiKeyAuth && !requiredRights.length && !options.policy) {
+        // like clients, keys only reach routes guarded by rights or policies,
+        // so a leaked key cannot manage the credentials or sessions of its
+        // owner
+        throw new ApiError(httpStatus.FORBIDDEN, "Forbidden");
+      }
+
+      if (cookieToken) {
+        // the cookie only ever carries session tokens
+        if (!session) {
+          throw new ApiError(httpStatus.UNAUTHORIZED, "Please authenticate");
+        }
+        if (!(await hasValidCsrfToken(req, cookieToken))) {
+          throw new ApiError(httpStatus.FORBIDDEN, "Invalid CSRF token");
+        }
+        await setSessionCookie(res, cookieToken, session.expiresAt);
       }
 
       req.user = user;
-      if (requiredRights.length) {
-        const userRights = roleRights.get(user.role) ?? [];
+      req.session = session ?? undefined;
+      req.apiKey = apiKeyAuth?.apiKey;
+      req.tokenFamily = accessTokenAuth?.accessToken.family ?? undefined;
+      req.authenticatedAt =
+        session?.authenticatedAt ??
+        accessTokenAuth?.accessToken.authenticatedAt ??
+        undefined;
+      if (session?.impersonatorId) {
+        // lets handlers tell an admin acting as the user from the user
+        req.user = { ...user, impersonatedBy: session.impersonatorId };
+        res.on("finish", () => {
+          impersonationService
+            .recordRequest(session, {
+              method: req.method,
+              path: req.originalUrl,
+              statusCode: res.statusCode,
+              ipAddress: req.ip,
+            })
+            .catch((err) => logger.error(err));
+        });
+      }
+      if (requiredRights.length || options.policy) {
+        const userRoleRights = await roleService.getUserRights(user);
+        // an API key never grants more than its scopes
+        const userRights = apiKeyAuth
+          ? userRoleRights.filter((right) =>
+              (apiKeyAuth.apiKey.scopes as string[]).includes(right)
+            )
+          : userRoleRights;
         const hasRequiredRights = requiredRights.every((requiredRight) =>
           userRights.includes(requiredRight)
         );
-        if (!hasRequiredRights && req.params.userId !== user.id) {
-          return reject(new ApiError(httpStatus.FORBIDDEN, "Forbidden"));
+        if (!hasRequiredRights) {
+          throw new ApiError(httpStatus.FORBIDDEN, "Forbidden");
         }
+        req.rights = userRights;
+        await authorizePolicy(req, options, {
+          id: user.id,
+          rights: userRights,
+          attributes: { kind: "user", role: user.role },
+        });
+      }
+      if (options.recentAuthMinutes !== undefined) {
+        assertRecentAuth(req, options.recentAuthMinutes);
       }
-      resolve(res);
-    })
-      .then(() => next())
-      .catch((err) => next(err));
+      return next();
+    } catch (error) {
+      return next(error);
+    }
   };
 
 export default auth;
@@ -20,15 +20,17 @@ export const errorConverter: ErrorRequestHandler = (err, req, res, next) => {
 
 // eslint-disable-next-line no-unused-vars, @typescript-eslint/no-unused-vars
 export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
-  let { statusCode, message } = err;
+  let { statusCode, message, details } = err;
   if (config.env === "production" && !err.isOperational) {
     statusCode = httpStatus.INTERNAL_SERVER_ERROR;
     message = httpStatus[httpStatus.INTERNAL_SERVER_ERROR];
+    details = undefined;
   }
 
   res.locals.errorMessage = err.message;
 
   const response = {
+    ...details,
     code: statusCode,
     message,
     ...(config.env === "development" && { stack: err.stack }),
@@ -0,0 +1,24 @@
+import httpStatus from "http-status";
+import { NextFunction, Request, Response } from "express";
+import ApiError from "../utils/ApiError.js";
+
+/**
+ * Reject sensitive actions while an admin impersonates the user
+ */
+const forbidImpersonation = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.user?.impersonatedBy) {
+    return next(
+      new ApiError(
+        httpStatus.FORBIDDEN,
+        "This action is not allowed while impersonating a user"
+      )
+    );
+  }
+  next();
+};
+
+export default forbidImpersonation;
@@ -0,0 +1,165 @@
+import express from "express";
+import auth from "../../middlewares/auth.js";
+import forbidImpersonation from "../../middlewares/impersonation.js";
+import validate from "../../middlewares/validate.js";
+import { impersonationValidation } from "../../validations";
+import { impersonationController } from "../../controllers";
+
+const router = express.Router();
+
+router.post(
+  "/",
+  auth("impersonateUsers"),
+  forbidImpersonation,
+  validate(impersonationValidation.startImpersonation),
+  impersonationController.startImpersonation
+);
+router.post("/stop", auth(), impersonationController.stopImpersonation);
+router.get(
+  "/events",
+  auth("impersonateUsers"),
+  validate(impersonationValidation.getImpersonationEvents),
+  impersonationController.getImpersonationEvents
+);
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Impersonation
+ *   description: Admins acting as a user to reproduce problems
+ */
+
+/**
+ * @swagger
+ * /impersonation:
+ *   post:
+ *     summary: Start impersonating a user
+ *     description: Only admins can impersonate users, and admins cannot be impersonated. The returned session token acts as the user for a short fixed time. Password, email, two-factor and passkey changes and account deletion are rejected while impersonating, and every request is recorded.
+ *     tags: [Impersonation]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *             example:
+ *               userId: 5ebac534954b54139806c112
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *                 token:
+ *                   type: string
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ *       "400":
+ *         description: Admins cannot impersonate themselves
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: You cannot impersonate yourself
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /impersonation/stop:
+ *   post:
+ *     summary: Stop impersonating a user
+ *     description: Ends the impersonation session the request is made with.
+ *     tags: [Impersonation]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "400":
+ *         description: The request is not made with an impersonation session
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: Not impersonating a user
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /impersonation/events:
+ *   get:
+ *     summary: Get the impersonation audit trail
+ *     description: Only admins can read the audit trail. Most recent events first.
+ *     tags: [Impersonation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: impersonatorId
+ *         schema:
+ *           type: string
+ *         description: Admin id
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         description: Impersonated user id
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [START, REQUEST, STOP]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         default: 10
+ *         description: Maximum number of events
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ImpersonationEvent'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
@@ -1,6 +1,15 @@
 import express from "express";
 import authRoute from "./auth.route.js";
+import webauthnRoute from "./webauthn.route.js";
+import oauthRoute from "./oauth.route.js";
 import userRoute from "./user.route.js";
+import impersonationRoute from "./impersonation.route.js";
+import oauthServerRoute from "./oauthServer.route.js";
+import invitationRoute from "./invitation.route.js";
+import maintenanceRoute from "./maintenance.route.js";
+import roleRoute from "./role.route.js";
+import permissionRoute from "./permission.route.js";
+import orgRoute from "./org.route.js";
 import docsRoute from "./docs.route.js";
 import config from "../../config/config.js";
 
@@ -11,10 +20,46 @@ const defaultRoutes = [
     path: "/auth",
     route: authRoute,
   },
+  {
+    path: "/auth/webauthn",
+    route: webauthnRoute,
+  },
+  {
+    path: "/auth/oauth",
+    route: oauthRoute,
+  },
   {
     path: "/users",
     route: userRoute,
   },
+  {
+    path: "/impersonation",
+    route: impersonationRoute,
+  },
+  {
+    path: "/oauth",
+    route: oauthServerRoute,
+  },
+  {
+    path: "/invitations",
+    route: invitationRoute,
+  },
+  {
+    path: "/maintenance",
+    route: maintenanceRoute,
+  },
+  {
+    path: "/roles",
+    route: roleRoute,
+  },
+  {
+    path: "/permissions",
+    route: permissionRoute,
+  },
+  {
+    path: "/orgs",
+    route: orgRoute,
+  },
 ];
 
 const devRoutes = [
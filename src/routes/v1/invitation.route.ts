@@ -0,0 +1,265 @@
+import express from "express";
+import auth from "../../middlewares/auth.js";
+import validate from "../../middlewares/validate.js";
+import { invitationValidation } from "../../validations";
+import { invitationController } from "../../controllers";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .post(
+    auth("manageUsers"),
+    validate(invitationValidation.createInvitation),
+    invitationController.createInvitation
+  )
+  .get(
+    auth("getUsers"),
+    validate(invitationValidation.getInvitations),
+    invitationController.getInvitations
+  );
+
+router.post(
+  "/accept",
+  validate(invitationValidation.acceptInvitation),
+  invitationController.acceptInvitation
+);
+
+router.post(
+  "/:invitationId/resend",
+  auth("manageUsers"),
+  validate(invitationValidation.resendInvitation),
+  invitationController.resendInvitation
+);
+
+router.delete(
+  "/:invitationId",
+  auth("manageUsers"),
+  validate(invitationValidation.revokeInvitation),
+  invitationController.revokeInvitation
+);
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Invitations
+ *   description: Onboarding users by invitation
+ */
+
+/**
+ * @swagger
+ * /invitations:
+ *   post:
+ *     summary: Invite a user
+ *     description: Only admins can invite users. The email gets a link to create an account with the given role, which expires after INVITATION_EXPIRATION_DAYS. An expired invitation for the same email is replaced.
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                  type: string
+ *                  enum: [USER, ADMIN]
+ *                  default: USER
+ *             example:
+ *               email: fake@example.com
+ *               role: USER
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Invitation'
+ *       "400":
+ *         description: Email already taken or already invited
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: Email already invited
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   get:
+ *     summary: Get invitations
+ *     description: Only admins can list invitations. Most recent first, expired ones included.
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [USER, ADMIN]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 10
+ *         description: Maximum number of invitations
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Invitation'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /invitations/accept:
+ *   post:
+ *     summary: Accept an invitation
+ *     description: Called from the link of an invitation. Creates the account with the invited email and role, already verified, and logs the new user in.
+ *     tags: [Invitations]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The invitation token
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - password
+ *             properties:
+ *               name:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: Must satisfy the password policy
+ *             example:
+ *               name: fake name
+ *               password: password1
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *                 token:
+ *                   type: string
+ *                   description: Session token, returned when AUTH_TOKEN_MODE is session
+ *                 csrfToken:
+ *                   type: string
+ *                   description: Returned instead of the session token when SESSION_COOKIE_ENABLED is set
+ *                 tokens:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *       "400":
+ *         $ref: '#/components/responses/DuplicateEmail'
+ *       "401":
+ *         description: Invalid or expired invitation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 401
+ *               message: Invalid or expired invitation
+ */
+
+/**
+ * @swagger
+ * /invitations/{invitationId}/resend:
+ *   post:
+ *     summary: Resend an invitation
+ *     description: Only admins can resend invitations. Sends a new link and renews the expiry; earlier links stop working.
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Invitation id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Invitation'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /invitations/{invitationId}:
+ *   delete:
+ *     summary: Revoke an invitation
+ *     description: Only admins can revoke invitations.
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Invitation id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
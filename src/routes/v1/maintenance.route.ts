@@ -0,0 +1,68 @@
+import express from "express";
+import auth from "../../middlewares/auth.js";
+import { maintenanceController } from "../../controllers";
+
+const router = express.Router();
+
+router
+  .route("/cleanup")
+  .get(auth("runMaintenance"), maintenanceController.getCleanupMetrics)
+  .post(auth("runMaintenance"), maintenanceController.runCleanup);
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Maintenance
+ *   description: Background jobs run by the API
+ */
+
+/**
+ * @swagger
+ * /maintenance/cleanup:
+ *   get:
+ *     summary: Get cleanup metrics
+ *     description: Only admins can see the cleanup metrics. They count what the instance that answers removed since it started.
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/CleanupMetrics'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   post:
+ *     summary: Run the cleanup now
+ *     description: Only admins can run the cleanup. It deletes expired sessions, tokens and pending links right away instead of waiting for the next scheduled run.
+ *     tags: [Maintenance]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/CleanupRun'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "409":
+ *         description: Another instance is running the cleanup
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 409
+ *               message: A cleanup is already running
+ */
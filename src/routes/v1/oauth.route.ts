@@ -0,0 +1,192 @@
+import express, { Router } from "express";
+import validate from "../../middlewares/validate";
+import { oauthValidation } from "../../validations";
+import { oauthController } from "../../controllers";
+import auth from "../../middlewares/auth";
+import forbidImpersonation from "../../middlewares/impersonation";
+
+const router: Router = express.Router();
+
+router.get("/identities", auth(), oauthController.getIdentities);
+router.delete(
+  "/identities/:identityId",
+  auth(),
+  forbidImpersonation,
+  validate(oauthValidation.deleteIdentity),
+  oauthController.deleteIdentity
+);
+router.get(
+  "/:provider/authorize",
+  validate(oauthValidation.authorize),
+  oauthController.authorize
+);
+router.post(
+  "/:provider/link",
+  auth(),
+  forbidImpersonation,
+  validate(oauthValidation.authorize),
+  oauthController.link
+);
+router.get(
+  "/:provider/callback",
+  validate(oauthValidation.callback),
+  oauthController.callback
+);
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Social login
+ *   description: Sign in with GitHub, Google or a generic OpenID Connect provider
+ */
+
+/**
+ * @swagger
+ * /auth/oauth/{provider}/authorize:
+ *   get:
+ *     summary: Start a social login
+ *     description: Redirects to the provider. State and a PKCE verifier are kept on the server.
+ *     tags: [Social login]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [github, google, oidc]
+ *     responses:
+ *       "302":
+ *         description: Redirect to the provider
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /auth/oauth/{provider}/link:
+ *   post:
+ *     summary: Link a provider to the current user
+ *     description: Returns the provider url to navigate to. The callback then links the external account instead of signing in. The flow is bound to the browser with an httpOnly cookie, so send the request with credentials from the browser that navigates.
+ *     tags: [Social login]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [github, google, oidc]
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 url:
+ *                   type: string
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /auth/oauth/{provider}/callback:
+ *   get:
+ *     summary: Finish a social login
+ *     description: Creates the user on first sign in. When the flow was started with the link endpoint, no session is created.
+ *     tags: [Social login]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [github, google, oidc]
+ *       - in: query
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *                 token:
+ *                   type: string
+ *       "401":
+ *         description: Invalid OAuth state
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 401
+ *               message: Invalid OAuth state
+ *       "409":
+ *         description: An account with this email already exists
+ */
+
+/**
+ * @swagger
+ * /auth/oauth/identities:
+ *   get:
+ *     summary: List my linked providers
+ *     tags: [Social login]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Identity'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /auth/oauth/identities/{identityId}:
+ *   delete:
+ *     summary: Unlink a provider
+ *     description: The last way to sign in cannot be removed.
+ *     tags: [Social login]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: identityId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "400":
+ *         description: Cannot unlink the only way to sign in
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
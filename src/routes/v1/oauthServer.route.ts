@@ -0,0 +1,291 @@
+import express from "express";
+import auth from "../../middlewares/auth.js";
+import validate from "../../middlewares/validate.js";
+import { oauthServerValidation } from "../../validations";
+import { oauthServerController } from "../../controllers";
+
+const router = express.Router();
+
+router.post(
+  "/token",
+  validate(oauthServerValidation.token),
+  oauthServerController.token
+);
+router.post(
+  "/introspect",
+  validate(oauthServerValidation.introspect),
+  oauthServerController.introspect
+);
+router.post(
+  "/revoke",
+  validate(oauthServerValidation.revoke),
+  oauthServerController.revoke
+);
+
+router
+  .route("/clients")
+  .post(
+    auth("manageClients"),
+    validate(oauthServerValidation.createClient),
+    oauthServerController.createClient
+  )
+  .get(auth("manageClients"), oauthServerController.getClients);
+
+router.delete(
+  "/clients/:clientId",
+  auth("manageClients"),
+  validate(oauthServerValidation.deleteClient),
+  oauthServerController.deleteClient
+);
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: OAuth
+ *   description: Machine-to-machine access with the OAuth 2.0 client_credentials grant
+ */
+
+/**
+ * @swagger
+ * /oauth/token:
+ *   post:
+ *     summary: Get an access token for a client
+ *     description: Implements the client_credentials grant. The client authenticates with HTTP Basic auth or with client_id and client_secret in the body. The access token is used as a bearer token and only grants the requested scopes.
+ *     tags: [OAuth]
+ *     security:
+ *       - basicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - grant_type
+ *             properties:
+ *               grant_type:
+ *                 type: string
+ *                 enum: [client_credentials]
+ *               scope:
+ *                 type: string
+ *                 description: Space separated scopes, all the scopes of the client by default
+ *               client_id:
+ *                 type: string
+ *               client_secret:
+ *                 type: string
+ *             example:
+ *               grant_type: client_credentials
+ *               scope: getUsers
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 access_token:
+ *                   type: string
+ *                 token_type:
+ *                   type: string
+ *                 expires_in:
+ *                   type: integer
+ *                 scope:
+ *                   type: string
+ *             example:
+ *               access_token: ct_x4k2m9q7vl3n8c5b1z6d0f2g4h7j9k1m
+ *               token_type: Bearer
+ *               expires_in: 3600
+ *               scope: getUsers
+ *       "400":
+ *         description: Invalid request or scope
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: invalid_scope
+ *               code: 400
+ *               message: The requested scope exceeds the scopes of the client
+ *       "401":
+ *         description: Client authentication failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               error: invalid_client
+ *               code: 401
+ *               message: Client authentication failed
+ */
+
+/**
+ * @swagger
+ * /oauth/introspect:
+ *   post:
+ *     summary: Introspect an access token
+ *     description: Tokens issued to other clients are reported inactive.
+ *     tags: [OAuth]
+ *     security:
+ *       - basicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 active:
+ *                   type: boolean
+ *                 client_id:
+ *                   type: string
+ *                 scope:
+ *                   type: string
+ *                 token_type:
+ *                   type: string
+ *                 exp:
+ *                   type: integer
+ *                 iat:
+ *                   type: integer
+ *       "401":
+ *         description: Client authentication failed
+ */
+
+/**
+ * @swagger
+ * /oauth/revoke:
+ *   post:
+ *     summary: Revoke an access token
+ *     description: Unknown tokens are ignored.
+ *     tags: [OAuth]
+ *     security:
+ *       - basicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       "200":
+ *         description: OK
+ *       "401":
+ *         description: Client authentication failed
+ */
+
+/**
+ * @swagger
+ * /oauth/clients:
+ *   post:
+ *     summary: Register a client
+ *     description: Only admins can register clients. The client secret is only returned in this response.
+ *     tags: [OAuth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 64
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               ownerId:
+ *                 type: string
+ *                 description: The user responsible for the client, the caller by default
+ *             example:
+ *               name: billing service
+ *               scopes: [getUsers]
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 client:
+ *                   $ref: '#/components/schemas/OAuthClient'
+ *                 clientSecret:
+ *                   type: string
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   get:
+ *     summary: Get all clients
+ *     description: Only admins can list clients.
+ *     tags: [OAuth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/OAuthClient'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /oauth/clients/{clientId}:
+ *   delete:
+ *     summary: Delete a client
+ *     description: Only admins can delete clients. Its access tokens stop working right away.
+ *     tags: [OAuth]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: clientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
@@ -0,0 +1,438 @@
+import express from "express";
+import auth, { policy, recentAuth } from "../../middlewares/auth.js";
+import validate from "../../middlewares/validate.js";
+import { orgValidation } from "../../validations";
+import { orgController } from "../../controllers";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .post(auth(), validate(orgValidation.createOrg), orgController.createOrg)
+  .get(auth(), orgController.getMyOrgs);
+
+router
+  .route("/:orgId")
+  .get(
+    auth(policy("org", "read")),
+    validate(orgValidation.getOrg),
+    orgController.getOrg
+  )
+  .patch(
+    auth(policy("org", "update")),
+    validate(orgValidation.updateOrg),
+    orgController.updateOrg
+  )
+  .delete(
+    auth(policy("org", "delete"), recentAuth()),
+    validate(orgValidation.deleteOrg),
+    orgController.deleteOrg
+  );
+
+router.post(
+  "/:orgId/leave",
+  auth(policy("org", "read")),
+  validate(orgValidation.getOrg),
+  orgController.leaveOrg
+);
+
+router
+  .route("/:orgId/members")
+  .get(
+    auth(policy("org", "read")),
+    validate(orgValidation.getOrg),
+    orgController.getMembers
+  )
+  .post(
+    auth(policy("org", "manageMembers")),
+    validate(orgValidation.addMember),
+    orgController.addMember
+  );
+
+router
+  .route("/:orgId/members/:userId")
+  .patch(
+    auth(policy("org", "manageMembers")),
+    validate(orgValidation.updateMember),
+    orgController.updateMember
+  )
+  .delete(
+    auth(policy("org", "manageMembers")),
+    validate(orgValidation.removeMember),
+    orgController.removeMember
+  );
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Organizations
+ *   description: Organizations and their members
+ */
+
+/**
+ * @swagger
+ * /orgs:
+ *   post:
+ *     summary: Create an organization
+ *     description: Logged in users can create organizations. They become its owner.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 128
+ *             example:
+ *               name: Acme
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Organization'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *
+ *   get:
+ *     summary: Get my organizations
+ *     description: Lists the organizations the user is a member of, with their role in each and whether the session works in it.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/Organization'
+ *                   - type: object
+ *                     properties:
+ *                       role:
+ *                         type: string
+ *                         enum: [OWNER, ADMIN, MEMBER]
+ *                       active:
+ *                         type: boolean
+ *                         description: Whether this is the active organization of the session
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /orgs/{id}:
+ *   get:
+ *     summary: Get an organization
+ *     description: Members can fetch their organizations.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Organization'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   patch:
+ *     summary: Update an organization
+ *     description: Owners and admins of the organization can rename it.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 128
+ *             example:
+ *               name: Acme Inc
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Organization'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   delete:
+ *     summary: Delete an organization
+ *     description: Owners can delete their organization with all its memberships. Requires a login or reauthentication within RECENT_AUTH_MINUTES.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/ReauthenticationRequired'
+ */
+
+/**
+ * @swagger
+ * /orgs/{id}/leave:
+ *   post:
+ *     summary: Leave an organization
+ *     description: Members can leave their organizations, unless they are its last owner.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "400":
+ *         description: The member is the last owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: An organization needs at least one owner
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /orgs/{id}/members:
+ *   get:
+ *     summary: Get the members of an organization
+ *     description: Members can list the members of their organizations.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/OrgMember'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   post:
+ *     summary: Add a member
+ *     description: Owners and admins of the organization can add existing users to it. Only owners can add owners.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, ADMIN, MEMBER]
+ *                 default: MEMBER
+ *             example:
+ *               email: fake@example.com
+ *               role: ADMIN
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/OrgMember'
+ *       "400":
+ *         description: The user is already a member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: User is already a member
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /orgs/{id}/members/{userId}:
+ *   patch:
+ *     summary: Change the role of a member
+ *     description: Owners and admins of the organization can change the roles of its members. Only owners can grant or take away ownership, and the last owner keeps it.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, ADMIN, MEMBER]
+ *             example:
+ *               role: MEMBER
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/OrgMember'
+ *       "400":
+ *         description: The member is the last owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: An organization needs at least one owner
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   delete:
+ *     summary: Remove a member
+ *     description: Owners and admins of the organization can remove its members. Only owners can remove owners, and the last owner stays.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "400":
+ *         description: The member is the last owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: An organization needs at least one owner
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
@@ -0,0 +1,129 @@
+import express from "express";
+import auth from "../../middlewares/auth.js";
+import validate from "../../middlewares/validate.js";
+import { roleValidation } from "../../validations";
+import { roleController } from "../../controllers";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .get(auth("manageRoles"), roleController.getPermissions)
+  .post(
+    auth("manageRoles"),
+    validate(roleValidation.createPermission),
+    roleController.createPermission
+  );
+
+router.delete(
+  "/:permission",
+  auth("manageRoles"),
+  validate(roleValidation.deletePermission),
+  roleController.deletePermission
+);
+
+export default router;
+
+/**
+ * @swagger
+ * /permissions:
+ *   get:
+ *     summary: Get all permissions
+ *     description: Only admins can manage roles. Lists the permissions checked by the routes and the ones created through the API.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Permission'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   post:
+ *     summary: Create a permission
+ *     description: Only admins can manage roles. A new permission can be granted to roles and used as a scope right away, routes check it once code guards them with it.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 64
+ *               description:
+ *                 type: string
+ *             example:
+ *               name: exportReports
+ *               description: Download the monthly reports
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Permission'
+ *       "400":
+ *         description: The permission already exists
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: Permission already exists
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /permissions/{permission}:
+ *   delete:
+ *     summary: Delete a permission
+ *     description: Only admins can manage roles. The permission is revoked from every role. Permissions checked by the routes cannot be deleted.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: permission
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Permission name
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "400":
+ *         description: The permission is built-in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: Built-in permissions cannot be deleted
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
@@ -0,0 +1,402 @@
+import express from "express";
+import auth from "../../middlewares/auth.js";
+import validate from "../../middlewares/validate.js";
+import { roleValidation } from "../../validations";
+import { roleController } from "../../controllers";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .get(auth("manageRoles"), roleController.getRoles)
+  .post(
+    auth("manageRoles"),
+    validate(roleValidation.createRole),
+    roleController.createRole
+  );
+
+router
+  .route("/:roleId")
+  .get(
+    auth("manageRoles"),
+    validate(roleValidation.getRole),
+    roleController.getRole
+  )
+  .patch(
+    auth("manageRoles"),
+    validate(roleValidation.updateRole),
+    roleController.updateRole
+  )
+  .delete(
+    auth("manageRoles"),
+    validate(roleValidation.deleteRole),
+    roleController.deleteRole
+  );
+
+router
+  .route("/:roleId/permissions/:permission")
+  .put(
+    auth("manageRoles"),
+    validate(roleValidation.rolePermission),
+    roleController.grantPermission
+  )
+  .delete(
+    auth("manageRoles"),
+    validate(roleValidation.rolePermission),
+    roleController.revokePermission
+  );
+
+router
+  .route("/:roleId/members/:userId")
+  .put(
+    auth("manageRoles"),
+    validate(roleValidation.roleMember),
+    roleController.assignRole
+  )
+  .delete(
+    auth("manageRoles"),
+    validate(roleValidation.roleMember),
+    roleController.unassignRole
+  );
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Roles
+ *   description: Roles and the permissions they grant
+ */
+
+/**
+ * @swagger
+ * /roles:
+ *   get:
+ *     summary: Get all roles
+ *     description: Only admins can manage roles. The built-in roles USER and ADMIN are listed along with the custom roles.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AccessRole'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   post:
+ *     summary: Create a role
+ *     description: Only admins can manage roles. Custom roles are assigned to users on top of their built-in role.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 64
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *             example:
+ *               name: support
+ *               description: Answers user tickets
+ *               permissions: [getUsers]
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/AccessRole'
+ *       "400":
+ *         description: The role already exists or a permission is unknown
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: Role already exists
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /roles/{id}:
+ *   get:
+ *     summary: Get a role
+ *     description: Only admins can manage roles.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Role id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/AccessRole'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   patch:
+ *     summary: Update a role
+ *     description: Only admins can manage roles. Built-in roles cannot be renamed.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Role id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 64
+ *               description:
+ *                 type: string
+ *             example:
+ *               description: Answers user tickets and unlocks accounts
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/AccessRole'
+ *       "400":
+ *         description: The role is built-in or the name is taken
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: Built-in roles cannot be renamed
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   delete:
+ *     summary: Delete a role
+ *     description: Only admins can manage roles. The users of the role lose its permissions. Built-in roles cannot be deleted.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Role id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "400":
+ *         description: The role is built-in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: Built-in roles cannot be deleted
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /roles/{id}/permissions/{permission}:
+ *   put:
+ *     summary: Grant a permission to a role
+ *     description: Only admins can manage roles. Users of the role get the permission right away on this instance and within ROLE_CACHE_TTL_SECONDS on the others.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Role id
+ *       - in: path
+ *         name: permission
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Permission name
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/AccessRole'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   delete:
+ *     summary: Revoke a permission from a role
+ *     description: Only admins can manage roles. Users of the role lose the permission right away on this instance and within ROLE_CACHE_TTL_SECONDS on the others.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Role id
+ *       - in: path
+ *         name: permission
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Permission name
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/AccessRole'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /roles/{id}/members/{userId}:
+ *   put:
+ *     summary: Assign a role to a user
+ *     description: Only admins can manage roles. The user keeps their built-in role and gets the permissions of this one too. Built-in roles follow the role of the user and cannot be assigned here.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Role id
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     responses:
+ *       "200":
+ *         description: The roles assigned to the user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AccessRole'
+ *       "400":
+ *         description: The role is built-in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 400
+ *               message: Built-in roles are given by the role of the user
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   delete:
+ *     summary: Take a role away from a user
+ *     description: Only admins can manage roles.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Role id
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
@@ -1,8 +1,19 @@
 import express from "express";
-import auth from "../../middlewares/auth.js";
+import auth, { policy, recentAuth } from "../../middlewares/auth.js";
+import forbidImpersonation from "../../middlewares/impersonation.js";
 import validate from "../../middlewares/validate.js";
-import { userValidation } from "../../validations";
-import { userController } from "../../controllers";
+import {
+  apiKeyValidation,
+  roleValidation,
+  sessionValidation,
+  userValidation,
+} from "../../validations";
+import {
+  apiKeyController,
+  roleController,
+  sessionController,
+  userController,
+} from "../../controllers";
 
 const router = express.Router();
 
@@ -19,24 +30,86 @@ router
     userController.getUsers
   );
 
+router.get(
+  "/password-hashes",
+  auth("getUsers"),
+  userController.getPasswordHashReport
+);
+
+router
+  .route("/me/api-keys")
+  .post(
+    auth(recentAuth()),
+    forbidImpersonation,
+    validate(apiKeyValidation.createApiKey),
+    apiKeyController.createApiKey
+  )
+  .get(auth(), apiKeyController.getApiKeys);
+
+router.delete(
+  "/me/api-keys/:apiKeyId",
+  auth(recentAuth()),
+  forbidImpersonation,
+  validate(apiKeyValidation.deleteApiKey),
+  apiKeyController.deleteApiKey
+);
+
 router
   .route("/:userId")
   .get(
-    auth("getUsers"),
+    auth(policy("user", "read")),
     validate(userValidation.getUser),
     userController.getUser
   )
   .patch(
-    auth("manageUsers"),
+    auth(policy("user", "update")),
     validate(userValidation.updateUser),
     userController.updateUser
   )
   .delete(
-    auth("manageUsers"),
+    auth(policy("user", "delete"), recentAuth()),
+    forbidImpersonation,
     validate(userValidation.deleteUser),
     userController.deleteUser
   );
 
+router.post(
+  "/:userId/unlock",
+  auth(policy("user", "unlock")),
+  validate(userValidation.unlockUser),
+  userController.unlockUser
+);
+
+router
+  .route("/:userId/sessions")
+  .get(
+    auth(policy("user", "readSessions")),
+    validate(sessionValidation.getUserSessions),
+    sessionController.getUserSessions
+  )
+  .delete(
+    auth(policy("user", "revokeSessions")),
+    forbidImpersonation,
+    validate(sessionValidation.deleteUserSessions),
+    sessionController.deleteUserSessions
+  );
+
+router
+  .route("/:userId/sessions/:sessionId")
+  .delete(
+    auth(policy("user", "revokeSessions")),
+    forbidImpersonation,
+    validate(sessionValidation.deleteUserSession),
+    sessionController.deleteUserSession
+  );
+
+router.get(
+  "/:userId/roles",
+  auth(policy("user", "readRoles")),
+  validate(roleValidation.getUserRoles),
+  roleController.getUserRoles
+);
+
 export default router;
 
 /**
@@ -77,7 +150,7 @@ export default router;
  *                 type: string
  *                 format: password
  *                 minLength: 8
- *                 description: At least one number and one letter
+ *                 description: Must satisfy the password policy
  *               role:
  *                  type: string
  *                  enum: [user, admin]
@@ -102,7 +175,7 @@ export default router;
  *
  *   get:
  *     summary: Get all users
- *     description: Only admins can retrieve all users.
+ *     description: Only admins can retrieve all users. Filters take an operator in brackets, e.g. email[contains]=acme or createdAt[gt]=2024-01-01, and a plain value means eq. Every filter must hold.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -111,30 +184,52 @@ export default router;
  *         name: name
  *         schema:
  *           type: string
- *         description: User name
+ *         description: User name, with eq, ne, in or contains
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *         description: User email, with eq, ne, in or contains
  *       - in: query
  *         name: role
  *         schema:
  *           type: string
- *         description: User role
+ *         description: User role, with eq, ne or in (ex. role[in]=USER,ADMIN)
+ *       - in: query
+ *         name: isEmailVerified
+ *         schema:
+ *           type: boolean
+ *         description: Whether the email is verified, with eq or ne
+ *       - in: query
+ *         name: createdAt
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Creation date, with eq, ne, gt or lt (ex. createdAt[gt]=2024-01-01)
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Text to search in the name and email
  *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
- *         description: sort by query in the form of field:desc/asc (ex. name:asc)
+ *         description: comma-separated fields in the form of field:desc/asc (ex. role:asc,createdAt:desc), out of name, email, role, createdAt and updatedAt
  *       - in: query
  *         name: limit
  *         schema:
  *           type: integer
  *           minimum: 1
+ *           maximum: 100
  *         default: 10
  *         description: Maximum number of users
  *       - in: query
  *         name: page
  *         schema:
  *           type: integer
- *           minimum: 0
- *           default: 0
+ *           minimum: 1
+ *           default: 1
  *         description: Page number
  *     responses:
  *       "200":
@@ -166,6 +261,102 @@ export default router;
  *         $ref: '#/components/responses/Forbidden'
  */
 
+/**
+ * @swagger
+ * /users/me/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: The key is only returned in this response. Requests made with it get the rights of the user limited to the scopes of the key. Requires a login or reauthentication within RECENT_AUTH_MINUTES.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 64
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [getUsers, manageUsers, impersonateUsers, manageClients]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *             example:
+ *               name: CI
+ *               scopes: [getUsers]
+ *               expiresAt: 2025-01-01T00:00:00.000Z
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 apiKey:
+ *                   $ref: '#/components/schemas/ApiKey'
+ *                 key:
+ *                   type: string
+ *                   example: ak_x4k2m9q7vl3n8c5b1z6d0f2g4h7j9k1m
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   get:
+ *     summary: Get my API keys
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ApiKey'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /users/me/api-keys/{apiKeyId}:
+ *   delete:
+ *     summary: Revoke one of my API keys
+ *     description: Requires a login or reauthentication within RECENT_AUTH_MINUTES.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: apiKeyId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: API key id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/ReauthenticationRequired'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
 /**
  * @swagger
  * /users/{id}:
@@ -198,7 +389,7 @@ export default router;
  *
  *   patch:
  *     summary: Update a user
- *     description: Logged in users can only update their own information. Only admins can update other users.
+ *     description: Logged in users can only update their own information. Only admins can update other users, and only users with the ADMIN role can update admins. Changing the email or password requires a login or reauthentication within RECENT_AUTH_MINUTES.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -221,12 +412,15 @@ export default router;
  *               email:
  *                 type: string
  *                 format: email
- *                 description: must be unique
+ *                 description: must be unique. Applied once the new address confirms it, unless skipEmailConfirmation is set
  *               password:
  *                 type: string
  *                 format: password
  *                 minLength: 8
- *                 description: At least one number and one letter
+ *                 description: Must satisfy the password policy. Signs the user out everywhere. Users change their own password with /auth/change-password
+ *               skipEmailConfirmation:
+ *                 type: boolean
+ *                 description: Admins only. Change the email right away and mark it unverified
  *             example:
  *               name: fake name
  *               email: fake@example.com
@@ -237,7 +431,14 @@ export default router;
  *         content:
  *           application/json:
  *             schema:
- *                $ref: '#/components/schemas/User'
+ *               allOf:
+ *                 - $ref: '#/components/schemas/User'
+ *                 - type: object
+ *                   properties:
+ *                     pendingEmail:
+ *                       type: string
+ *                       format: email
+ *                       description: Present when an email change is waiting for confirmation
  *       "400":
  *         $ref: '#/components/responses/DuplicateEmail'
  *       "401":
@@ -249,7 +450,34 @@ export default router;
  *
  *   delete:
  *     summary: Delete a user
- *     description: Logged in users can delete only themselves. Only admins can delete other users.
+ *     description: Logged in users can delete only themselves. Only admins can delete other users, and only users with the ADMIN role can delete admins. Requires a login or reauthentication within RECENT_AUTH_MINUTES.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     responses:
+ *       "200":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /users/{id}/sessions:
+ *   get:
+ *     summary: List the sessions of a user
+ *     description: Logged in users can list only their own sessions. Only admins can list the sessions of other users.
  *     tags: [Users]
  *     security:
  *       - bearerAuth: []
@@ -262,6 +490,64 @@ export default router;
  *         description: User id
  *     responses:
  *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Session'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   delete:
+ *     summary: Revoke all sessions of a user
+ *     description: Logged in users can revoke only their own sessions. Only admins can revoke the sessions of other users.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /users/{id}/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke a session of a user
+ *     description: Logged in users can revoke only their own sessions. Only admins can revoke the sessions of other users.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session id
+ *     responses:
+ *       "204":
  *         description: No content
  *       "401":
  *         $ref: '#/components/responses/Unauthorized'
@@ -270,3 +556,117 @@ export default router;
  *       "404":
  *         $ref: '#/components/responses/NotFound'
  */
+
+/**
+ * @swagger
+ * /users/{id}/unlock:
+ *   post:
+ *     summary: Unlock a user
+ *     description: Only admins can unlock users. Clears the failed login attempts that delayed or locked the account.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /users/password-hashes:
+ *   get:
+ *     summary: Report password hash parameters
+ *     description: Only admins can see the report. Counts users by the algorithm and cost of their password hash, so you can follow how many are still on legacy parameters. Hashes are upgraded on the next successful login.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 current:
+ *                   type: string
+ *                 upToDate:
+ *                   type: integer
+ *                 outdated:
+ *                   type: integer
+ *                 withoutPassword:
+ *                   type: integer
+ *                 hashes:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       parameters:
+ *                         type: string
+ *                       count:
+ *                         type: integer
+ *                       current:
+ *                         type: boolean
+ *               example:
+ *                 current: scrypt$ln=15,r=8,p=1
+ *                 upToDate: 120
+ *                 outdated: 34
+ *                 withoutPassword: 5
+ *                 hashes:
+ *                   - parameters: scrypt$ln=15,r=8,p=1
+ *                     count: 120
+ *                     current: true
+ *                   - parameters: bcrypt$cost=8
+ *                     count: 34
+ *                     current: false
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /users/{id}/roles:
+ *   get:
+ *     summary: Get the roles assigned to a user
+ *     description: Only admins can see the roles of other users. The built-in role of the user is not listed, its permissions apply on top of these.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AccessRole'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
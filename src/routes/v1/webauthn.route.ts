@@ -0,0 +1,214 @@
+import express, { Router } from "express";
+import validate from "../../middlewares/validate";
+import { webauthnValidation } from "../../validations";
+import { webauthnController } from "../../controllers";
+import auth from "../../middlewares/auth";
+import forbidImpersonation from "../../middlewares/impersonation";
+
+const router: Router = express.Router();
+
+router.post(
+  "/register/options",
+  auth(),
+  forbidImpersonation,
+  webauthnController.registrationOptions
+);
+router.post(
+  "/register",
+  auth(),
+  forbidImpersonation,
+  validate(webauthnValidation.register),
+  webauthnController.register
+);
+router.post("/login/options", webauthnController.loginOptions);
+router.post(
+  "/login",
+  validate(webauthnValidation.login),
+  webauthnController.login
+);
+router.get("/credentials", auth(), webauthnController.getCredentials);
+router.delete(
+  "/credentials/:credentialId",
+  auth(),
+  forbidImpersonation,
+  validate(webauthnValidation.deleteCredential),
+  webauthnController.deleteCredential
+);
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Passkeys
+ *   description: WebAuthn passkey registration and login
+ */
+
+/**
+ * @swagger
+ * /auth/webauthn/register/options:
+ *   post:
+ *     summary: Start passkey registration
+ *     description: Returns the options to pass to navigator.credentials.create(). Binary values are base64url encoded.
+ *     tags: [Passkeys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /auth/webauthn/register:
+ *   post:
+ *     summary: Finish passkey registration
+ *     tags: [Passkeys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - response
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Label to recognize the passkey
+ *               response:
+ *                 type: object
+ *                 properties:
+ *                   clientDataJSON:
+ *                     type: string
+ *                     description: base64url encoded
+ *                   attestationObject:
+ *                     type: string
+ *                     description: base64url encoded
+ *                   transports:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Passkey'
+ *       "400":
+ *         description: Invalid passkey registration
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /auth/webauthn/login/options:
+ *   post:
+ *     summary: Start passkey login
+ *     description: Returns the options to pass to navigator.credentials.get(). Binary values are base64url encoded.
+ *     tags: [Passkeys]
+ *     responses:
+ *       "200":
+ *         description: OK
+ */
+
+/**
+ * @swagger
+ * /auth/webauthn/login:
+ *   post:
+ *     summary: Finish passkey login
+ *     tags: [Passkeys]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - credentialId
+ *               - clientDataJSON
+ *               - authenticatorData
+ *               - signature
+ *             properties:
+ *               credentialId:
+ *                 type: string
+ *               clientDataJSON:
+ *                 type: string
+ *               authenticatorData:
+ *                 type: string
+ *               signature:
+ *                 type: string
+ *               userHandle:
+ *                 type: string
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   $ref: '#/components/schemas/User'
+ *                 token:
+ *                   type: string
+ *       "401":
+ *         description: Passkey authentication failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               code: 401
+ *               message: Passkey authentication failed
+ */
+
+/**
+ * @swagger
+ * /auth/webauthn/credentials:
+ *   get:
+ *     summary: List my passkeys
+ *     tags: [Passkeys]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Passkey'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /auth/webauthn/credentials/{credentialId}:
+ *   delete:
+ *     summary: Delete a passkey
+ *     tags: [Passkeys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: credentialId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
@@ -0,0 +1,129 @@
+import httpStatus from "http-status";
+import { ApiKey, User } from "@prisma/client";
+import prisma from "../client.js";
+import tokenService from "./token.service.js";
+import roleService from "./role.service.js";
+import ApiError from "../utils/ApiError.js";
+
+// lets the auth middleware tell API keys from session and access tokens
+const API_KEY_PREFIX = "ak_";
+// how stale lastUsedAt may get before a request writes it again
+const LAST_USED_UPDATE_INTERVAL_MS = 1000 * 60;
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+/**
+ * Hash an API key
+ * @param {string} key
+ * @returns {Promise<string>}
+ */
+const hashKey = async (key: string): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  return encoding.encodeHexLowerCase(sha256(new TextEncoder().encode(key)));
+};
+
+/**
+ * Create an API key. The key itself is only returned here.
+ * @param {string} userId
+ * @param {Object} apiKeyBody - name, scopes and expiresAt
+ * @returns {Promise<{ apiKey: Omit<ApiKey, "key" | "userId">; key: string }>}
+ */
+const createApiKey = async (
+  userId: string,
+  apiKeyBody: { name: string; scopes?: string[]; expiresAt?: Date }
+): Promise<{ apiKey: Omit<ApiKey, "key" | "userId">; key: string }> => {
+  await roleService.assertPermissionsExist(apiKeyBody.scopes ?? []);
+  const key = `${API_KEY_PREFIX}${await tokenService.generateSessionToken()}`;
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      userId,
+      name: apiKeyBody.name,
+      key: await hashKey(key),
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      scopes: apiKeyBody.scopes ?? [],
+      expiresAt: apiKeyBody.expiresAt,
+    },
+    select: apiKeySelect,
+  });
+  return { apiKey, key };
+};
+
+/**
+ * List the API keys of a user
+ * @param {string} userId
+ * @returns {Promise<Object[]>}
+ */
+const queryApiKeys = async (userId: string) => {
+  return prisma.apiKey.findMany({
+    where: { userId },
+    select: apiKeySelect,
+    orderBy: { createdAt: "asc" },
+  });
+};
+
+/**
+ * Revoke an API key of a user
+ * @param {string} userId
+ * @param {number} apiKeyId
+ * @returns {Promise<void>}
+ */
+const deleteApiKey = async (
+  userId: string,
+  apiKeyId: number
+): Promise<void> => {
+  const { count } = await prisma.apiKey.deleteMany({
+    where: { id: apiKeyId, userId },
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.NOT_FOUND, "API key not found");
+  }
+};
+
+/**
+ * Validate an API key and record its use
+ * @param {string} key
+ * @returns {Promise<{ apiKey: ApiKey; user: User } | null>}
+ */
+const validateApiKey = async (
+  key: string
+): Promise<{ apiKey: ApiKey; user: User } | null> => {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+  const result = await prisma.apiKey.findUnique({
+    where: { key: await hashKey(key) },
+    include: { user: true },
+  });
+  if (!result || (result.expiresAt && result.expiresAt <= new Date())) {
+    return null;
+  }
+  const { user, ...apiKey } = result;
+  if (
+    !apiKey.lastUsedAt ||
+    Date.now() - apiKey.lastUsedAt.getTime() >= LAST_USED_UPDATE_INTERVAL_MS
+  ) {
+    apiKey.lastUsedAt = new Date();
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: apiKey.lastUsedAt },
+    });
+  }
+  return { apiKey, user };
+};
+
+export default {
+  createApiKey,
+  queryApiKeys,
+  deleteApiKey,
+  validateApiKey,
+};
@@ -1,12 +1,30 @@
 import httpStatus from "http-status";
 import tokenService from "./token.service.js";
 import userService from "./user.service.js";
+import twoFactorService from "./twoFactor.service.js";
+import lockoutService from "./lockout.service.js";
+import impersonationService from "./impersonation.service.js";
 import ApiError from "../utils/ApiError.js";
-import { TokenType, User } from "@prisma/client";
+import { Token, TokenType, User } from "@prisma/client";
 import prisma from "../client.js";
-import { encryptPassword, isPasswordMatch } from "../utils/encryption.js";
+import {
+  encryptPassword,
+  isPasswordMatch,
+  needsRehash,
+} from "../utils/encryption.js";
 import exclude from "../utils/exclude.js";
 import logger from "../config/logger.js";
+import config from "../config/config.js";
+import { CurrentLogin } from "./session.service.js";
+import { AuthTokensResponse } from "../types/response.js";
+
+// hashed once with the configured algorithm and compared when there is no
+// password to compare, so unknown emails take as long as wrong passwords
+let dummyHash: Promise<string> | undefined;
+const getDummyHash = () => {
+  dummyHash ??= encryptPassword("not the password of anyone");
+  return dummyHash;
+};
 
 /**
  * Login with username and password
@@ -18,6 +36,7 @@ const loginUserWithEmailAndPassword = async (
   email: string,
   password: string
 ): Promise<Omit<User, "password">> => {
+  await lockoutService.reserveLoginAttempt(email);
   const user = await userService.getUserByEmail(email, [
     "id",
     "email",
@@ -28,19 +47,198 @@ const loginUserWithEmailAndPassword = async (
     "createdAt",
     "updatedAt",
   ]);
-  if (!user || !(await isPasswordMatch(password, user.password as string))) {
+  const passwordMatches = await isPasswordMatch(
+    password,
+    user?.password ?? (await getDummyHash())
+  );
+  if (!user || !user.password || !passwordMatches) {
+    await lockoutService.recordFailedLogin(email);
     throw new ApiError(httpStatus.UNAUTHORIZED, "Incorrect email or password");
   }
+  await lockoutService.clearFailedLogins(email);
+  // upgrade hashes made with an older algorithm or cost while we know the password
+  if (needsRehash(user.password)) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { password: await encryptPassword(password) },
+    });
+  }
   return exclude(user, ["password"]);
 };
 
+/**
+ * Complete a two-factor login challenge with a TOTP or recovery code
+ * @param {string} challengeToken
+ * @param {Object} proof
+ * @param {string} [proof.code]
+ * @param {string} [proof.recoveryCode]
+ * @returns {Promise<Omit<User, 'password'>>}
+ */
+const verifyTwoFactorChallenge = async (
+  challengeToken: string,
+  proof: { code?: string; recoveryCode?: string }
+): Promise<Omit<User, "password">> => {
+  const challenge = await tokenService.verifyToken(
+    challengeToken,
+    TokenType.TWO_FACTOR,
+    "Invalid two-factor challenge"
+  );
+  // codes can only be guessed a few times before the user has to log in again
+  await tokenService.reserveTokenAttempt(
+    challenge,
+    "Invalid two-factor challenge"
+  );
+  const twoFactor = await twoFactorService.getTwoFactorByUserId(
+    challenge.userId
+  );
+  const isValid = proof.code
+    ? !!twoFactor?.enabled &&
+      (await twoFactorService.useCode(twoFactor, proof.code))
+    : await twoFactorService.useRecoveryCode(
+        challenge.userId,
+        proof.recoveryCode as string
+      );
+  if (!isValid) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid two-factor code");
+  }
+  await tokenService.consumeReservedToken(
+    challenge,
+    "Invalid two-factor challenge"
+  );
+  const user = await userService.getUserById(challenge.userId, [
+    "id",
+    "email",
+    "name",
+    "role",
+    "isEmailVerified",
+    "createdAt",
+    "updatedAt",
+  ]);
+  if (!user) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid two-factor challenge");
+  }
+  return user;
+};
+
+/**
+ * Login with a magic link, consuming it
+ * @param {string} magicLinkToken
+ * @param {string} email - the address the link was sent to
+ * @returns {Promise<Omit<User, 'password'>>}
+ */
+const loginWithMagicLink = async (
+  magicLinkToken: string,
+  email: string
+): Promise<Omit<User, "password">> => {
+  const tokenData = await tokenService.verifyToken(
+    magicLinkToken,
+    TokenType.MAGIC_LINK,
+    "Invalid or expired link"
+  );
+  // links presented with the wrong email can only be tried a few times
+  await tokenService.reserveTokenAttempt(tokenData, "Invalid or expired link");
+  const user = await userService.getUserById(tokenData.userId, [
+    "id",
+    "email",
+    "name",
+    "role",
+    "isEmailVerified",
+    "createdAt",
+    "updatedAt",
+  ]);
+  if (!user || user.email.toLowerCase() !== email.toLowerCase()) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid or expired link");
+  }
+  await tokenService.consumeReservedToken(tokenData, "Invalid or expired link");
+  if (!user.isEmailVerified) {
+    await userService.updateUserById(user.id, { isEmailVerified: true });
+    user.isEmailVerified = true;
+  }
+  return user;
+};
+
+/**
+ * Find a refresh token by its raw value
+ * @param {string} refreshToken
+ * @returns {Promise<Token | null>}
+ */
+const findRefreshToken = async (
+  refreshToken: string
+): Promise<Token | null> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  const hashedToken = encoding.encodeHexLowerCase(
+    sha256(new TextEncoder().encode(refreshToken))
+  );
+  return prisma.token.findFirst({
+    where: { token: hashedToken, type: TokenType.REFRESH },
+  });
+};
+
 /**
  * Logout
- * @param {string} sessionToken
+ * @param {string} [sessionToken]
+ * @param {string} [refreshToken] - revokes the whole token family instead
  * @returns {Promise<void>}
  */
-const logout = async (sessionToken: string): Promise<void> => {
-  await tokenService.invalidateSession(sessionToken);
+const logout = async (
+  sessionToken?: string,
+  refreshToken?: string
+): Promise<void> => {
+  if (sessionToken) {
+    const { session } = await tokenService.validateSessionToken(sessionToken);
+    if (session?.impersonatorId) {
+      // logging out of an impersonation session ends the impersonation
+      await impersonationService.stopImpersonation(session);
+      return;
+    }
+    await tokenService.invalidateSession(sessionToken);
+    return;
+  }
+  if (!refreshToken) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Please authenticate");
+  }
+  const refreshTokenData = await findRefreshToken(refreshToken);
+  if (!refreshTokenData?.family) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Not found");
+  }
+  await tokenService.revokeTokenFamily(refreshTokenData.family);
+};
+
+/**
+ * Rotate a refresh token into a new access and refresh token pair.
+ * Presenting a refresh token that was already rotated revokes its family.
+ * @param {string} refreshToken
+ * @returns {Promise<AuthTokensResponse>}
+ */
+const refreshAuth = async (
+  refreshToken: string
+): Promise<AuthTokensResponse> => {
+  const refreshTokenData = await findRefreshToken(refreshToken);
+  if (
+    !refreshTokenData?.family ||
+    refreshTokenData.expires.getTime() <= Date.now()
+  ) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Please authenticate");
+  }
+  // only one request can rotate a token, any other use of it is a replay
+  const { count } = await prisma.token.updateMany({
+    where: { id: refreshTokenData.id, blacklisted: false },
+    data: { blacklisted: true },
+  });
+  if (!count) {
+    logger.warn(
+      `Refresh token reuse detected for user ${refreshTokenData.userId}, revoking its token family`
+    );
+    await tokenService.revokeTokenFamily(refreshTokenData.family);
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Please authenticate");
+  }
+  return tokenService.generateAuthTokens(
+    { id: refreshTokenData.userId },
+    refreshTokenData.family,
+    refreshTokenData.authenticatedAt
+  );
 };
 
 /**
@@ -53,55 +251,152 @@ const resetPassword = async (
   resetPasswordToken: string,
   newPassword: string
 ): Promise<void> => {
+  const tokenData = await tokenService.verifyToken(
+    resetPasswordToken,
+    TokenType.RESET_PASSWORD,
+    "Password reset failed"
+  );
+  const user = await userService.getUserById(tokenData.userId, ["id"]);
+  if (!user) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Password reset failed");
+  }
+  await tokenService.consumeToken(tokenData, "Password reset failed");
   try {
-    const resetPasswordTokenData = await tokenService.verifyToken(
-      resetPasswordToken,
-      TokenType.RESET_PASSWORD
-    );
-    const user = await userService.getUserById(resetPasswordTokenData.userId);
-    if (!user) {
-      throw new Error();
-    }
     await userService.updateUserById(user.id, { password: newPassword });
-    await prisma.token.deleteMany({
-      where: { userId: user.id, type: TokenType.RESET_PASSWORD },
-    });
   } catch (error) {
-    logger.error(error);
-    throw new ApiError(httpStatus.UNAUTHORIZED, "Password reset failed");
+    // password policy violations are reported to the user as they are, and
+    // the link keeps working for another password
+    await tokenService.releaseToken(tokenData);
+    throw error;
   }
+  await prisma.token.deleteMany({
+    where: { userId: user.id, type: TokenType.RESET_PASSWORD, usedAt: null },
+  });
 };
 
 /**
- * Verify email
- * @param {string} verifyEmailToken
+ * Change the password of a user who knows the current one
+ * @param {string} userId
+ * @param {string} currentPassword
+ * @param {string} newPassword
+ * @param {CurrentLogin} [currentLogin] - kept unless PASSWORD_CHANGE_REVOKE_SESSIONS is "all"
  * @returns {Promise<void>}
  */
-const verifyEmail = async (verifyEmailToken: string): Promise<void> => {
-  try {
-    const verifyEmailTokenData = await tokenService.verifyToken(
-      verifyEmailToken,
-      TokenType.VERIFY_EMAIL
+const changePassword = async (
+  userId: string,
+  currentPassword: string,
+  newPassword: string,
+  currentLogin: CurrentLogin = {}
+): Promise<void> => {
+  const user = await userService.getUserById(userId, ["id", "password"]);
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  if (!user.password) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "No password is set, use the password reset flow instead"
     );
-    await prisma.token.deleteMany({
-      where: {
-        userId: verifyEmailTokenData.userId,
-        type: TokenType.VERIFY_EMAIL,
-      },
+  }
+  if (!(await isPasswordMatch(currentPassword, user.password))) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Current password is incorrect");
+  }
+  await userService.updateUserById(
+    user.id,
+    { password: newPassword },
+    undefined,
+    config.passwordChange.revokeSessions === "others" ? currentLogin : {}
+  );
+};
+
+/**
+ * Confirm the password of a logged in user and stamp their current login
+ * as freshly authenticated. Failures count towards the login lockout.
+ * @param {string} userId
+ * @param {string} password
+ * @param {CurrentLogin} currentLogin - the session or token family to stamp
+ * @returns {Promise<Date>}
+ */
+const reauthenticate = async (
+  userId: string,
+  password: string,
+  currentLogin: CurrentLogin
+): Promise<Date> => {
+  const user = await userService.getUserById(userId, [
+    "id",
+    "email",
+    "password",
+  ]);
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  if (!user.password) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "No password is set, log in again instead"
+    );
+  }
+  if (!currentLogin.sessionId && !currentLogin.family) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Only sessions and access tokens can be reauthenticated"
+    );
+  }
+  await lockoutService.reserveLoginAttempt(user.email);
+  if (!(await isPasswordMatch(password, user.password))) {
+    await lockoutService.recordFailedLogin(user.email);
+    throw new ApiError(httpStatus.BAD_REQUEST, "Incorrect password");
+  }
+  await lockoutService.clearFailedLogins(user.email);
+  const authenticatedAt = new Date();
+  if (currentLogin.sessionId) {
+    await prisma.session.update({
+      where: { id: currentLogin.sessionId },
+      data: { authenticatedAt },
     });
-    await userService.updateUserById(verifyEmailTokenData.userId, {
-      isEmailVerified: true,
+  } else {
+    await prisma.token.updateMany({
+      where: { family: currentLogin.family },
+      data: { authenticatedAt },
     });
-  } catch (error) {
-    throw new ApiError(httpStatus.UNAUTHORIZED, "Email verification failed");
   }
+  return authenticatedAt;
+};
+
+/**
+ * Verify email
+ * @param {string} verifyEmailToken
+ * @returns {Promise<void>}
+ */
+const verifyEmail = async (verifyEmailToken: string): Promise<void> => {
+  const tokenData = await tokenService.verifyToken(
+    verifyEmailToken,
+    TokenType.VERIFY_EMAIL,
+    "Email verification failed"
+  );
+  await tokenService.consumeToken(tokenData, "Email verification failed");
+  await prisma.token.deleteMany({
+    where: {
+      userId: tokenData.userId,
+      type: TokenType.VERIFY_EMAIL,
+      usedAt: null,
+    },
+  });
+  await userService.updateUserById(tokenData.userId, {
+    isEmailVerified: true,
+  });
 };
 
 export default {
   loginUserWithEmailAndPassword,
+  verifyTwoFactorChallenge,
+  loginWithMagicLink,
   isPasswordMatch,
   encryptPassword,
   logout,
+  refreshAuth,
   resetPassword,
+  changePassword,
+  reauthenticate,
   verifyEmail,
 };
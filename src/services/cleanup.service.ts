@@ -0,0 +1,387 @@
+import httpStatus from "http-status";
+import moment from "moment";
+import { hostname } from "os";
+import { nanoid } from "nanoid";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import logger from "../config/logger.js";
+import ApiError from "../utils/ApiError.js";
+
+export type CleanupTarget =
+  | "sessions"
+  | "tokens"
+  | "emailChanges"
+  | "deviceAlerts"
+  | "invitations"
+  | "webauthnChallenges"
+  | "oauthStates"
+  | "oauthAccessTokens"
+  | "apiKeys"
+  | "loginLockouts";
+
+export type CleanupTrigger = "schedule" | "manual";
+
+export interface CleanupRun {
+  trigger: CleanupTrigger;
+  startedAt: Date;
+  durationMs: number;
+  deleted: Record<CleanupTarget, number>;
+}
+
+export interface CleanupMetrics {
+  instance: string;
+  runs: number;
+  // runs that found the lease held by another instance
+  skippedRuns: number;
+  failedRuns: number;
+  deleted: Record<CleanupTarget, number>;
+  lastRun: CleanupRun | null;
+  lastError: string | null;
+}
+
+const LOCK_NAME = "cleanup";
+// a run gives up its lease after this long even if it never releases it
+const LOCK_MINUTES = 15;
+// keeps a single run within its lease, whatever is left goes to the next run
+const MAX_BATCHES_PER_TARGET = 100;
+
+// tells the instances sharing the database apart when they take the lease
+const instanceId = `${hostname()}:${process.pid}:${nanoid(6)}`;
+
+const emptyCounts = (): Record<CleanupTarget, number> => ({
+  sessions: 0,
+  tokens: 0,
+  emailChanges: 0,
+  deviceAlerts: 0,
+  invitations: 0,
+  webauthnChallenges: 0,
+  oauthStates: 0,
+  oauthAccessTokens: 0,
+  apiKeys: 0,
+  loginLockouts: 0,
+});
+
+const metrics: CleanupMetrics = {
+  instance: instanceId,
+  runs: 0,
+  skippedRuns: 0,
+  failedRuns: 0,
+  deleted: emptyCounts(),
+  lastRun: null,
+  lastError: null,
+};
+
+/**
+ * Delete the rows of one batch. The delete repeats the conditions the ids
+ * were found with, so rows renewed in between are kept.
+ * @param {unknown[]} ids - the ids found for the batch
+ * @param {Function} deleteMany - deletes the rows of the ids
+ * @returns {Promise<{ found: number; deleted: number }>}
+ */
+const deleteBatch = async <T>(
+  ids: T[],
+  deleteMany: (ids: T[]) => Promise<{ count: number }>
+): Promise<{ found: number; deleted: number }> => {
+  if (!ids.length) {
+    return { found: 0, deleted: 0 };
+  }
+  const { count } = await deleteMany(ids);
+  return { found: ids.length, deleted: count };
+};
+
+/**
+ * What each target deletes: one batch of at most `take` rows that stopped
+ * being useful before `now`
+ */
+const targets: Record<
+  CleanupTarget,
+  (now: Date, take: number) => Promise<{ found: number; deleted: number }>
+> = {
+  // impersonation sessions included
+  sessions: async (now, take) => {
+    const where = { expiresAt: { lte: now } };
+    const rows = await prisma.session.findMany({
+      where,
+      select: { id: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ id }) => id),
+      (ids) =>
+        prisma.session.deleteMany({ where: { ...where, id: { in: ids } } })
+    );
+  },
+  // rotated refresh tokens are kept for a while, replaying one revokes its family
+  tokens: async (now, take) => {
+    const where = {
+      OR: [
+        { expires: { lte: now } },
+        {
+          blacklisted: true,
+          createdAt: {
+            lte: moment(now)
+              .subtract(config.cleanup.rotatedTokenRetentionDays, "days")
+              .toDate(),
+          },
+        },
+      ],
+    };
+    const rows = await prisma.token.findMany({
+      where,
+      select: { id: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ id }) => id),
+      (ids) => prisma.token.deleteMany({ where: { ...where, id: { in: ids } } })
+    );
+  },
+  emailChanges: async (now, take) => {
+    const where = { expiresAt: { lte: now } };
+    const rows = await prisma.emailChange.findMany({
+      where,
+      select: { userId: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ userId }) => userId),
+      (ids) =>
+        prisma.emailChange.deleteMany({
+          where: { ...where, userId: { in: ids } },
+        })
+    );
+  },
+  // the devices stay known, only the links of their alerts stop working
+  deviceAlerts: async (now, take) => {
+    const where = { expiresAt: { lte: now } };
+    const rows = await prisma.deviceAlert.findMany({
+      where,
+      select: { deviceId: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ deviceId }) => deviceId),
+      (ids) =>
+        prisma.deviceAlert.deleteMany({
+          where: { ...where, deviceId: { in: ids } },
+        })
+    );
+  },
+  invitations: async (now, take) => {
+    const where = { expiresAt: { lte: now } };
+    const rows = await prisma.invitation.findMany({
+      where,
+      select: { id: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ id }) => id),
+      (ids) =>
+        prisma.invitation.deleteMany({ where: { ...where, id: { in: ids } } })
+    );
+  },
+  webauthnChallenges: async (now, take) => {
+    const where = { expiresAt: { lte: now } };
+    const rows = await prisma.webAuthnChallenge.findMany({
+      where,
+      select: { id: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ id }) => id),
+      (ids) =>
+        prisma.webAuthnChallenge.deleteMany({
+          where: { ...where, id: { in: ids } },
+        })
+    );
+  },
+  oauthStates: async (now, take) => {
+    const where = { expiresAt: { lte: now } };
+    const rows = await prisma.oAuthState.findMany({
+      where,
+      select: { id: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ id }) => id),
+      (ids) =>
+        prisma.oAuthState.deleteMany({ where: { ...where, id: { in: ids } } })
+    );
+  },
+  oauthAccessTokens: async (now, take) => {
+    const where = { expiresAt: { lte: now } };
+    const rows = await prisma.oAuthAccessToken.findMany({
+      where,
+      select: { id: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ id }) => id),
+      (ids) =>
+        prisma.oAuthAccessToken.deleteMany({
+          where: { ...where, id: { in: ids } },
+        })
+    );
+  },
+  // keys without an expiry never match
+  apiKeys: async (now, take) => {
+    const where = { expiresAt: { lte: now } };
+    const rows = await prisma.apiKey.findMany({
+      where,
+      select: { id: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ id }) => id),
+      (ids) =>
+        prisma.apiKey.deleteMany({ where: { ...where, id: { in: ids } } })
+    );
+  },
+  // once neither a lock nor a delay holds, the failures no longer count
+  loginLockouts: async (now, take) => {
+    const where = {
+      AND: [
+        { OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] },
+        { OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }] },
+      ],
+    };
+    const rows = await prisma.loginLockout.findMany({
+      where,
+      select: { email: true },
+      take,
+    });
+    return deleteBatch(
+      rows.map(({ email }) => email),
+      (ids) =>
+        prisma.loginLockout.deleteMany({
+          where: { ...where, email: { in: ids } },
+        })
+    );
+  },
+};
+
+/**
+ * Take the cleanup lease unless another instance holds it
+ * @returns {Promise<boolean>} whether the lease was taken
+ */
+const acquireLock = async (): Promise<boolean> => {
+  const now = new Date();
+  const data = {
+    lockedUntil: moment(now).add(LOCK_MINUTES, "minutes").toDate(),
+    lockedBy: instanceId,
+  };
+  // skipping duplicates lets only one of the instances create the lease
+  const { count: created } = await prisma.jobLock.createMany({
+    data: { name: LOCK_NAME, ...data },
+    skipDuplicates: true,
+  });
+  if (created) {
+    return true;
+  }
+  const { count: taken } = await prisma.jobLock.updateMany({
+    where: { name: LOCK_NAME, lockedUntil: { lte: now } },
+    data,
+  });
+  return taken > 0;
+};
+
+/**
+ * Give up the cleanup lease, if this instance still holds it
+ * @returns {Promise<void>}
+ */
+const releaseLock = async (): Promise<void> => {
+  await prisma.jobLock.updateMany({
+    where: { name: LOCK_NAME, lockedBy: instanceId },
+    data: { lockedUntil: new Date() },
+  });
+};
+
+/**
+ * Delete expired sessions, tokens and pending links in batches. Only one
+ * instance runs at a time.
+ * @param {CleanupTrigger} [trigger]
+ * @returns {Promise<CleanupRun | null>} null when another instance is running
+ */
+const runCleanup = async (
+  trigger: CleanupTrigger = "schedule"
+): Promise<CleanupRun | null> => {
+  if (!(await acquireLock())) {
+    metrics.skippedRuns += 1;
+    return null;
+  }
+  const startedAt = new Date();
+  const deleted = emptyCounts();
+  try {
+    for (const target of Object.keys(targets) as CleanupTarget[]) {
+      for (let batch = 0; batch < MAX_BATCHES_PER_TARGET; batch += 1) {
+        const result = await targets[target](
+          startedAt,
+          config.cleanup.batchSize
+        );
+        deleted[target] += result.deleted;
+        metrics.deleted[target] += result.deleted;
+        if (result.found < config.cleanup.batchSize) {
+          break;
+        }
+      }
+    }
+  } catch (error) {
+    metrics.failedRuns += 1;
+    metrics.lastError = `${error}`;
+    throw error;
+  } finally {
+    await releaseLock();
+  }
+  const run: CleanupRun = {
+    trigger,
+    startedAt,
+    durationMs: Date.now() - startedAt.getTime(),
+    deleted,
+  };
+  metrics.runs += 1;
+  metrics.lastRun = run;
+  metrics.lastError = null;
+  logger.info(`cleanup ${JSON.stringify(run)}`);
+  return run;
+};
+
+/**
+ * Run the cleanup now on behalf of an admin
+ * @returns {Promise<CleanupRun>}
+ */
+const runCleanupNow = async (): Promise<CleanupRun> => {
+  const run = await runCleanup("manual");
+  if (!run) {
+    throw new ApiError(httpStatus.CONFLICT, "A cleanup is already running");
+  }
+  return run;
+};
+
+/**
+ * What the cleanup removed since this instance started
+ * @returns {CleanupMetrics}
+ */
+const getCleanupMetrics = (): CleanupMetrics => metrics;
+
+/**
+ * Run the cleanup every CLEANUP_INTERVAL_MINUTES
+ * @returns {NodeJS.Timeout | undefined} the timer, unless the cleanup is disabled
+ */
+const scheduleCleanup = (): NodeJS.Timeout | undefined => {
+  if (!config.cleanup.enabled) {
+    return undefined;
+  }
+  const timer = setInterval(() => {
+    runCleanup().catch((error) => logger.error(`Cleanup failed: ${error}`));
+  }, config.cleanup.intervalMinutes * 60 * 1000);
+  // a pending run must not keep the process alive on shutdown
+  timer.unref();
+  return timer;
+};
+
+export default {
+  runCleanup,
+  runCleanupNow,
+  getCleanupMetrics,
+  scheduleCleanup,
+};
@@ -0,0 +1,229 @@
+import httpStatus from "http-status";
+import moment from "moment";
+import { isIPv4, isIPv6 } from "net";
+import { KnownDevice } from "@prisma/client";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import logger from "../config/logger.js";
+import tokenService, { SessionMetadata } from "./token.service.js";
+import emailService from "./email.service.js";
+import sessionService from "./session.service.js";
+import ApiError from "../utils/ApiError.js";
+import { parseUserAgent } from "../utils/userAgent.js";
+
+const deviceSelect = {
+  id: true,
+  browser: true,
+  os: true,
+  ipSubnet: true,
+  createdAt: true,
+  lastSeenAt: true,
+};
+
+/**
+ * Hash a fingerprint or an alert token
+ * @param {string} value
+ * @returns {Promise<string>}
+ */
+const hashValue = async (value: string): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  return encoding.encodeHexLowerCase(sha256(new TextEncoder().encode(value)));
+};
+
+/**
+ * Reduce an IP address to its /24 (IPv4) or /64 (IPv6) subnet, so that
+ * addresses handed out by the same network count as one device
+ * @param {string} [ipAddress]
+ * @returns {string | null}
+ */
+const getIpSubnet = (ipAddress?: string): string | null => {
+  const ip = ipAddress?.replace(/^::ffff:/i, "").split("%")[0];
+  if (ip && isIPv4(ip)) {
+    return `${ip.split(".").slice(0, 3).join(".")}.0/24`;
+  }
+  if (ip && isIPv6(ip)) {
+    const [head, tail] = ip.split("::");
+    const headGroups = head ? head.split(":") : [];
+    const tailGroups = tail ? tail.split(":") : [];
+    const groups =
+      tail === undefined
+        ? headGroups
+        : [
+            ...headGroups,
+            ...Array(8 - headGroups.length - tailGroups.length).fill("0"),
+            ...tailGroups,
+          ];
+    return `${groups
+      .slice(0, 4)
+      .map((group) => group.replace(/^0+(?=.)/, "").toLowerCase())
+      .join(":")}::/64`;
+  }
+  return null;
+};
+
+/**
+ * Send the new-device alert with its "this was me" and "this wasn't me"
+ * links. Replaces the links of an earlier alert for the device.
+ * @param {string} email
+ * @param {KnownDevice} device
+ * @returns {Promise<void>}
+ */
+const sendDeviceAlert = async (
+  email: string,
+  device: KnownDevice
+): Promise<void> => {
+  const confirmToken = await tokenService.generateSessionToken();
+  const denyToken = await tokenService.generateSessionToken();
+  const data = {
+    confirmToken: await hashValue(confirmToken),
+    denyToken: await hashValue(denyToken),
+    expiresAt: moment()
+      .add(config.deviceAlert.expirationHours, "hours")
+      .toDate(),
+  };
+  await prisma.deviceAlert.upsert({
+    where: { deviceId: device.id },
+    create: { deviceId: device.id, ...data },
+    update: { ...data, createdAt: new Date() },
+  });
+  await emailService.sendNewDeviceEmail(
+    email,
+    {
+      browser: device.browser,
+      os: device.os,
+      ipSubnet: device.ipSubnet,
+      loggedInAt: device.lastSeenAt,
+    },
+    confirmToken,
+    denyToken
+  );
+};
+
+/**
+ * Compare the device of a successful login against the known devices of
+ * the user. A device seen for the first time is remembered and, unless it
+ * is the first device of the user, reported by email.
+ * @param {Object} user - id and email
+ * @param {SessionMetadata} [metadata] - the device the login is made from
+ * @returns {Promise<{ device: KnownDevice; isNew: boolean }>}
+ */
+const recordLogin = async (
+  user: { id: string; email: string },
+  metadata: SessionMetadata = {}
+): Promise<{ device: KnownDevice; isNew: boolean }> => {
+  const { browser, os } = parseUserAgent(metadata.userAgent);
+  const ipSubnet = getIpSubnet(metadata.ipAddress);
+  const fingerprint = await hashValue(
+    [browser ?? "", os ?? "", ipSubnet ?? ""].join("|")
+  );
+  // skipping duplicates keeps concurrent logins from the same device to one row
+  const { count: created } = await prisma.knownDevice.createMany({
+    data: { userId: user.id, fingerprint, browser, os, ipSubnet },
+    skipDuplicates: true,
+  });
+  const where = { userId_fingerprint: { userId: user.id, fingerprint } };
+  if (!created) {
+    const device = await prisma.knownDevice.update({
+      where,
+      data: { lastSeenAt: new Date() },
+    });
+    return { device, isNew: false };
+  }
+  const device = (await prisma.knownDevice.findUnique({
+    where,
+  })) as KnownDevice;
+  // the first device of a user has nothing to be compared against
+  if ((await prisma.knownDevice.count({ where: { userId: user.id } })) > 1) {
+    // a failing mail server must not fail the login
+    await sendDeviceAlert(user.email, device).catch((error) =>
+      logger.warn(`Unable to send the new device alert: ${error}`)
+    );
+  }
+  return { device, isNew: true };
+};
+
+/**
+ * List the known devices of a user, most recently seen first
+ * @param {string} userId
+ * @returns {Promise<Object[]>}
+ */
+const queryDevices = async (userId: string) => {
+  return prisma.knownDevice.findMany({
+    where: { userId },
+    select: deviceSelect,
+    orderBy: { lastSeenAt: "desc" },
+  });
+};
+
+/**
+ * Forget a known device of a user. Its next login is reported again.
+ * @param {string} userId
+ * @param {number} deviceId
+ * @returns {Promise<void>}
+ */
+const deleteDevice = async (
+  userId: string,
+  deviceId: number
+): Promise<void> => {
+  const { count } = await prisma.knownDevice.deleteMany({
+    where: { id: deviceId, userId },
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Device not found");
+  }
+};
+
+/**
+ * Keep the device of an alert from the "this was me" link
+ * @param {string} confirmToken
+ * @returns {Promise<void>}
+ */
+const confirmDevice = async (confirmToken: string): Promise<void> => {
+  const { count } = await prisma.deviceAlert.deleteMany({
+    where: {
+      confirmToken: await hashValue(confirmToken),
+      expiresAt: { gt: new Date() },
+    },
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Device confirmation failed");
+  }
+};
+
+/**
+ * Lock out whoever logged in from the device of an alert, from the "this
+ * wasn't me" link: the device is forgotten, every session and token of the
+ * user is revoked and the password has to be reset before it works again.
+ * @param {string} denyToken
+ * @returns {Promise<void>}
+ */
+const denyDevice = async (denyToken: string): Promise<void> => {
+  const alert = await prisma.deviceAlert.findUnique({
+    where: { denyToken: await hashValue(denyToken) },
+    include: { device: { include: { user: true } } },
+  });
+  if (!alert || alert.expiresAt.getTime() <= Date.now()) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Device denial failed");
+  }
+  const { user } = alert.device;
+  await prisma.$transaction([
+    prisma.knownDevice.delete({ where: { id: alert.deviceId } }),
+    // whoever used the device knows the password, so it stops working
+    prisma.user.update({ where: { id: user.id }, data: { password: null } }),
+  ]);
+  await sessionService.revokeLogins(user.id);
+  const resetPasswordToken = await tokenService.generateResetPasswordToken(
+    user.email
+  );
+  await emailService.sendResetPasswordEmail(user.email, resetPasswordToken);
+};
+
+export default {
+  recordLogin,
+  queryDevices,
+  deleteDevice,
+  confirmDevice,
+  denyDevice,
+};
@@ -58,9 +58,157 @@ To verify your email, click on this link: ${verificationEmailUrl}`;
   await sendEmail(to, subject, text);
 };
 
+/**
+ * Send magic link email
+ * @param {string} to
+ * @param {string} token
+ * @returns {Promise}
+ */
+const sendMagicLinkEmail = async (to: string, token: string) => {
+  const subject = "Your sign-in link";
+  // replace this url with the link to the magic link page of your front-end app
+  const email = encodeURIComponent(to);
+  const magicLinkUrl = `http://link-to-app/magic-link?token=${token}&email=${email}`;
+  const text = `Dear user,
+To sign in, click on this link: ${magicLinkUrl}
+The link can be used once and expires in a few minutes. If you did not request it, then ignore this email.`;
+  await sendEmail(to, subject, text);
+};
+
+/**
+ * Send email change confirmation email to the new address
+ * @param {string} to
+ * @param {string} token
+ * @returns {Promise}
+ */
+const sendEmailChangeConfirmationEmail = async (to: string, token: string) => {
+  const subject = "Confirm your new email address";
+  // replace this url with the link to the confirm email change page of your front-end app
+  const confirmUrl = `http://link-to-app/confirm-email-change?token=${token}`;
+  const text = `Dear user,
+To start using this address for your account, click on this link: ${confirmUrl}
+If you did not ask to change your email, then ignore this email.`;
+  await sendEmail(to, subject, text);
+};
+
+/**
+ * Send email change notice to the old address
+ * @param {string} to
+ * @param {string} newEmail
+ * @param {string} token
+ * @returns {Promise}
+ */
+const sendEmailChangeNoticeEmail = async (
+  to: string,
+  newEmail: string,
+  token: string
+) => {
+  const subject = "Your email address is being changed";
+  // replace this url with the link to the cancel email change page of your front-end app
+  const cancelUrl = `http://link-to-app/cancel-email-change?token=${token}`;
+  const text = `Dear user,
+Someone asked to change the email address of your account to ${newEmail}.
+If this was not you, cancel the change by clicking on this link and reset your password: ${cancelUrl}`;
+  await sendEmail(to, subject, text);
+};
+
+/**
+ * Send account locked email
+ * @param {string} to
+ * @param {Date} lockedUntil
+ * @returns {Promise}
+ */
+const sendAccountLockedEmail = async (to: string, lockedUntil: Date) => {
+  const subject = "Your account has been locked";
+  // replace this url with the link to the forgot password page of your front-end app
+  const forgotPasswordUrl = "http://link-to-app/forgot-password";
+  const text = `Dear user,
+We locked your account until ${lockedUntil.toUTCString()} after too many failed sign-in attempts.
+If this was not you, someone may be trying to guess your password. You can reset it here: ${forgotPasswordUrl}`;
+  await sendEmail(to, subject, text);
+};
+
+/**
+ * Send password changed email
+ * @param {string} to
+ * @returns {Promise}
+ */
+const sendPasswordChangedEmail = async (to: string) => {
+  const subject = "Your password was changed";
+  // replace this url with the link to the forgot password page of your front-end app
+  const forgotPasswordUrl = "http://link-to-app/forgot-password";
+  const text = `Dear user,
+The password of your account was just changed and your other sessions were signed out.
+If this was not you, secure your account by resetting your password here: ${forgotPasswordUrl}`;
+  await sendEmail(to, subject, text);
+};
+
+/**
+ * Send invitation email
+ * @param {string} to
+ * @param {string} token
+ * @param {Date} expiresAt
+ * @returns {Promise}
+ */
+const sendInvitationEmail = async (
+  to: string,
+  token: string,
+  expiresAt: Date
+) => {
+  const subject = "You are invited";
+  // replace this url with the link to the accept invitation page of your front-end app
+  const acceptUrl = `http://link-to-app/accept-invitation?token=${token}`;
+  const text = `Dear user,
+You have been invited to create an account. To choose your name and password, click on this link: ${acceptUrl}
+The invitation expires on ${expiresAt.toUTCString()}.
+If you were not expecting this invitation, then ignore this email.`;
+  await sendEmail(to, subject, text);
+};
+
+/**
+ * Send new device alert
+ * @param {string} to
+ * @param {Object} device - browser, os, ipSubnet and loggedInAt
+ * @param {string} confirmToken
+ * @param {string} denyToken
+ * @returns {Promise}
+ */
+const sendNewDeviceEmail = async (
+  to: string,
+  device: {
+    browser: string | null;
+    os: string | null;
+    ipSubnet: string | null;
+    loggedInAt: Date;
+  },
+  confirmToken: string,
+  denyToken: string
+) => {
+  const subject = "New sign-in to your account";
+  // replace these urls with the links to the device confirmation pages of your front-end app
+  const confirmUrl = `http://link-to-app/confirm-device?token=${confirmToken}`;
+  const denyUrl = `http://link-to-app/deny-device?token=${denyToken}`;
+  const text = `Dear user,
+Your account was signed in to from a device we have not seen before.
+Browser: ${device.browser ?? "unknown"}
+Operating system: ${device.os ?? "unknown"}
+Network: ${device.ipSubnet ?? "unknown"}
+Time: ${device.loggedInAt.toUTCString()}
+If this was you, click on this link: ${confirmUrl}
+If this was not you, click on this link to sign out everywhere and reset your password: ${denyUrl}`;
+  await sendEmail(to, subject, text);
+};
+
 export default {
   transport,
   sendEmail,
   sendResetPasswordEmail,
   sendVerificationEmail,
+  sendMagicLinkEmail,
+  sendAccountLockedEmail,
+  sendEmailChangeConfirmationEmail,
+  sendEmailChangeNoticeEmail,
+  sendPasswordChangedEmail,
+  sendNewDeviceEmail,
+  sendInvitationEmail,
 };
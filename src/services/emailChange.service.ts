@@ -0,0 +1,150 @@
+import httpStatus from "http-status";
+import moment from "moment";
+import { EmailChange, TokenType } from "@prisma/client";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import userService from "./user.service.js";
+import tokenService from "./token.service.js";
+import emailService from "./email.service.js";
+import ApiError from "../utils/ApiError.js";
+
+/**
+ * Hash a confirmation or cancel token
+ * @param {string} token
+ * @returns {Promise<string>}
+ */
+const hashToken = async (token: string): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  return encoding.encodeHexLowerCase(sha256(new TextEncoder().encode(token)));
+};
+
+/**
+ * Start an email change: the new address gets a confirmation link and the
+ * old address a notice with a cancel link. Replaces any pending change.
+ * @param {string} userId
+ * @param {string} newEmail
+ * @returns {Promise<EmailChange>}
+ */
+const requestEmailChange = async (
+  userId: string,
+  newEmail: string
+): Promise<EmailChange> => {
+  const user = await userService.getUserById(userId, ["id", "email"]);
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  if (newEmail.toLowerCase() === user.email.toLowerCase()) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "New email must differ from the current one"
+    );
+  }
+  if (await userService.getUserByEmail(newEmail, ["id"])) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Email already taken");
+  }
+  const confirmToken = await tokenService.generateSessionToken();
+  const cancelToken = await tokenService.generateSessionToken();
+  const data = {
+    newEmail,
+    confirmToken: await hashToken(confirmToken),
+    cancelToken: await hashToken(cancelToken),
+    expiresAt: moment()
+      .add(config.emailChange.expirationHours, "hours")
+      .toDate(),
+  };
+  const emailChange = await prisma.emailChange.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: { ...data, createdAt: new Date() },
+  });
+  await emailService.sendEmailChangeConfirmationEmail(newEmail, confirmToken);
+  await emailService.sendEmailChangeNoticeEmail(
+    user.email,
+    newEmail,
+    cancelToken
+  );
+  return emailChange;
+};
+
+/**
+ * Get the pending email change of a user
+ * @param {string} userId
+ * @returns {Promise<EmailChange | null>}
+ */
+const getEmailChange = async (userId: string): Promise<EmailChange | null> => {
+  const emailChange = await prisma.emailChange.findUnique({
+    where: { userId },
+  });
+  if (!emailChange || emailChange.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return emailChange;
+};
+
+/**
+ * Swap in the new email once the new address confirmed it
+ * @param {string} confirmToken
+ * @returns {Promise<void>}
+ */
+const confirmEmailChange = async (confirmToken: string): Promise<void> => {
+  const emailChange = await prisma.emailChange.findUnique({
+    where: { confirmToken: await hashToken(confirmToken) },
+  });
+  if (!emailChange || emailChange.expiresAt.getTime() <= Date.now()) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Email change confirmation failed"
+    );
+  }
+  if (await userService.getUserByEmail(emailChange.newEmail, ["id"])) {
+    await prisma.emailChange.delete({ where: { userId: emailChange.userId } });
+    throw new ApiError(httpStatus.BAD_REQUEST, "Email already taken");
+  }
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: emailChange.userId },
+      // following the link proves control of the new address
+      data: { email: emailChange.newEmail, isEmailVerified: true },
+    }),
+    prisma.emailChange.delete({ where: { userId: emailChange.userId } }),
+    // links sent to the old address must not act on the new one
+    prisma.token.deleteMany({
+      where: {
+        userId: emailChange.userId,
+        type: {
+          in: [
+            TokenType.VERIFY_EMAIL,
+            TokenType.RESET_PASSWORD,
+            TokenType.MAGIC_LINK,
+          ],
+        },
+      },
+    }),
+  ]);
+};
+
+/**
+ * Cancel a pending email change from the link sent to the old address
+ * @param {string} cancelToken
+ * @returns {Promise<void>}
+ */
+const cancelEmailChange = async (cancelToken: string): Promise<void> => {
+  const { count } = await prisma.emailChange.deleteMany({
+    where: { cancelToken: await hashToken(cancelToken) },
+  });
+  if (!count) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Email change cancellation failed"
+    );
+  }
+};
+
+export default {
+  requestEmailChange,
+  getEmailChange,
+  confirmEmailChange,
+  cancelEmailChange,
+};
@@ -0,0 +1,165 @@
+import httpStatus from "http-status";
+import {
+  ImpersonationAction,
+  ImpersonationEvent,
+  Prisma,
+  Role,
+  Session,
+  User,
+} from "@prisma/client";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import logger from "../config/logger.js";
+import userService from "./user.service.js";
+import roleService from "./role.service.js";
+import tokenService, { SessionMetadata } from "./token.service.js";
+import ApiError from "../utils/ApiError.js";
+
+export interface ImpersonationRequest {
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress?: string;
+}
+
+/**
+ * Record an impersonation event in the audit trail and the logs
+ * @param {Session} session - the impersonation session
+ * @param {ImpersonationAction} action
+ * @param {ImpersonationRequest} [request]
+ * @returns {Promise<ImpersonationEvent>}
+ */
+const recordEvent = async (
+  session: Session,
+  action: ImpersonationAction,
+  request: Partial<ImpersonationRequest> = {}
+): Promise<ImpersonationEvent> => {
+  const data = {
+    action,
+    impersonatorId: session.impersonatorId as string,
+    userId: session.userId,
+    sessionId: session.id,
+    ...request,
+  };
+  logger.info(`impersonation ${JSON.stringify(data)}`);
+  return prisma.impersonationEvent.create({ data });
+};
+
+/**
+ * Start impersonating a user through a short-lived session
+ * @param {User} admin
+ * @param {string} userId - the user to impersonate
+ * @param {SessionMetadata} [metadata]
+ * @returns {Promise<{ user: User; token: string; expiresAt: Date }>}
+ */
+const startImpersonation = async (
+  admin: User,
+  userId: string,
+  metadata: SessionMetadata = {}
+): Promise<{
+  user: Omit<User, "password">;
+  token: string;
+  expiresAt: Date;
+}> => {
+  if (userId === admin.id) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "You cannot impersonate yourself"
+    );
+  }
+  const user = await userService.getUserById(userId, [
+    "id",
+    "email",
+    "name",
+    "role",
+    "isEmailVerified",
+    "createdAt",
+    "updatedAt",
+  ]);
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  if (user.role === Role.ADMIN) {
+    throw new ApiError(httpStatus.FORBIDDEN, "Admins cannot be impersonated");
+  }
+  // acting as a user must not grant rights the impersonator lacks
+  const [adminRights, userRights] = await Promise.all([
+    roleService.getUserRights(admin),
+    roleService.getUserRights(user),
+  ]);
+  if (roleService.findLackingRights(adminRights, userRights).length) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      "Users with rights you lack cannot be impersonated"
+    );
+  }
+  const token = await tokenService.generateSessionToken();
+  const session = await tokenService.createSession(
+    token,
+    user.id,
+    new Date(Date.now() + config.impersonation.expirationMinutes * 60 * 1000),
+    metadata,
+    admin.id
+  );
+  await recordEvent(session, ImpersonationAction.START, {
+    ipAddress: metadata.ipAddress,
+  });
+  return { user, token, expiresAt: session.expiresAt };
+};
+
+/**
+ * End the impersonation session the request is made with
+ * @param {Session} [session]
+ * @param {string} [ipAddress]
+ * @returns {Promise<void>}
+ */
+const stopImpersonation = async (
+  session?: Session,
+  ipAddress?: string
+): Promise<void> => {
+  if (!session?.impersonatorId) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Not impersonating a user");
+  }
+  await prisma.session.deleteMany({ where: { id: session.id } });
+  await recordEvent(session, ImpersonationAction.STOP, { ipAddress });
+};
+
+/**
+ * Record a request made under an impersonation session
+ * @param {Session} session
+ * @param {ImpersonationRequest} request
+ * @returns {Promise<void>}
+ */
+const recordRequest = async (
+  session: Session,
+  request: ImpersonationRequest
+): Promise<void> => {
+  await recordEvent(session, ImpersonationAction.REQUEST, request);
+};
+
+/**
+ * Query the impersonation audit trail, most recent first
+ * @param {Object} filter - impersonatorId, userId and action
+ * @param {Object} options - limit and page
+ * @returns {Promise<ImpersonationEvent[]>}
+ */
+const queryEvents = async (
+  filter: Prisma.ImpersonationEventWhereInput,
+  options: { limit?: number; page?: number }
+): Promise<ImpersonationEvent[]> => {
+  const page = options.page ?? 1;
+  const limit = options.limit ?? 10;
+  return prisma.impersonationEvent.findMany({
+    where: filter,
+    skip: (page - 1) * limit,
+    take: limit,
+    orderBy: { id: "desc" },
+  });
+};
+
+export default {
+  startImpersonation,
+  stopImpersonation,
+  recordRequest,
+  queryEvents,
+};
@@ -2,3 +2,19 @@ export { default as authService } from "./auth.service.js";
 export { default as userService } from "./user.service.js";
 export { default as tokenService } from "./token.service.js";
 export { default as emailService } from "./email.service.js";
+export { default as twoFactorService } from "./twoFactor.service.js";
+export { default as webauthnService } from "./webauthn.service.js";
+export { default as oauthService } from "./oauth.service.js";
+export { default as sessionService } from "./session.service.js";
+export { default as lockoutService } from "./lockout.service.js";
+export { default as passwordPolicyService } from "./passwordPolicy.service.js";
+export { default as emailChangeService } from "./emailChange.service.js";
+export { default as impersonationService } from "./impersonation.service.js";
+export { default as apiKeyService } from "./apiKey.service.js";
+export { default as oauthServerService } from "./oauthServer.service.js";
+export { default as deviceService } from "./device.service.js";
+export { default as invitationService } from "./invitation.service.js";
+export { default as cleanupService } from "./cleanup.service.js";
+export { default as roleService } from "./role.service.js";
+export { default as policyService } from "./policy.service.js";
+export { default as orgService } from "./org.service.js";
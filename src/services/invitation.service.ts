@@ -0,0 +1,184 @@
+import httpStatus from "http-status";
+import moment from "moment";
+import { Invitation, Prisma, Role, User } from "@prisma/client";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import userService from "./user.service.js";
+import tokenService from "./token.service.js";
+import emailService from "./email.service.js";
+import ApiError from "../utils/ApiError.js";
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  createdAt: true,
+  inviterId: true,
+};
+
+/**
+ * Hash an invitation token
+ * @param {string} token
+ * @returns {Promise<string>}
+ */
+const hashToken = async (token: string): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  return encoding.encodeHexLowerCase(sha256(new TextEncoder().encode(token)));
+};
+
+/**
+ * Generate the token of an invitation link and the time it expires
+ * @returns {Promise<{ token: string; hashedToken: string; expiresAt: Date }>}
+ */
+const generateInvitationToken = async (): Promise<{
+  token: string;
+  hashedToken: string;
+  expiresAt: Date;
+}> => {
+  const token = await tokenService.generateSessionToken();
+  return {
+    token,
+    hashedToken: await hashToken(token),
+    expiresAt: moment().add(config.invitation.expirationDays, "days").toDate(),
+  };
+};
+
+/**
+ * Invite an email to create an account with a role. An expired invitation
+ * for the same email is replaced.
+ * @param {string} inviterId
+ * @param {Object} invitationBody - email and role
+ * @returns {Promise<Omit<Invitation, "token">>}
+ */
+const createInvitation = async (
+  inviterId: string,
+  invitationBody: { email: string; role?: Role }
+): Promise<Omit<Invitation, "token">> => {
+  const { email, role = Role.USER } = invitationBody;
+  if (await userService.getUserByEmail(email, ["id"])) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Email already taken");
+  }
+  const existing = await prisma.invitation.findUnique({ where: { email } });
+  if (existing && existing.expiresAt.getTime() > Date.now()) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Email already invited");
+  }
+  const { token, hashedToken, expiresAt } = await generateInvitationToken();
+  const data = {
+    role,
+    inviterId,
+    token: hashedToken,
+    expiresAt,
+    createdAt: new Date(),
+  };
+  const invitation = await prisma.invitation.upsert({
+    where: { email },
+    create: { email, ...data },
+    update: data,
+    select: invitationSelect,
+  });
+  await emailService.sendInvitationEmail(email, token, expiresAt);
+  return invitation;
+};
+
+/**
+ * Query invitations, most recent first
+ * @param {Object} filter - email and role
+ * @param {Object} options - limit and page
+ * @returns {Promise<Object[]>}
+ */
+const queryInvitations = async (
+  filter: Prisma.InvitationWhereInput,
+  options: { limit?: number; page?: number }
+) => {
+  const page = options.page ?? 1;
+  const limit = options.limit ?? 10;
+  return prisma.invitation.findMany({
+    where: filter,
+    select: invitationSelect,
+    skip: (page - 1) * limit,
+    take: limit,
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+/**
+ * Send an invitation again with a new link, which also renews its expiry.
+ * Links sent before stop working.
+ * @param {number} invitationId
+ * @returns {Promise<Omit<Invitation, "token">>}
+ */
+const resendInvitation = async (
+  invitationId: number
+): Promise<Omit<Invitation, "token">> => {
+  if (!(await prisma.invitation.findUnique({ where: { id: invitationId } }))) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Invitation not found");
+  }
+  const { token, hashedToken, expiresAt } = await generateInvitationToken();
+  const invitation = await prisma.invitation.update({
+    where: { id: invitationId },
+    data: { token: hashedToken, expiresAt },
+    select: invitationSelect,
+  });
+  await emailService.sendInvitationEmail(invitation.email, token, expiresAt);
+  return invitation;
+};
+
+/**
+ * Revoke an invitation
+ * @param {number} invitationId
+ * @returns {Promise<void>}
+ */
+const revokeInvitation = async (invitationId: number): Promise<void> => {
+  const { count } = await prisma.invitation.deleteMany({
+    where: { id: invitationId },
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Invitation not found");
+  }
+};
+
+/**
+ * Create the account of an invitation. Following the link proves control
+ * of the email, so the account starts verified.
+ * @param {string} token
+ * @param {Object} userBody - name and password
+ * @returns {Promise<User>}
+ */
+const acceptInvitation = async (
+  token: string,
+  userBody: { name: string; password: string }
+): Promise<User> => {
+  const invitation = await prisma.invitation.findUnique({
+    where: { token: await hashToken(token) },
+  });
+  if (!invitation || invitation.expiresAt.getTime() <= Date.now()) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Invalid or expired invitation"
+    );
+  }
+  if (await userService.getUserByEmail(invitation.email, ["id"])) {
+    await prisma.invitation.delete({ where: { id: invitation.id } });
+    throw new ApiError(httpStatus.BAD_REQUEST, "Email already taken");
+  }
+  const user = await userService.createUser(
+    userBody.name,
+    invitation.email,
+    userBody.password,
+    invitation.role,
+    true
+  );
+  await prisma.invitation.deleteMany({ where: { id: invitation.id } });
+  return user;
+};
+
+export default {
+  createInvitation,
+  queryInvitations,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation,
+};
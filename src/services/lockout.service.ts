@@ -0,0 +1,135 @@
+import httpStatus from "http-status";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import logger from "../config/logger.js";
+import userService from "./user.service.js";
+import emailService from "./email.service.js";
+import ApiError from "../utils/ApiError.js";
+
+// how long a reserved attempt blocks the others while its password is
+// compared, replaced by the real delay once the password turns out wrong
+const ATTEMPT_HOLD_SECONDS = 30;
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Reserve the next password login of an email before the password is
+ * compared, counting it as failed until clearFailedLogins says otherwise.
+ * The reservation holds off the next attempt in the same query that checks
+ * it, so parallel attempts cannot all slip past the delay.
+ * @param {string} email
+ * @returns {Promise<void>}
+ */
+const reserveLoginAttempt = async (email: string): Promise<void> => {
+  const key = normalizeEmail(email);
+  const now = new Date();
+  await prisma.loginLockout.createMany({
+    data: [{ email: key }],
+    skipDuplicates: true,
+  });
+  const { count } = await prisma.loginLockout.updateMany({
+    where: {
+      email: key,
+      AND: [
+        { OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }] },
+        { OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] },
+      ],
+    },
+    data: {
+      failedAttempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + ATTEMPT_HOLD_SECONDS * 1000),
+    },
+  });
+  if (count) {
+    return;
+  }
+  const lockout = await prisma.loginLockout.findUnique({
+    where: { email: key },
+  });
+  const retryAt = Math.max(
+    lockout?.lockedUntil?.getTime() ?? 0,
+    lockout?.nextAttemptAt?.getTime() ?? 0,
+    Date.now()
+  );
+  const seconds = Math.ceil((retryAt - Date.now()) / 1000);
+  throw new ApiError(
+    httpStatus.TOO_MANY_REQUESTS,
+    `Too many failed login attempts, try again in ${seconds} seconds`
+  );
+};
+
+/**
+ * Delay the next attempt after a reserved login failed, locking the account
+ * once the threshold is reached. Past the threshold every failure locks it
+ * again until a login succeeds. Unknown emails are counted the same way so
+ * responses do not reveal which emails have an account.
+ * @param {string} email
+ * @returns {Promise<void>}
+ */
+const recordFailedLogin = async (email: string): Promise<void> => {
+  const key = normalizeEmail(email);
+  const lockout = await prisma.loginLockout.findUnique({
+    where: { email: key },
+  });
+  if (!lockout) {
+    return;
+  }
+  const { failedAttempts } = lockout;
+  const lockoutMs = config.lockout.durationMinutes * 60 * 1000;
+
+  if (failedAttempts >= config.lockout.threshold) {
+    const lockedUntil = new Date(Date.now() + lockoutMs);
+    await prisma.loginLockout.update({
+      where: { email: key },
+      data: { nextAttemptAt: null, lockedUntil },
+    });
+    const user = await userService.getUserByEmail(email, ["email"]);
+    if (user) {
+      // not awaited so that the response time does not depend on the email
+      emailService
+        .sendAccountLockedEmail(user.email, lockedUntil)
+        .catch((error) => logger.warn(error));
+    }
+    return;
+  }
+
+  const delayMs = Math.min(
+    config.lockout.delayBaseSeconds * 1000 * 2 ** (failedAttempts - 1),
+    lockoutMs
+  );
+  await prisma.loginLockout.update({
+    where: { email: key },
+    data: { nextAttemptAt: new Date(Date.now() + delayMs) },
+  });
+};
+
+/**
+ * Forget the failed logins of an email
+ * @param {string} email
+ * @returns {Promise<void>}
+ */
+const clearFailedLogins = async (email: string): Promise<void> => {
+  await prisma.loginLockout.deleteMany({
+    where: { email: normalizeEmail(email) },
+  });
+};
+
+/**
+ * Unlock a user locked out by failed logins
+ * @param {string} userId
+ * @returns {Promise<void>}
+ */
+const unlockUser = async (userId: string): Promise<void> => {
+  const user = await userService.getUserById(userId, ["email"]);
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  await clearFailedLogins(user.email);
+};
+
+export default {
+  reserveLoginAttempt,
+  recordFailedLogin,
+  clearFailedLogins,
+  unlockUser,
+};
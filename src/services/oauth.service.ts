@@ -0,0 +1,438 @@
+import httpStatus from "http-status";
+import { Identity, Role, User } from "@prisma/client";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import ApiError from "../utils/ApiError.js";
+import userService from "./user.service.js";
+
+const STATE_EXPIRATION_MS = 1000 * 60 * 10;
+
+export interface OAuthProfile {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+interface OAuthProvider {
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  scopes: string[];
+  clientId: string;
+  clientSecret: string;
+  getProfile: (accessToken: string) => Promise<OAuthProfile>;
+}
+
+let oidcDiscoveryCache: {
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint: string;
+} | null = null;
+
+/**
+ * Fetch JSON from a provider, failing with a bad gateway error
+ * @param {string} url
+ * @param {RequestInit} [init]
+ * @returns {Promise<any>}
+ */
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: "application/json", ...init?.headers },
+  });
+  if (!response.ok) {
+    throw new ApiError(
+      httpStatus.BAD_GATEWAY,
+      `Identity provider responded with ${response.status}`
+    );
+  }
+  return response.json();
+};
+
+/**
+ * Read the standard OpenID Connect claims from a userinfo endpoint
+ * @param {string} userinfoEndpoint
+ * @param {string} accessToken
+ * @returns {Promise<OAuthProfile>}
+ */
+const getOpenIdProfile = async (
+  userinfoEndpoint: string,
+  accessToken: string
+): Promise<OAuthProfile> => {
+  const claims = await fetchJson(userinfoEndpoint, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  return {
+    subject: String(claims.sub),
+    email: claims.email ?? null,
+    emailVerified: claims.email_verified === true,
+    name: claims.name ?? null,
+  };
+};
+
+/**
+ * Read the GitHub user and its primary email
+ * @param {string} accessToken
+ * @returns {Promise<OAuthProfile>}
+ */
+const getGitHubProfile = async (accessToken: string): Promise<OAuthProfile> => {
+  const headers = { Authorization: `Bearer ${accessToken}` };
+  const githubUser = await fetchJson("https://api.github.com/user", {
+    headers,
+  });
+  const emails: { email: string; primary: boolean; verified: boolean }[] =
+    await fetchJson("https://api.github.com/user/emails", { headers });
+  const primaryEmail = emails.find((email) => email.primary);
+  return {
+    subject: String(githubUser.id),
+    email: primaryEmail?.email ?? null,
+    emailVerified: !!primaryEmail?.verified,
+    name: githubUser.name ?? githubUser.login ?? null,
+  };
+};
+
+/**
+ * Resolve the endpoints of the generic OpenID Connect provider
+ * @returns {Promise<Object>}
+ */
+const discoverOidcProvider = async () => {
+  const issuer = (config.oauth.oidc.issuer as string).replace(/\/$/, "");
+  if (oidcDiscoveryCache?.issuer !== issuer) {
+    const metadata = await fetchJson(
+      `${issuer}/.well-known/openid-configuration`
+    );
+    oidcDiscoveryCache = {
+      issuer,
+      authorizationEndpoint: metadata.authorization_endpoint,
+      tokenEndpoint: metadata.token_endpoint,
+      userinfoEndpoint: metadata.userinfo_endpoint,
+    };
+  }
+  return oidcDiscoveryCache;
+};
+
+/**
+ * Get a configured provider
+ * @param {string} name
+ * @returns {Promise<OAuthProvider>}
+ */
+const getProvider = async (name: string): Promise<OAuthProvider> => {
+  if (name === "github" && config.oauth.github.clientId) {
+    return {
+      authorizationEndpoint: "https://github.com/login/oauth/authorize",
+      tokenEndpoint: "https://github.com/login/oauth/access_token",
+      scopes: ["read:user", "user:email"],
+      clientId: config.oauth.github.clientId,
+      clientSecret: config.oauth.github.clientSecret,
+      getProfile: getGitHubProfile,
+    };
+  }
+  if (name === "google" && config.oauth.google.clientId) {
+    return {
+      authorizationEndpoint: "https://accounts.google.com/o/oauth2/v2/auth",
+      tokenEndpoint: "https://oauth2.googleapis.com/token",
+      scopes: ["openid", "email", "profile"],
+      clientId: config.oauth.google.clientId,
+      clientSecret: config.oauth.google.clientSecret,
+      getProfile: (accessToken) =>
+        getOpenIdProfile(
+          "https://openidconnect.googleapis.com/v1/userinfo",
+          accessToken
+        ),
+    };
+  }
+  if (name === "oidc" && config.oauth.oidc.clientId) {
+    const endpoints = await discoverOidcProvider();
+    return {
+      authorizationEndpoint: endpoints.authorizationEndpoint,
+      tokenEndpoint: endpoints.tokenEndpoint,
+      scopes: ["openid", "email", "profile"],
+      clientId: config.oauth.oidc.clientId,
+      clientSecret: config.oauth.oidc.clientSecret,
+      getProfile: (accessToken) =>
+        getOpenIdProfile(endpoints.userinfoEndpoint, accessToken),
+    };
+  }
+  throw new ApiError(httpStatus.NOT_FOUND, "Provider not found");
+};
+
+/**
+ * Hash a state value before it is stored
+ * @param {string} state
+ * @returns {Promise<string>}
+ */
+const hashState = async (state: string): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  return encoding.encodeHexLowerCase(sha256(new TextEncoder().encode(state)));
+};
+
+/**
+ * Build the redirect uri registered with a provider
+ * @param {string} provider
+ * @returns {string}
+ */
+const getRedirectUri = (provider: string): string =>
+  `${config.oauth.redirectBaseUrl}/${provider}/callback`;
+
+/**
+ * Create the authorization url of a provider, with state and PKCE
+ * @param {string} providerName
+ * @param {string} [userId] - set when an authenticated user links a provider
+ * @returns {Promise<{ url: string; state: string; expiresAt: Date }>} the
+ * state is to be bound to the browser until it expires
+ */
+const createAuthorizationUrl = async (
+  providerName: string,
+  userId?: string
+): Promise<{ url: string; state: string; expiresAt: Date }> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+  const provider = await getProvider(providerName);
+
+  const randomString = () => {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return encoding.encodeBase64urlNoPadding(bytes);
+  };
+  const state = randomString();
+  const codeVerifier = randomString();
+  const expiresAt = new Date(Date.now() + STATE_EXPIRATION_MS);
+  await prisma.oAuthState.create({
+    data: {
+      id: await hashState(state),
+      provider: providerName,
+      codeVerifier,
+      userId,
+      expiresAt,
+    },
+  });
+
+  const url = new URL(provider.authorizationEndpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", getRedirectUri(providerName));
+  url.searchParams.set("scope", provider.scopes.join(" "));
+  url.searchParams.set("state", state);
+  url.searchParams.set(
+    "code_challenge",
+    encoding.encodeBase64urlNoPadding(
+      sha256(new TextEncoder().encode(codeVerifier))
+    )
+  );
+  url.searchParams.set("code_challenge_method", "S256");
+  return { url: url.toString(), state, expiresAt };
+};
+
+/**
+ * Find or create the user behind an external identity
+ * @param {string} provider
+ * @param {OAuthProfile} profile
+ * @returns {Promise<User>}
+ */
+const resolveUser = async (
+  provider: string,
+  profile: OAuthProfile
+): Promise<Pick<User, "id">> => {
+  const identity = await prisma.identity.findUnique({
+    where: { provider_subject: { provider, subject: profile.subject } },
+  });
+  if (identity) {
+    return { id: identity.userId };
+  }
+  if (!profile.email) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "The provider did not share an email address"
+    );
+  }
+  const email = profile.email.toLowerCase();
+  const existingUser = await userService.getUserByEmail(email, [
+    "id",
+    "isEmailVerified",
+  ]);
+  let userId: string;
+  if (existingUser) {
+    // only link by email when both sides proved ownership of the address
+    if (!profile.emailVerified || !existingUser.isEmailVerified) {
+      throw new ApiError(
+        httpStatus.CONFLICT,
+        "An account with this email already exists, log in to link this provider"
+      );
+    }
+    userId = existingUser.id;
+  } else {
+    const user = await userService.createUser(
+      profile.name ?? email.split("@")[0],
+      email,
+      undefined,
+      Role.USER,
+      profile.emailVerified
+    );
+    userId = user.id;
+  }
+  await prisma.identity.create({
+    data: { provider, subject: profile.subject, email, userId },
+  });
+  return { id: userId };
+};
+
+/**
+ * Link an external identity to an existing user
+ * @param {string} userId
+ * @param {string} provider
+ * @param {OAuthProfile} profile
+ * @returns {Promise<Identity>}
+ */
+const linkIdentity = async (
+  userId: string,
+  provider: string,
+  profile: OAuthProfile
+): Promise<Identity> => {
+  const identity = await prisma.identity.findUnique({
+    where: { provider_subject: { provider, subject: profile.subject } },
+  });
+  if (identity && identity.userId !== userId) {
+    throw new ApiError(
+      httpStatus.CONFLICT,
+      "This account is already linked to another user"
+    );
+  }
+  if (identity) {
+    return identity;
+  }
+  return prisma.identity.create({
+    data: {
+      provider,
+      subject: profile.subject,
+      email: profile.email?.toLowerCase(),
+      userId,
+    },
+  });
+};
+
+/**
+ * Handle the provider callback: check state, redeem the code with the PKCE
+ * verifier and sign in or link the external identity
+ * @param {string} providerName
+ * @param {string} code
+ * @param {string} state
+ * @param {string} [boundState] - the state bound to the browser, which must
+ * be the same so a callback url made for someone else is rejected
+ * @returns {Promise<{ user: Omit<User, 'password'>; linked: boolean }>}
+ */
+const handleCallback = async (
+  providerName: string,
+  code: string,
+  state: string,
+  boundState: string | undefined
+): Promise<{ user: Omit<User, "password">; linked: boolean }> => {
+  if (boundState !== state) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid OAuth state");
+  }
+  const provider = await getProvider(providerName);
+  const stateId = await hashState(state);
+  const storedState = await prisma.oAuthState.findUnique({
+    where: { id: stateId },
+  });
+  const { count } = await prisma.oAuthState.deleteMany({
+    where: { id: stateId },
+  });
+  if (
+    !storedState ||
+    !count ||
+    storedState.provider !== providerName ||
+    storedState.expiresAt.getTime() <= Date.now()
+  ) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid OAuth state");
+  }
+
+  const tokens = await fetchJson(provider.tokenEndpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: getRedirectUri(providerName),
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: storedState.codeVerifier,
+    }).toString(),
+  });
+  if (typeof tokens.access_token !== "string") {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "OAuth code exchange failed");
+  }
+  const profile = await provider.getProfile(tokens.access_token);
+
+  let userId: string;
+  if (storedState.userId) {
+    await linkIdentity(storedState.userId, providerName, profile);
+    userId = storedState.userId;
+  } else {
+    userId = (await resolveUser(providerName, profile)).id;
+  }
+  const user = await userService.getUserById(userId, [
+    "id",
+    "email",
+    "name",
+    "role",
+    "isEmailVerified",
+    "createdAt",
+    "updatedAt",
+  ]);
+  if (!user) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid OAuth state");
+  }
+  return { user, linked: !!storedState.userId };
+};
+
+/**
+ * List the external identities of a user
+ * @param {string} userId
+ * @returns {Promise<Identity[]>}
+ */
+const queryIdentities = async (userId: string): Promise<Identity[]> => {
+  return prisma.identity.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+  });
+};
+
+/**
+ * Unlink an external identity, keeping at least one way to sign in
+ * @param {string} userId
+ * @param {number} identityId
+ * @returns {Promise<void>}
+ */
+const unlinkIdentity = async (
+  userId: string,
+  identityId: number
+): Promise<void> => {
+  const identity = await prisma.identity.findFirst({
+    where: { id: identityId, userId },
+  });
+  if (!identity) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Identity not found");
+  }
+  const user = await userService.getUserById(userId, ["password"]);
+  const identityCount = await prisma.identity.count({ where: { userId } });
+  const passkeyCount = await prisma.webAuthnCredential.count({
+    where: { userId },
+  });
+  if (!user?.password && identityCount <= 1 && !passkeyCount) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Cannot unlink the only way to sign in"
+    );
+  }
+  await prisma.identity.delete({ where: { id: identity.id } });
+};
+
+export default {
+  createAuthorizationUrl,
+  handleCallback,
+  queryIdentities,
+  unlinkIdentity,
+};
@@ -0,0 +1,284 @@
+import httpStatus from "http-status";
+import { timingSafeEqual } from "crypto";
+import { OAuthClient } from "@prisma/client";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import tokenService from "./token.service.js";
+import userService from "./user.service.js";
+import roleService from "./role.service.js";
+import ApiError from "../utils/ApiError.js";
+import { generateUserID } from "../utils/id.js";
+
+// lets the auth middleware tell client tokens from user tokens
+const CLIENT_TOKEN_PREFIX = "ct_";
+
+/**
+ * A client authenticated with a client_credentials access token
+ */
+export interface ServicePrincipal {
+  clientId: string;
+  name: string;
+  scopes: string[];
+}
+
+export interface ClientTokenResponse {
+  access_token: string;
+  token_type: "Bearer";
+  expires_in: number;
+  scope: string;
+}
+
+export interface IntrospectionResponse {
+  active: boolean;
+  client_id?: string;
+  scope?: string;
+  token_type?: "Bearer";
+  exp?: number;
+  iat?: number;
+}
+
+const clientSelect = {
+  id: true,
+  name: true,
+  scopes: true,
+  ownerId: true,
+  createdAt: true,
+};
+
+/**
+ * Hash a client secret or access token
+ * @param {string} value
+ * @returns {Promise<string>}
+ */
+const hashSecret = async (value: string): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  return encoding.encodeHexLowerCase(sha256(new TextEncoder().encode(value)));
+};
+
+/**
+ * OAuth errors carry the RFC 6749 error code next to the message
+ * @param {number} statusCode
+ * @param {string} error
+ * @param {string} message
+ * @returns {ApiError}
+ */
+const oauthError = (
+  statusCode: number,
+  error: string,
+  message: string
+): ApiError => {
+  const apiError = new ApiError(statusCode, message);
+  apiError.details = { error };
+  return apiError;
+};
+
+/**
+ * Register a client. The secret is only returned here.
+ * @param {Object} clientBody - name, scopes and ownerId
+ * @returns {Promise<{ client: Omit<OAuthClient, "secret">; clientSecret: string }>}
+ */
+const createClient = async (clientBody: {
+  name: string;
+  scopes: string[];
+  ownerId: string;
+}): Promise<{ client: Omit<OAuthClient, "secret">; clientSecret: string }> => {
+  if (!(await userService.getUserById(clientBody.ownerId, ["id"]))) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Owner not found");
+  }
+  await roleService.assertPermissionsExist(clientBody.scopes);
+  const clientSecret = await tokenService.generateSessionToken();
+  const client = await prisma.oAuthClient.create({
+    data: {
+      id: generateUserID(24),
+      name: clientBody.name,
+      secret: await hashSecret(clientSecret),
+      scopes: clientBody.scopes,
+      ownerId: clientBody.ownerId,
+    },
+    select: clientSelect,
+  });
+  return { client, clientSecret };
+};
+
+/**
+ * List the registered clients
+ * @returns {Promise<Object[]>}
+ */
+const queryClients = async () => {
+  return prisma.oAuthClient.findMany({
+    select: clientSelect,
+    orderBy: { createdAt: "asc" },
+  });
+};
+
+/**
+ * Delete a client along with its access tokens
+ * @param {string} clientId
+ * @returns {Promise<void>}
+ */
+const deleteClient = async (clientId: string): Promise<void> => {
+  const { count } = await prisma.oAuthClient.deleteMany({
+    where: { id: clientId },
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Client not found");
+  }
+};
+
+/**
+ * Check the credentials of a client
+ * @param {string} [clientId]
+ * @param {string} [clientSecret]
+ * @returns {Promise<OAuthClient>}
+ */
+const authenticateClient = async (
+  clientId?: string,
+  clientSecret?: string
+): Promise<OAuthClient> => {
+  const client =
+    clientId && clientSecret
+      ? await prisma.oAuthClient.findUnique({ where: { id: clientId } })
+      : null;
+  if (client) {
+    const expected = Buffer.from(client.secret);
+    const actual = Buffer.from(await hashSecret(clientSecret as string));
+    if (
+      expected.length === actual.length &&
+      timingSafeEqual(expected, actual)
+    ) {
+      return client;
+    }
+  }
+  throw oauthError(
+    httpStatus.UNAUTHORIZED,
+    "invalid_client",
+    "Client authentication failed"
+  );
+};
+
+/**
+ * Issue an access token for the client_credentials grant
+ * @param {OAuthClient} client
+ * @param {string} [scope] - space separated scopes, all client scopes by default
+ * @returns {Promise<ClientTokenResponse>}
+ */
+const issueClientToken = async (
+  client: OAuthClient,
+  scope?: string
+): Promise<ClientTokenResponse> => {
+  const clientScopes = client.scopes as string[];
+  const scopes = scope ? [...new Set(scope.split(" ").filter(Boolean))] : [];
+  if (scopes.some((requested) => !clientScopes.includes(requested))) {
+    throw oauthError(
+      httpStatus.BAD_REQUEST,
+      "invalid_scope",
+      "The requested scope exceeds the scopes of the client"
+    );
+  }
+  const grantedScopes = scopes.length ? scopes : clientScopes;
+  const accessToken = `${CLIENT_TOKEN_PREFIX}${await tokenService.generateSessionToken()}`;
+  const expiresIn = config.oauthServer.accessExpirationMinutes * 60;
+  await prisma.oAuthAccessToken.create({
+    data: {
+      token: await hashSecret(accessToken),
+      clientId: client.id,
+      scopes: grantedScopes,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    },
+  });
+  return {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: expiresIn,
+    scope: grantedScopes.join(" "),
+  };
+};
+
+/**
+ * Describe an access token as RFC 7662 does. Tokens of other clients are
+ * reported inactive.
+ * @param {OAuthClient} client - the client asking
+ * @param {string} token
+ * @returns {Promise<IntrospectionResponse>}
+ */
+const introspectToken = async (
+  client: OAuthClient,
+  token: string
+): Promise<IntrospectionResponse> => {
+  const accessToken = await prisma.oAuthAccessToken.findUnique({
+    where: { token: await hashSecret(token) },
+  });
+  if (
+    !accessToken ||
+    accessToken.clientId !== client.id ||
+    accessToken.expiresAt.getTime() <= Date.now()
+  ) {
+    return { active: false };
+  }
+  return {
+    active: true,
+    client_id: accessToken.clientId,
+    scope: (accessToken.scopes as string[]).join(" "),
+    token_type: "Bearer",
+    exp: Math.floor(accessToken.expiresAt.getTime() / 1000),
+    iat: Math.floor(accessToken.createdAt.getTime() / 1000),
+  };
+};
+
+/**
+ * Revoke an access token of a client. Unknown tokens are ignored as
+ * RFC 7009 requires.
+ * @param {OAuthClient} client
+ * @param {string} token
+ * @returns {Promise<void>}
+ */
+const revokeToken = async (
+  client: OAuthClient,
+  token: string
+): Promise<void> => {
+  await prisma.oAuthAccessToken.deleteMany({
+    where: { token: await hashSecret(token), clientId: client.id },
+  });
+};
+
+/**
+ * Resolve the service principal of a client access token
+ * @param {string} token
+ * @returns {Promise<ServicePrincipal | null>}
+ */
+const validateClientToken = async (
+  token: string
+): Promise<ServicePrincipal | null> => {
+  if (!token.startsWith(CLIENT_TOKEN_PREFIX)) {
+    return null;
+  }
+  const accessToken = await prisma.oAuthAccessToken.findUnique({
+    where: { token: await hashSecret(token) },
+    include: { client: true },
+  });
+  if (!accessToken || accessToken.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  // scopes taken away from the client since the token was issued are dropped
+  const clientScopes = accessToken.client.scopes as string[];
+  return {
+    clientId: accessToken.clientId,
+    name: accessToken.client.name,
+    scopes: (accessToken.scopes as string[]).filter((scope) =>
+      clientScopes.includes(scope)
+    ),
+  };
+};
+
+export default {
+  createClient,
+  queryClients,
+  deleteClient,
+  authenticateClient,
+  issueClientToken,
+  introspectToken,
+  revokeToken,
+  validateClientToken,
+};
@@ -0,0 +1,300 @@
+import httpStatus from "http-status";
+import { Organization, OrgRole } from "@prisma/client";
+import prisma, { forOrganization } from "../client.js";
+import ApiError from "../utils/ApiError.js";
+import { generateUserID } from "../utils/id.js";
+
+export interface OrgMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrgRole;
+  createdAt: Date;
+}
+
+const memberSelect = {
+  userId: true,
+  role: true,
+  createdAt: true,
+  user: { select: { name: true, email: true } },
+};
+
+/**
+ * Flatten a membership and its user
+ * @param {Object} membership
+ * @returns {OrgMember}
+ */
+const toOrgMember = ({
+  user,
+  ...membership
+}: {
+  userId: string;
+  role: OrgRole;
+  createdAt: Date;
+  user: { name: string; email: string };
+}): OrgMember => ({ ...membership, ...user });
+
+/**
+ * Create an organization owned by the user who creates it
+ * @param {string} userId
+ * @param {Object} orgBody - name
+ * @returns {Promise<Organization>}
+ */
+const createOrg = async (
+  userId: string,
+  orgBody: { name: string }
+): Promise<Organization> => {
+  return prisma.organization.create({
+    data: {
+      id: generateUserID(16),
+      name: orgBody.name,
+      membership: { create: { userId, role: OrgRole.OWNER } },
+    },
+  });
+};
+
+/**
+ * List the organizations of a user with their role in each
+ * @param {string} userId
+ * @param {string | null} [activeOrgId] - the organization of the session
+ * @returns {Promise<Object[]>}
+ */
+const queryUserOrgs = async (userId: string, activeOrgId?: string | null) => {
+  const memberships = await prisma.membership.findMany({
+    where: { userId },
+    select: { role: true, org: true },
+    orderBy: { createdAt: "asc" },
+  });
+  return memberships.map(({ role, org }) => ({
+    ...org,
+    role,
+    active: org.id === activeOrgId,
+  }));
+};
+
+/**
+ * Get an organization by id
+ * @param {string} orgId
+ * @returns {Promise<Organization>}
+ */
+const getOrgById = async (orgId: string): Promise<Organization> => {
+  const org = await prisma.organization.findUnique({ where: { id: orgId } });
+  if (!org) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Organization not found");
+  }
+  return org;
+};
+
+/**
+ * Rename an organization
+ * @param {string} orgId
+ * @param {Object} updateBody - name
+ * @returns {Promise<Organization>}
+ */
+const updateOrgById = async (
+  orgId: string,
+  updateBody: { name?: string }
+): Promise<Organization> => {
+  await getOrgById(orgId);
+  return prisma.organization.update({
+    where: { id: orgId },
+    data: updateBody,
+  });
+};
+
+/**
+ * Delete an organization with its memberships. Sessions working in it go
+ * back to no active organization.
+ * @param {string} orgId
+ * @returns {Promise<void>}
+ */
+const deleteOrgById = async (orgId: string): Promise<void> => {
+  const { count } = await prisma.organization.deleteMany({
+    where: { id: orgId },
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Organization not found");
+  }
+};
+
+/**
+ * List the members of an organization
+ * @param {string} orgId
+ * @returns {Promise<OrgMember[]>}
+ */
+const queryMembers = async (orgId: string): Promise<OrgMember[]> => {
+  const memberships = await forOrganization(orgId).membership.findMany({
+    select: memberSelect,
+    orderBy: { createdAt: "asc" },
+  });
+  return memberships.map(toOrgMember);
+};
+
+/**
+ * Only owners grant or take away ownership
+ * @param {OrgRole} actorRole
+ * @param {OrgRole[]} roles - the roles before and after the change
+ */
+const assertCanChangeOwnership = (actorRole: OrgRole, roles: OrgRole[]) => {
+  if (roles.includes(OrgRole.OWNER) && actorRole !== OrgRole.OWNER) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      "Only owners can grant or take away ownership"
+    );
+  }
+};
+
+/**
+ * Get the membership of a user in an organization
+ * @param {string} orgId
+ * @param {string} userId
+ * @returns {Promise<OrgMember>}
+ */
+const getMember = async (orgId: string, userId: string): Promise<OrgMember> => {
+  const membership = await forOrganization(orgId).membership.findFirst({
+    where: { userId },
+    select: memberSelect,
+  });
+  if (!membership) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Member not found");
+  }
+  return toOrgMember(membership);
+};
+
+/**
+ * Add an existing user to an organization
+ * @param {string} orgId
+ * @param {OrgRole} actorRole - the role of the member adding them
+ * @param {Object} memberBody - email and role
+ * @returns {Promise<OrgMember>}
+ */
+const addMember = async (
+  orgId: string,
+  actorRole: OrgRole,
+  memberBody: { email: string; role?: OrgRole }
+): Promise<OrgMember> => {
+  const role = memberBody.role ?? OrgRole.MEMBER;
+  assertCanChangeOwnership(actorRole, [role]);
+  const user = await prisma.user.findUnique({
+    where: { email: memberBody.email },
+    select: { id: true },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  const { count } = await forOrganization(orgId).membership.createMany({
+    data: { orgId, userId: user.id, role },
+    skipDuplicates: true,
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "User is already a member");
+  }
+  return getMember(orgId, user.id);
+};
+
+/**
+ * Throw if a change would leave the organization without an owner
+ * @param {string} orgId
+ * @param {OrgRole} role - the role the member has before the change
+ */
+const assertKeepsOwner = async (orgId: string, role: OrgRole) => {
+  if (role !== OrgRole.OWNER) {
+    return;
+  }
+  const owners = await forOrganization(orgId).membership.count({
+    where: { role: OrgRole.OWNER },
+  });
+  if (owners <= 1) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "An organization needs at least one owner"
+    );
+  }
+};
+
+/**
+ * Change the role of a member
+ * @param {string} orgId
+ * @param {OrgRole} actorRole - the role of the member making the change
+ * @param {string} userId
+ * @param {OrgRole} role
+ * @returns {Promise<OrgMember>}
+ */
+const updateMemberRole = async (
+  orgId: string,
+  actorRole: OrgRole,
+  userId: string,
+  role: OrgRole
+): Promise<OrgMember> => {
+  const member = await getMember(orgId, userId);
+  assertCanChangeOwnership(actorRole, [member.role, role]);
+  if (role !== OrgRole.OWNER) {
+    await assertKeepsOwner(orgId, member.role);
+  }
+  await forOrganization(orgId).membership.updateMany({
+    where: { userId },
+    data: { role },
+  });
+  return getMember(orgId, userId);
+};
+
+/**
+ * Remove a member from an organization. Their sessions working in it go
+ * back to no active organization.
+ * @param {string} orgId
+ * @param {OrgRole} actorRole - the role of the member removing them
+ * @param {string} userId
+ * @returns {Promise<void>}
+ */
+const removeMember = async (
+  orgId: string,
+  actorRole: OrgRole,
+  userId: string
+): Promise<void> => {
+  const member = await getMember(orgId, userId);
+  assertCanChangeOwnership(actorRole, [member.role]);
+  await assertKeepsOwner(orgId, member.role);
+  await forOrganization(orgId).membership.deleteMany({ where: { userId } });
+  await prisma.session.updateMany({
+    where: { userId, activeOrgId: orgId },
+    data: { activeOrgId: null },
+  });
+};
+
+/**
+ * Set the organization a session works in
+ * @param {string} sessionId
+ * @param {string} userId
+ * @param {string | null} orgId - null to leave every organization
+ * @returns {Promise<void>}
+ */
+const setActiveOrg = async (
+  sessionId: string,
+  userId: string,
+  orgId: string | null
+): Promise<void> => {
+  if (orgId) {
+    // not telling missing organizations from foreign ones
+    await getMember(orgId, userId).catch(() => {
+      throw new ApiError(httpStatus.NOT_FOUND, "Organization not found");
+    });
+  }
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { activeOrgId: orgId },
+  });
+};
+
+export default {
+  createOrg,
+  queryUserOrgs,
+  getOrgById,
+  updateOrgById,
+  deleteOrgById,
+  queryMembers,
+  getMember,
+  addMember,
+  updateMemberRole,
+  removeMember,
+  setActiveOrg,
+};
@@ -0,0 +1,235 @@
+import path from "path";
+import { readFile } from "fs/promises";
+import httpStatus from "http-status";
+import prisma from "../client.js";
+import config, { PasswordCharacterClass } from "../config/config.js";
+import ApiError from "../utils/ApiError.js";
+import { isPasswordMatch } from "../utils/encryption.js";
+
+export interface PasswordViolation {
+  rule: string;
+  message: string;
+}
+
+export interface PasswordContext {
+  email?: string;
+  name?: string;
+  // set when the password replaces the one of an existing user
+  userId?: string;
+}
+
+const characterClasses: Record<
+  PasswordCharacterClass,
+  { pattern: RegExp; message: string }
+> = {
+  lowercase: {
+    pattern: /[a-z]/,
+    message: "password must contain at least 1 lowercase letter",
+  },
+  uppercase: {
+    pattern: /[A-Z]/,
+    message: "password must contain at least 1 uppercase letter",
+  },
+  letter: {
+    pattern: /[a-zA-Z]/,
+    message: "password must contain at least 1 letter",
+  },
+  digit: {
+    pattern: /\d/,
+    message: "password must contain at least 1 number",
+  },
+  symbol: {
+    pattern: /[^a-zA-Z\d\s]/,
+    message: "password must contain at least 1 symbol",
+  },
+};
+
+/**
+ * Check a password against the breached password prefix files on disk
+ * @param {string} password
+ * @returns {Promise<boolean>}
+ */
+const isBreachedPassword = async (password: string): Promise<boolean> => {
+  if (!config.password.breachedHashesDir) {
+    return false;
+  }
+  const encoding = await import("@oslojs/encoding");
+  const { sha1 } = await import("@oslojs/crypto/sha1");
+
+  const hash = encoding.encodeHexUpperCase(
+    sha1(new TextEncoder().encode(password))
+  );
+  const prefix = hash.slice(0, 5);
+  const suffix = hash.slice(5);
+  let contents: string;
+  try {
+    contents = await readFile(
+      path.join(config.password.breachedHashesDir, `${prefix}.txt`),
+      "utf8"
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw error;
+  }
+  return contents
+    .split(/\r?\n/)
+    .some((line) => line.split(":")[0].trim().toUpperCase() === suffix);
+};
+
+/**
+ * Check whether a password matches the current or a recent password of a user
+ * @param {string} userId
+ * @param {string} password
+ * @returns {Promise<boolean>}
+ */
+const isRecentPassword = async (
+  userId: string,
+  password: string
+): Promise<boolean> => {
+  if (config.password.historySize <= 0) {
+    return false;
+  }
+  const [user, history] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { password: true },
+    }),
+    prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { id: "desc" },
+      take: config.password.historySize,
+    }),
+  ]);
+  const hashes = [user?.password, ...history.map((entry) => entry.password)];
+  for (const hash of hashes) {
+    if (hash && (await isPasswordMatch(password, hash))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Collect every policy rule a password breaks
+ * @param {string} password
+ * @param {PasswordContext} [context]
+ * @returns {Promise<PasswordViolation[]>}
+ */
+const validatePassword = async (
+  password: string,
+  context: PasswordContext = {}
+): Promise<PasswordViolation[]> => {
+  const violations: PasswordViolation[] = [];
+  const { minLength, maxLength } = config.password;
+
+  if (password.length < minLength) {
+    violations.push({
+      rule: "minLength",
+      message: `password must be at least ${minLength} characters`,
+    });
+  }
+  if (password.length > maxLength) {
+    violations.push({
+      rule: "maxLength",
+      message: `password must be at most ${maxLength} characters`,
+    });
+  }
+  for (const characterClass of config.password.characterClasses) {
+    const { pattern, message } = characterClasses[characterClass];
+    if (!pattern.test(password)) {
+      violations.push({ rule: characterClass, message });
+    }
+  }
+  if (config.password.disallowPersonalInfo) {
+    const lowerCasePassword = password.toLowerCase();
+    const personalInfo = [
+      context.email,
+      context.email?.split("@")[0],
+      ...(context.name?.split(/\s+/) ?? []),
+    ].filter((value): value is string => !!value && value.length >= 3);
+    if (
+      personalInfo.some((value) =>
+        lowerCasePassword.includes(value.toLowerCase())
+      )
+    ) {
+      violations.push({
+        rule: "personalInfo",
+        message: "password must not contain your email or name",
+      });
+    }
+  }
+  // skip the expensive checks for passwords too long to be accepted anyway
+  if (password.length <= maxLength) {
+    if (await isBreachedPassword(password)) {
+      violations.push({
+        rule: "breached",
+        message: "password has appeared in a data breach",
+      });
+    }
+    if (context.userId && (await isRecentPassword(context.userId, password))) {
+      violations.push({
+        rule: "history",
+        message: `password must differ from your last ${config.password.historySize} passwords`,
+      });
+    }
+  }
+  return violations;
+};
+
+/**
+ * Throw a single error listing every policy rule a password breaks
+ * @param {string} password
+ * @param {PasswordContext} [context]
+ * @returns {Promise<void>}
+ */
+const assertPasswordAllowed = async (
+  password: string,
+  context: PasswordContext = {}
+): Promise<void> => {
+  const violations = await validatePassword(password, context);
+  if (violations.length) {
+    const error = new ApiError(
+      httpStatus.BAD_REQUEST,
+      violations.map((violation) => violation.message).join(", ")
+    );
+    error.details = { violations };
+    throw error;
+  }
+};
+
+/**
+ * Remember a password a user has set, keeping only the configured history
+ * @param {string} userId
+ * @param {string} hashedPassword
+ * @returns {Promise<void>}
+ */
+const recordPasswordHistory = async (
+  userId: string,
+  hashedPassword: string
+): Promise<void> => {
+  if (config.password.historySize <= 0) {
+    return;
+  }
+  await prisma.passwordHistory.create({
+    data: { userId, password: hashedPassword },
+  });
+  const stale = await prisma.passwordHistory.findMany({
+    where: { userId },
+    orderBy: { id: "desc" },
+    skip: config.password.historySize,
+    select: { id: true },
+  });
+  if (stale.length) {
+    await prisma.passwordHistory.deleteMany({
+      where: { id: { in: stale.map((entry) => entry.id) } },
+    });
+  }
+};
+
+export default {
+  validatePassword,
+  assertPasswordAllowed,
+  recordPasswordHistory,
+};
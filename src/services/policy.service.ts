@@ -0,0 +1,342 @@
+import httpStatus from "http-status";
+import prisma, { forOrganization } from "../client.js";
+import config from "../config/config.js";
+import logger from "../config/logger.js";
+import {
+  PolicyCondition,
+  PolicyResource,
+  PolicyRule,
+  policies,
+} from "../config/policies.js";
+import ApiError from "../utils/ApiError.js";
+import roleService from "./role.service.js";
+
+/**
+ * Who makes the request
+ */
+export interface PolicyActor {
+  // unset for OAuth clients, which act for no user
+  id?: string;
+  rights: string[];
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * What else the rules look at besides the actor and the resource
+ */
+export interface PolicyContext {
+  // the fields the request sets
+  changes: string[];
+}
+
+export interface RuleTrace {
+  description: string;
+  effect: PolicyRule["effect"];
+  matched: boolean;
+  // the condition that did not hold, when the rule did not match
+  failed?: string;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  resource: PolicyResource;
+  action: string;
+  resourceId: string;
+  // the description of the rule that decided, null when none matched
+  rule: string | null;
+  // the message of the rule that denied the request
+  message?: string;
+  // the rules in the order they were tried
+  trace: RuleTrace[];
+}
+
+/**
+ * How to find the owner, the organization, the rights of the owner and the
+ * attributes of each resource
+ */
+const resources: Record<
+  PolicyResource,
+  {
+    ownerOf?: (resourceId: string) => string;
+    orgOf?: (resourceId: string) => string;
+    rightsOf?: (resourceId: string) => Promise<string[]>;
+    load: (resourceId: string) => Promise<Record<string, unknown> | null>;
+  }
+> = {
+  // users own themselves
+  user: {
+    ownerOf: (userId) => userId,
+    rightsOf: async (userId) => {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, role: true },
+      });
+      return user ? roleService.getUserRights(user) : [];
+    },
+    load: (userId) =>
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { role: true },
+      }),
+  },
+  org: {
+    orgOf: (orgId) => orgId,
+    load: (orgId) =>
+      prisma.organization.findUnique({
+        where: { id: orgId },
+        select: { name: true },
+      }),
+  },
+};
+
+/**
+ * Get the role of a user in an organization
+ * @param {string | undefined} orgId
+ * @param {string | undefined} userId
+ * @returns {Promise<string | null>} null when they are not a member
+ */
+const getMemberRole = async (
+  orgId: string | undefined,
+  userId: string | undefined
+): Promise<string | null> => {
+  if (!orgId || !userId) {
+    return null;
+  }
+  const membership = await forOrganization(orgId).membership.findFirst({
+    where: { userId },
+    select: { role: true },
+  });
+  return membership?.role ?? null;
+};
+
+/**
+ * Find the first attribute whose value is not one of the expected ones
+ * @param {Record<string, unknown> | null} attributes
+ * @param {Record<string, unknown[]>} expected
+ * @returns {string | undefined} the first attribute that differs
+ */
+const findMismatch = (
+  attributes: Record<string, unknown> | null,
+  expected: Record<string, unknown[]>
+): string | undefined =>
+  Object.keys(expected).find(
+    (key) => !attributes || !expected[key].includes(attributes[key])
+  );
+
+/**
+ * Check the conditions of a rule, the cheap ones first so the resource is
+ * only loaded when the other conditions hold
+ * @param {PolicyCondition} condition
+ * @param {Object} request - actor, owner, context and loaders
+ * @returns {Promise<string | undefined>} the condition that does not hold
+ */
+const checkCondition = async (
+  condition: PolicyCondition,
+  request: {
+    actor: PolicyActor;
+    ownerId?: string;
+    context: PolicyContext;
+    loadMemberRole: () => Promise<string | null>;
+    loadResourceRights: () => Promise<string[]>;
+    loadResource: () => Promise<Record<string, unknown> | null>;
+  }
+): Promise<string | undefined> => {
+  const {
+    actor,
+    ownerId,
+    context,
+    loadMemberRole,
+    loadResourceRights,
+    loadResource,
+  } = request;
+  if (
+    condition.permission !== undefined &&
+    !actor.rights.includes(condition.permission)
+  ) {
+    return `the actor lacks the ${condition.permission} permission`;
+  }
+  if (condition.owner !== undefined) {
+    const isOwner = actor.id !== undefined && actor.id === ownerId;
+    if (isOwner !== condition.owner) {
+      return isOwner
+        ? "the actor owns the resource"
+        : "the actor does not own the resource";
+    }
+  }
+  if (condition.actor) {
+    const mismatch = findMismatch(actor.attributes, condition.actor);
+    if (mismatch) {
+      return `the actor ${mismatch} is not ${condition.actor[mismatch].join(
+        " or "
+      )}`;
+    }
+  }
+  if (condition.member) {
+    const role = await loadMemberRole();
+    if (!role) {
+      return "the actor is not a member of the organization";
+    }
+    if (!(condition.member as string[]).includes(role)) {
+      return `the actor is ${role} of the organization, not ${condition.member.join(
+        " or "
+      )}`;
+    }
+  }
+  if (condition.outranks !== undefined) {
+    const lacking = roleService.findLackingRights(
+      actor.rights,
+      await loadResourceRights()
+    );
+    const outranks = lacking.length > 0;
+    if (outranks !== condition.outranks) {
+      return outranks
+        ? `the resource holds ${lacking.join(", ")}, which the actor lacks`
+        : "the resource holds no right the actor lacks";
+    }
+  }
+  if (
+    condition.changes &&
+    !condition.changes.some((field) => context.changes.includes(field))
+  ) {
+    return `the request changes none of ${condition.changes.join(", ")}`;
+  }
+  if (condition.resource) {
+    const attributes = await loadResource();
+    const mismatch = findMismatch(attributes, condition.resource);
+    if (mismatch) {
+      return attributes
+        ? `the resource ${mismatch} is not ${condition.resource[mismatch].join(
+            " or "
+          )}`
+        : "the resource does not exist";
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Decide whether an actor may perform an action on a resource. The first
+ * rule of the action that matches decides, no match denies.
+ * @param {PolicyResource} resource
+ * @param {string} action
+ * @param {string} resourceId
+ * @param {PolicyActor} actor
+ * @param {PolicyContext} [context]
+ * @returns {Promise<PolicyDecision>}
+ */
+const evaluate = async (
+  resource: PolicyResource,
+  action: string,
+  resourceId: string,
+  actor: PolicyActor,
+  context: PolicyContext = { changes: [] }
+): Promise<PolicyDecision> => {
+  const rules: PolicyRule[] | undefined = (
+    policies[resource] as Record<string, PolicyRule[]>
+  )[action];
+  if (!rules) {
+    throw new Error(`No policy for ${resource}.${action}`);
+  }
+  const { ownerOf, orgOf, rightsOf } = resources[resource];
+  const ownerId = ownerOf?.(resourceId);
+  let memberRole: Promise<string | null> | undefined;
+  const loadMemberRole = () => {
+    if (!memberRole) {
+      memberRole = getMemberRole(orgOf?.(resourceId), actor.id);
+    }
+    return memberRole;
+  };
+  let resourceRights: Promise<string[]> | undefined;
+  const loadResourceRights = () => {
+    if (!resourceRights) {
+      resourceRights = rightsOf?.(resourceId) ?? Promise.resolve([]);
+    }
+    return resourceRights;
+  };
+  let loaded: Promise<Record<string, unknown> | null> | undefined;
+  const loadResource = () => {
+    if (!loaded) {
+      loaded = resources[resource].load(resourceId);
+    }
+    return loaded;
+  };
+
+  const trace: RuleTrace[] = [];
+  for (const rule of rules) {
+    const failed = await checkCondition(rule.when, {
+      actor,
+      ownerId,
+      context,
+      loadMemberRole,
+      loadResourceRights,
+      loadResource,
+    });
+    trace.push({
+      description: rule.description,
+      effect: rule.effect,
+      matched: !failed,
+      ...(failed && { failed }),
+    });
+    if (!failed) {
+      return {
+        allowed: rule.effect === "allow",
+        resource,
+        action,
+        resourceId,
+        rule: rule.description,
+        ...(rule.effect === "deny" &&
+          rule.message && { message: rule.message }),
+        trace,
+      };
+    }
+  }
+  return {
+    allowed: false,
+    resource,
+    action,
+    resourceId,
+    rule: null,
+    trace,
+  };
+};
+
+/**
+ * Throw unless the policy allows the action. With POLICY_EXPLAIN the error
+ * carries the decision so the denial can be debugged from the response.
+ * @param {PolicyResource} resource
+ * @param {string} action
+ * @param {string} resourceId
+ * @param {PolicyActor} actor
+ * @param {PolicyContext} [context]
+ * @returns {Promise<PolicyDecision>}
+ */
+const authorize = async (
+  resource: PolicyResource,
+  action: string,
+  resourceId: string,
+  actor: PolicyActor,
+  context?: PolicyContext
+): Promise<PolicyDecision> => {
+  const decision = await evaluate(resource, action, resourceId, actor, context);
+  logger.debug(
+    `policy ${resource}.${action} ${decision.allowed ? "allowed" : "denied"} ${
+      actor.id ?? "client"
+    } on ${resourceId}: ${decision.rule ?? "no rule matched"}`
+  );
+  if (!decision.allowed) {
+    const error = new ApiError(
+      httpStatus.FORBIDDEN,
+      decision.message ?? "Forbidden"
+    );
+    if (config.auth.explainPolicies) {
+      error.details = { decision };
+    }
+    throw error;
+  }
+  return decision;
+};
+
+export default {
+  evaluate,
+  authorize,
+};
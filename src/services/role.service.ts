@@ -0,0 +1,492 @@
+import httpStatus from "http-status";
+import { Prisma, Role } from "@prisma/client";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import { rights, roleRights } from "../config/roles.js";
+import ApiError from "../utils/ApiError.js";
+
+// keeps the cache from growing without bound between invalidations
+const MAX_CACHED_USERS = 10000;
+
+const roleSelect = {
+  id: true,
+  name: true,
+  description: true,
+  builtIn: true,
+  createdAt: true,
+  permissions: { select: { name: true }, orderBy: { name: "asc" } },
+} satisfies Prisma.AccessRoleSelect;
+
+type StoredRole = Prisma.AccessRoleGetPayload<{ select: typeof roleSelect }>;
+
+export interface RoleResponse {
+  id: number;
+  name: string;
+  description: string | null;
+  builtIn: boolean;
+  createdAt: Date;
+  permissions: string[];
+}
+
+// rights of a user, by user id and built-in role
+const rightsCache = new Map<string, { rights: string[]; expiresAt: number }>();
+
+let builtInRolesSynced: Promise<void> | undefined;
+
+/**
+ * Flatten the permissions of a role to their names
+ * @param {StoredRole} role
+ * @returns {RoleResponse}
+ */
+const toRoleResponse = (role: StoredRole): RoleResponse => ({
+  ...role,
+  permissions: role.permissions.map(({ name }) => name),
+});
+
+/**
+ * Store the built-in roles and the rights defined in config/roles.ts. Rights
+ * new to the database are granted to the built-in roles that start with
+ * them, so revoking one later sticks.
+ * @returns {Promise<void>}
+ */
+const syncBuiltInRoles = async (): Promise<void> => {
+  const stored = await prisma.permission.findMany({
+    where: { name: { in: rights } },
+    select: { name: true },
+  });
+  const missing = rights.filter(
+    (right) => !stored.some(({ name }) => name === right)
+  );
+  await prisma.permission.createMany({
+    data: missing.map((name) => ({ name })),
+    skipDuplicates: true,
+  });
+  await prisma.accessRole.createMany({
+    data: Object.values(Role).map((name) => ({ name, builtIn: true })),
+    skipDuplicates: true,
+  });
+  for (const [name, defaults] of roleRights) {
+    const granted = (defaults as string[]).filter((right) =>
+      missing.includes(right)
+    );
+    if (granted.length) {
+      await prisma.accessRole.update({
+        where: { name },
+        data: {
+          permissions: { connect: granted.map((right) => ({ name: right })) },
+        },
+      });
+    }
+  }
+};
+
+/**
+ * Sync the built-in roles once per process
+ * @returns {Promise<void>}
+ */
+const ensureBuiltInRoles = (): Promise<void> => {
+  if (!builtInRolesSynced) {
+    builtInRolesSynced = syncBuiltInRoles().catch((error) => {
+      builtInRolesSynced = undefined;
+      throw error;
+    });
+  }
+  return builtInRolesSynced;
+};
+
+/**
+ * Forget the cached rights of every user, after roles or permissions changed
+ */
+const invalidateRights = (): void => {
+  rightsCache.clear();
+};
+
+/**
+ * Get the rights of a user: those of their built-in role and of the roles
+ * assigned to them
+ * @param {Object} user - id and role
+ * @returns {Promise<string[]>}
+ */
+const getUserRights = async (user: {
+  id: string;
+  role: Role;
+}): Promise<string[]> => {
+  const key = `${user.id}:${user.role}`;
+  const cached = rightsCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rights;
+  }
+  await ensureBuiltInRoles();
+  const roles = await prisma.accessRole.findMany({
+    where: {
+      OR: [
+        { name: user.role, builtIn: true },
+        { users: { some: { id: user.id } } },
+      ],
+    },
+    select: { permissions: { select: { name: true } } },
+  });
+  const userRights = [
+    ...new Set(
+      roles.flatMap(({ permissions }) => permissions.map(({ name }) => name))
+    ),
+  ];
+  if (rightsCache.size >= MAX_CACHED_USERS) {
+    rightsCache.clear();
+  }
+  rightsCache.set(key, {
+    rights: userRights,
+    expiresAt: Date.now() + config.auth.roleCacheTtlSeconds * 1000,
+  });
+  return userRights;
+};
+
+/**
+ * Find the rights an actor lacks among the rights of a user or a role
+ * @param {string[]} actorRights
+ * @param {string[]} targetRights
+ * @returns {string[]}
+ */
+const findLackingRights = (
+  actorRights: string[],
+  targetRights: string[]
+): string[] => targetRights.filter((right) => !actorRights.includes(right));
+
+/**
+ * Throw unless an actor holds every right of a built-in role, so nobody
+ * creates or invites users more powerful than themselves
+ * @param {string[]} actorRights
+ * @param {Role} role
+ * @returns {Promise<void>}
+ */
+const assertCanGrantRole = async (
+  actorRights: string[],
+  role: Role
+): Promise<void> => {
+  await ensureBuiltInRoles();
+  const builtInRole = await prisma.accessRole.findFirst({
+    where: { name: role, builtIn: true },
+    select: { permissions: { select: { name: true } } },
+  });
+  const lacking = findLackingRights(
+    actorRights,
+    builtInRole?.permissions.map(({ name }) => name) ?? []
+  );
+  if (lacking.length) {
+    throw new ApiError(
+      httpStatus.FORBIDDEN,
+      `Granting the ${role} role requires ${lacking.join(", ")}`
+    );
+  }
+};
+
+/**
+ * Throw unless every permission exists
+ * @param {string[]} names
+ * @returns {Promise<void>}
+ */
+const assertPermissionsExist = async (names: string[]): Promise<void> => {
+  if (!names.length) {
+    return;
+  }
+  await ensureBuiltInRoles();
+  const stored = await prisma.permission.findMany({
+    where: { name: { in: names } },
+    select: { name: true },
+  });
+  const unknown = names.filter(
+    (name) => !stored.some((permission) => permission.name === name)
+  );
+  if (unknown.length) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      `Unknown permissions: ${unknown.join(", ")}`
+    );
+  }
+};
+
+/**
+ * List the permissions
+ * @returns {Promise<Object[]>}
+ */
+const queryPermissions = async () => {
+  await ensureBuiltInRoles();
+  return prisma.permission.findMany({
+    select: { name: true, description: true, createdAt: true },
+    orderBy: { name: "asc" },
+  });
+};
+
+/**
+ * Create a permission, to be granted to roles and checked by auth()
+ * @param {Object} permissionBody - name and description
+ * @returns {Promise<Object>}
+ */
+const createPermission = async (permissionBody: {
+  name: string;
+  description?: string;
+}) => {
+  const { count } = await prisma.permission.createMany({
+    data: permissionBody,
+    skipDuplicates: true,
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Permission already exists");
+  }
+  return prisma.permission.findUniqueOrThrow({
+    where: { name: permissionBody.name },
+    select: { name: true, description: true, createdAt: true },
+  });
+};
+
+/**
+ * Delete a permission, taking it away from every role. The rights checked
+ * by the routes cannot be deleted.
+ * @param {string} name
+ * @returns {Promise<void>}
+ */
+const deletePermission = async (name: string): Promise<void> => {
+  if (rights.includes(name)) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Built-in permissions cannot be deleted"
+    );
+  }
+  const { count } = await prisma.permission.deleteMany({ where: { name } });
+  if (!count) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Permission not found");
+  }
+  invalidateRights();
+};
+
+/**
+ * List the roles with their permissions
+ * @returns {Promise<RoleResponse[]>}
+ */
+const queryRoles = async (): Promise<RoleResponse[]> => {
+  await ensureBuiltInRoles();
+  const roles = await prisma.accessRole.findMany({
+    select: roleSelect,
+    orderBy: { name: "asc" },
+  });
+  return roles.map(toRoleResponse);
+};
+
+/**
+ * Get a role by id
+ * @param {number} roleId
+ * @returns {Promise<RoleResponse>}
+ */
+const getRoleById = async (roleId: number): Promise<RoleResponse> => {
+  const role = await prisma.accessRole.findUnique({
+    where: { id: roleId },
+    select: roleSelect,
+  });
+  if (!role) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Role not found");
+  }
+  return toRoleResponse(role);
+};
+
+/**
+ * Create a role
+ * @param {Object} roleBody - name, description and permissions
+ * @returns {Promise<RoleResponse>}
+ */
+const createRole = async (roleBody: {
+  name: string;
+  description?: string;
+  permissions?: string[];
+}): Promise<RoleResponse> => {
+  const { permissions = [], ...data } = roleBody;
+  await ensureBuiltInRoles();
+  if (await prisma.accessRole.findUnique({ where: { name: data.name } })) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Role already exists");
+  }
+  await assertPermissionsExist(permissions);
+  const role = await prisma.accessRole.create({
+    data: {
+      ...data,
+      permissions: { connect: permissions.map((name) => ({ name })) },
+    },
+    select: roleSelect,
+  });
+  return toRoleResponse(role);
+};
+
+/**
+ * Rename a role or change its description. Built-in roles keep their name.
+ * @param {number} roleId
+ * @param {Object} updateBody - name and description
+ * @returns {Promise<RoleResponse>}
+ */
+const updateRoleById = async (
+  roleId: number,
+  updateBody: { name?: string; description?: string }
+): Promise<RoleResponse> => {
+  const role = await getRoleById(roleId);
+  if (updateBody.name && updateBody.name !== role.name) {
+    if (role.builtIn) {
+      throw new ApiError(
+        httpStatus.BAD_REQUEST,
+        "Built-in roles cannot be renamed"
+      );
+    }
+    if (
+      await prisma.accessRole.findUnique({ where: { name: updateBody.name } })
+    ) {
+      throw new ApiError(httpStatus.BAD_REQUEST, "Role already exists");
+    }
+  }
+  const updatedRole = await prisma.accessRole.update({
+    where: { id: roleId },
+    data: updateBody,
+    select: roleSelect,
+  });
+  return toRoleResponse(updatedRole);
+};
+
+/**
+ * Delete a role, taking it away from its users
+ * @param {number} roleId
+ * @returns {Promise<void>}
+ */
+const deleteRoleById = async (roleId: number): Promise<void> => {
+  const role = await getRoleById(roleId);
+  if (role.builtIn) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Built-in roles cannot be deleted"
+    );
+  }
+  await prisma.accessRole.delete({ where: { id: roleId } });
+  invalidateRights();
+};
+
+/**
+ * Grant a permission to a role
+ * @param {number} roleId
+ * @param {string} permission
+ * @returns {Promise<RoleResponse>}
+ */
+const grantPermission = async (
+  roleId: number,
+  permission: string
+): Promise<RoleResponse> => {
+  await getRoleById(roleId);
+  if (!(await prisma.permission.findUnique({ where: { name: permission } }))) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Permission not found");
+  }
+  const role = await prisma.accessRole.update({
+    where: { id: roleId },
+    data: { permissions: { connect: { name: permission } } },
+    select: roleSelect,
+  });
+  invalidateRights();
+  return toRoleResponse(role);
+};
+
+/**
+ * Revoke a permission from a role
+ * @param {number} roleId
+ * @param {string} permission
+ * @returns {Promise<RoleResponse>}
+ */
+const revokePermission = async (
+  roleId: number,
+  permission: string
+): Promise<RoleResponse> => {
+  const { permissions } = await getRoleById(roleId);
+  if (!permissions.includes(permission)) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Permission not granted");
+  }
+  const role = await prisma.accessRole.update({
+    where: { id: roleId },
+    data: { permissions: { disconnect: { name: permission } } },
+    select: roleSelect,
+  });
+  invalidateRights();
+  return toRoleResponse(role);
+};
+
+/**
+ * List the roles assigned to a user, not including their built-in role
+ * @param {string} userId
+ * @returns {Promise<RoleResponse[]>}
+ */
+const getUserRoles = async (userId: string): Promise<RoleResponse[]> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { accessRoles: { select: roleSelect, orderBy: { name: "asc" } } },
+  });
+  if (!user) {
+    throw new ApiError(httpStatus.NOT_FOUND, "User not found");
+  }
+  return user.accessRoles.map(toRoleResponse);
+};
+
+/**
+ * Assign a role to a user. Built-in roles follow the role of the user
+ * instead.
+ * @param {string} userId
+ * @param {number} roleId
+ * @returns {Promise<RoleResponse[]>} the roles of the user
+ */
+const assignRole = async (
+  userId: string,
+  roleId: number
+): Promise<RoleResponse[]> => {
+  const role = await getRoleById(roleId);
+  if (role.builtIn) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Built-in roles are given by the role of the user"
+    );
+  }
+  await getUserRoles(userId);
+  await prisma.user.update({
+    where: { id: userId },
+    data: { accessRoles: { connect: { id: roleId } } },
+  });
+  invalidateRights();
+  return getUserRoles(userId);
+};
+
+/**
+ * Take a role away from a user
+ * @param {string} userId
+ * @param {number} roleId
+ * @returns {Promise<void>}
+ */
+const unassignRole = async (userId: string, roleId: number): Promise<void> => {
+  const roles = await getUserRoles(userId);
+  if (!roles.some(({ id }) => id === roleId)) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Role not assigned");
+  }
+  await prisma.user.update({
+    where: { id: userId },
+    data: { accessRoles: { disconnect: { id: roleId } } },
+  });
+  invalidateRights();
+};
+
+export default {
+  getUserRights,
+  invalidateRights,
+  findLackingRights,
+  assertCanGrantRole,
+  assertPermissionsExist,
+  queryPermissions,
+  createPermission,
+  deletePermission,
+  queryRoles,
+  getRoleById,
+  createRole,
+  updateRoleById,
+  deleteRoleById,
+  grantPermission,
+  revokePermission,
+  getUserRoles,
+  assignRole,
+  unassignRole,
+};
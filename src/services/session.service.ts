@@ -0,0 +1,78 @@
+import httpStatus from "http-status";
+import { Session, TokenType } from "@prisma/client";
+import prisma from "../client.js";
+import ApiError from "../utils/ApiError.js";
+
+/**
+ * The session or refresh token family a request is authenticated with
+ */
+export interface CurrentLogin {
+  sessionId?: string;
+  family?: string;
+}
+
+/**
+ * Query the active sessions of a user, most recently used first
+ * @param {string} userId
+ * @returns {Promise<Session[]>}
+ */
+const querySessions = async (userId: string): Promise<Session[]> => {
+  return prisma.session.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: "desc" },
+  });
+};
+
+/**
+ * Revoke one session of a user
+ * @param {string} userId
+ * @param {string} sessionId
+ * @returns {Promise<void>}
+ */
+const deleteSessionById = async (
+  userId: string,
+  sessionId: string
+): Promise<void> => {
+  const { count } = await prisma.session.deleteMany({
+    where: { id: sessionId, userId },
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Session not found");
+  }
+};
+
+/**
+ * Revoke every session and every access and refresh token of a user,
+ * optionally keeping the login the request is made with
+ * @param {string} userId
+ * @param {CurrentLogin} [keep]
+ * @returns {Promise<void>}
+ */
+const revokeLogins = async (
+  userId: string,
+  keep: CurrentLogin = {}
+): Promise<void> => {
+  await prisma.$transaction([
+    prisma.session.deleteMany({
+      where: {
+        userId,
+        ...(keep.sessionId && { id: { not: keep.sessionId } }),
+      },
+    }),
+    prisma.token.deleteMany({
+      where: {
+        userId,
+        type: { in: [TokenType.ACCESS, TokenType.REFRESH] },
+        ...(keep.family && {
+          OR: [{ family: null }, { family: { not: keep.family } }],
+        }),
+      },
+    }),
+  ]);
+};
+
+export default {
+  querySessions,
+  deleteSessionById,
+  revokeLogins,
+};
@@ -2,9 +2,15 @@ import moment, { Moment } from "moment";
 import httpStatus from "http-status";
 import userService from "./user.service.js";
 import ApiError from "../utils/ApiError.js";
-import { Session, Token, TokenType, User } from "@prisma/client";
+import { Prisma, Session, Token, TokenType, User } from "@prisma/client";
 import prisma from "../client.js";
 import logger from "../config/logger.js";
+import config from "../config/config.js";
+import { getDeviceLabel } from "../utils/userAgent.js";
+import { AuthTokensResponse } from "../types/response.js";
+
+// how stale lastSeenAt may get before a request writes it again
+const LAST_SEEN_UPDATE_INTERVAL_MS = 1000 * 60 * 5;
 // import {
 //   encodeBase32LowerCaseNoPadding,
 //   encodeHexLowerCase,
@@ -27,12 +33,17 @@ const generateSessionToken = async (): Promise<string> => {
  * Create session
  * @param {string} token
  * @param {string} userId
+ * @param {Date} [expiresAt]
+ * @param {SessionMetadata} [metadata] - the device the session is created from
+ * @param {string} [impersonatorId] - the admin acting as the user
  * @returns {Promise<Session>}
  */
 const createSession = async (
   token: string,
   userId: string,
-  expiresAt?: Date
+  expiresAt?: Date,
+  metadata: SessionMetadata = {},
+  impersonatorId?: string
 ): Promise<Session> => {
   const encoding = await import("@oslojs/encoding");
   const { sha256 } = await import("@oslojs/crypto/sha2");
@@ -40,10 +51,19 @@ const createSession = async (
   const sessionId = encoding.encodeHexLowerCase(
     sha256(new TextEncoder().encode(token))
   );
+  const now = new Date();
   const session: Session = {
     id: sessionId,
     userId,
     expiresAt: expiresAt ?? new Date(Date.now() + 1000 * 60 * 60 * 24 * 30),
+    createdAt: now,
+    lastSeenAt: now,
+    authenticatedAt: now,
+    ipAddress: metadata.ipAddress ?? null,
+    userAgent: metadata.userAgent ?? null,
+    deviceLabel: getDeviceLabel(metadata.userAgent),
+    impersonatorId: impersonatorId ?? null,
+    activeOrgId: null,
   };
   await prisma.session.create({
     data: session,
@@ -65,7 +85,6 @@ const validateSessionToken = async (
   const sessionId = encoding.encodeHexLowerCase(
     sha256(new TextEncoder().encode(token))
   );
-  console.log("vsessionId", sessionId);
   const result = await prisma.session.findUnique({
     where: {
       id: sessionId,
@@ -82,15 +101,29 @@ const validateSessionToken = async (
     await prisma.session.delete({ where: { id: sessionId } });
     return { session: null, user: null };
   }
-  if (Date.now() >= session.expiresAt.getTime() - 1000 * 60 * 60 * 24 * 15) {
+  const data: Prisma.SessionUpdateInput = {};
+  // impersonation sessions keep their fixed lifetime
+  if (
+    !session.impersonatorId &&
+    Date.now() >= session.expiresAt.getTime() - 1000 * 60 * 60 * 24 * 15
+  ) {
     session.expiresAt = new Date(Date.now() + 1000 * 60 * 60 * 24 * 30);
+    data.expiresAt = session.expiresAt;
+  }
+  // lastSeenAt is throttled so that authenticated requests rarely write
+  if (
+    Date.now() - session.lastSeenAt.getTime() >=
+    LAST_SEEN_UPDATE_INTERVAL_MS
+  ) {
+    session.lastSeenAt = new Date();
+    data.lastSeenAt = session.lastSeenAt;
+  }
+  if (Object.keys(data).length) {
     await prisma.session.update({
       where: {
         id: session.id,
       },
-      data: {
-        expiresAt: session.expiresAt,
-      },
+      data,
     });
   }
   return { session, user };
@@ -117,6 +150,8 @@ const invalidateSession = async (token: string): Promise<void> => {
  * @param {Moment} expires
  * @param {string} type
  * @param {boolean} [blacklisted]
+ * @param {string} [family]
+ * @param {Date} [authenticatedAt]
  * @returns {Promise<Token>}
  */
 const saveToken = async (
@@ -124,7 +159,9 @@ const saveToken = async (
   userId: string,
   expires: Moment,
   type: TokenType,
-  blacklisted = false
+  blacklisted = false,
+  family?: string,
+  authenticatedAt?: Date | null
 ): Promise<Token> => {
   const encoding = await import("@oslojs/encoding");
   const { sha256 } = await import("@oslojs/crypto/sha2");
@@ -139,39 +176,294 @@ const saveToken = async (
       expires: expires.toDate(),
       type,
       blacklisted,
+      family,
+      authenticatedAt,
     },
   });
   return createdToken;
 };
 
 /**
- * Verify token and return token doc (or throw an error if it is not valid)
+ * Generate an access token and a refresh token
+ * @param {User} user
+ * @param {string} [family] - the family of the refresh token being rotated
+ * @param {Date | null} [authenticatedAt] - carried over from the refresh token being rotated
+ * @returns {Promise<AuthTokensResponse>}
+ */
+const generateAuthTokens = async (
+  user: { id: string },
+  family?: string,
+  authenticatedAt: Date | null = new Date()
+): Promise<AuthTokensResponse> => {
+  const tokenFamily = family ?? (await generateSessionToken());
+
+  const accessTokenExpires = moment().add(
+    config.auth.accessExpirationMinutes,
+    "minutes"
+  );
+  const accessToken = await generateSessionToken();
+  await saveToken(
+    accessToken,
+    user.id,
+    accessTokenExpires,
+    TokenType.ACCESS,
+    false,
+    tokenFamily,
+    authenticatedAt
+  );
+
+  const refreshTokenExpires = moment().add(
+    config.auth.refreshExpirationDays,
+    "days"
+  );
+  const refreshToken = await generateSessionToken();
+  await saveToken(
+    refreshToken,
+    user.id,
+    refreshTokenExpires,
+    TokenType.REFRESH,
+    false,
+    tokenFamily,
+    authenticatedAt
+  );
+
+  return {
+    access: {
+      token: accessToken,
+      expires: accessTokenExpires.toDate(),
+    },
+    refresh: {
+      token: refreshToken,
+      expires: refreshTokenExpires.toDate(),
+    },
+  };
+};
+
+/**
+ * Generate what a successful login hands out in the configured token mode
+ * @param {User} user
+ * @param {SessionMetadata} [metadata]
+ * @returns {Promise<LoginTokens>}
+ */
+const generateLoginTokens = async (
+  user: { id: string },
+  metadata?: SessionMetadata
+): Promise<LoginTokens> => {
+  if (config.auth.tokenMode === "tokens") {
+    return { tokens: await generateAuthTokens(user) };
+  }
+  const token = await generateSessionToken();
+  await createSession(token, user.id, undefined, metadata);
+  return { token };
+};
+
+/**
+ * Validate an access token
+ * @param {string} token
+ * @returns {Promise<{ accessToken: Token; user: User } | null>}
+ */
+const validateAccessToken = async (
+  token: string
+): Promise<{ accessToken: Token; user: User } | null> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  const hashedToken = encoding.encodeHexLowerCase(
+    sha256(new TextEncoder().encode(token))
+  );
+  const tokenData = await prisma.token.findFirst({
+    where: {
+      token: hashedToken,
+      type: TokenType.ACCESS,
+      blacklisted: false,
+      expires: { gt: new Date() },
+    },
+    include: { user: true },
+  });
+  if (!tokenData) {
+    return null;
+  }
+  const { user, ...accessToken } = tokenData;
+  return { accessToken, user };
+};
+
+/**
+ * Revoke every access and refresh token of a family
+ * @param {string} family
+ * @returns {Promise<void>}
+ */
+const revokeTokenFamily = async (family: string): Promise<void> => {
+  await prisma.token.deleteMany({ where: { family } });
+};
+
+/**
+ * Why a one-time token was rejected, sent as the `error` of the response
+ */
+export const tokenErrors = {
+  invalid: "token_invalid",
+  expired: "token_expired",
+  used: "token_used",
+  attemptsExceeded: "token_attempts_exceeded",
+} as const;
+
+/**
+ * Find what keeps a one-time token from being used
+ * @param {Token | null} tokenData
+ * @returns {string | null} one of tokenErrors, or null if it can be used
+ */
+const getTokenError = (tokenData: Token | null): string | null => {
+  if (!tokenData) {
+    return tokenErrors.invalid;
+  }
+  if (tokenData.usedAt) {
+    return tokenErrors.used;
+  }
+  if (tokenData.failedAttempts >= config.oneTimeToken.maxAttempts) {
+    return tokenErrors.attemptsExceeded;
+  }
+  if (tokenData.expires.getTime() <= Date.now()) {
+    return tokenErrors.expired;
+  }
+  return null;
+};
+
+/**
+ * Verify a one-time token and return token doc, without using it up.
+ * Throws a 401 whose `error` tells an unknown, used, exhausted or expired
+ * token apart.
  * @param {string} token
  * @param {string} type
+ * @param {string} [message] - the message of the error
  * @returns {Promise<Token>}
  */
 const verifyToken = async (
   token: string,
   type: TokenType,
-  blacklisted = false
+  message = "Invalid token"
 ): Promise<Token> => {
   const encoding = await import("@oslojs/encoding");
   const { sha256 } = await import("@oslojs/crypto/sha2");
-  console.log(`Verify token: ${token}`);
+
   const hashedToken = encoding.encodeHexLowerCase(
     sha256(new TextEncoder().encode(token))
   );
-  console.log(`Verify hashedToken: ${hashedToken}`);
   const tokenData = await prisma.token.findFirst({
-    where: { token: hashedToken, type, blacklisted },
+    where: { token: hashedToken, type, blacklisted: false },
   });
-  console.log(
-    `Verify tokenData: ${tokenData ? JSON.stringify(tokenData) : "null"}`
-  );
-  if (!tokenData) {
-    throw new Error("Token not found");
+  const error = getTokenError(tokenData);
+  if (error) {
+    const apiError = new ApiError(httpStatus.UNAUTHORIZED, message);
+    apiError.details = { error };
+    throw apiError;
+  }
+  return tokenData as Token;
+};
+
+/**
+ * Build the error of a one-time token a conditional update did not match
+ * @param {Token} tokenData
+ * @param {string} message
+ * @param {string} fallback - the error when the token looks usable again
+ * @returns {Promise<ApiError>}
+ */
+const getRejection = async (
+  tokenData: Token,
+  message: string,
+  fallback: string
+): Promise<ApiError> => {
+  const apiError = new ApiError(httpStatus.UNAUTHORIZED, message);
+  apiError.details = {
+    error:
+      getTokenError(
+        await prisma.token.findUnique({ where: { id: tokenData.id } })
+      ) ?? fallback,
+  };
+  return apiError;
+};
+
+/**
+ * Use up a verified one-time token. Of concurrent requests presenting the
+ * same token only one succeeds, the others get the error verifyToken would.
+ * @param {Token} tokenData
+ * @param {string} [message] - the message of the error
+ * @returns {Promise<void>}
+ */
+const consumeToken = async (
+  tokenData: Token,
+  message = "Invalid token"
+): Promise<void> => {
+  const { count } = await prisma.token.updateMany({
+    where: {
+      id: tokenData.id,
+      usedAt: null,
+      failedAttempts: { lt: config.oneTimeToken.maxAttempts },
+      expires: { gt: new Date() },
+    },
+    data: { usedAt: new Date() },
+  });
+  if (!count) {
+    throw await getRejection(tokenData, message, tokenErrors.used);
+  }
+};
+
+/**
+ * Count an attempt at a one-time token before checking the code or email
+ * presented with it, so parallel requests cannot try more than
+ * ONE_TIME_TOKEN_MAX_ATTEMPTS of them. The attempt stays counted unless it
+ * succeeds and consumeReservedToken uses the token up.
+ * @param {Token} tokenData
+ * @param {string} [message] - the message of the error
+ * @returns {Promise<void>}
+ */
+const reserveTokenAttempt = async (
+  tokenData: Token,
+  message = "Invalid token"
+): Promise<void> => {
+  const { count } = await prisma.token.updateMany({
+    where: {
+      id: tokenData.id,
+      usedAt: null,
+      failedAttempts: { lt: config.oneTimeToken.maxAttempts },
+      expires: { gt: new Date() },
+    },
+    data: { failedAttempts: { increment: 1 } },
+  });
+  if (!count) {
+    throw await getRejection(tokenData, message, tokenErrors.attemptsExceeded);
+  }
+};
+
+/**
+ * Use up a one-time token after a reserved attempt succeeded, taking the
+ * attempt back. Only one of concurrent successful attempts wins.
+ * @param {Token} tokenData
+ * @param {string} [message] - the message of the error
+ * @returns {Promise<void>}
+ */
+const consumeReservedToken = async (
+  tokenData: Token,
+  message = "Invalid token"
+): Promise<void> => {
+  const { count } = await prisma.token.updateMany({
+    where: { id: tokenData.id, usedAt: null, expires: { gt: new Date() } },
+    data: { usedAt: new Date(), failedAttempts: { decrement: 1 } },
+  });
+  if (!count) {
+    throw await getRejection(tokenData, message, tokenErrors.used);
   }
-  return tokenData;
+};
+
+/**
+ * Make a consumed one-time token usable again, when what it was used for
+ * failed for a reason the user can fix
+ * @param {Token} tokenData
+ * @returns {Promise<void>}
+ */
+const releaseToken = async (tokenData: Token): Promise<void> => {
+  await prisma.token.updateMany({
+    where: { id: tokenData.id },
+    data: { usedAt: null },
+  });
 };
 
 /**
@@ -181,7 +473,10 @@ const verifyToken = async (
  */
 const generateResetPasswordToken = async (
   email: string,
-  expires = moment().add(10, "minutes"),
+  expires = moment().add(
+    config.oneTimeToken.expirationMinutes.RESET_PASSWORD,
+    "minutes"
+  ),
   blacklisted = false
 ): Promise<string> => {
   const user = await userService.getUserByEmail(email);
@@ -208,12 +503,59 @@ const generateResetPasswordToken = async (
 const generateVerifyEmailToken = async (user: {
   id: string;
 }): Promise<string> => {
-  const expires = moment().add(10, "minutes");
+  const expires = moment().add(
+    config.oneTimeToken.expirationMinutes.VERIFY_EMAIL,
+    "minutes"
+  );
   const verifyEmailToken = await generateSessionToken();
   await saveToken(verifyEmailToken, user.id, expires, TokenType.VERIFY_EMAIL);
   return verifyEmailToken;
 };
 
+/**
+ * Generate two-factor login challenge token
+ * @param {User} user
+ * @returns {Promise<string>}
+ */
+const generateTwoFactorChallengeToken = async (user: {
+  id: string;
+}): Promise<string> => {
+  const expires = moment().add(
+    config.oneTimeToken.expirationMinutes.TWO_FACTOR,
+    "minutes"
+  );
+  const challengeToken = await generateSessionToken();
+  await saveToken(challengeToken, user.id, expires, TokenType.TWO_FACTOR);
+  return challengeToken;
+};
+
+/**
+ * Generate magic link token, replacing any link sent before
+ * @param {User} user
+ * @returns {Promise<string>}
+ */
+const generateMagicLinkToken = async (user: {
+  id: string;
+}): Promise<string> => {
+  await prisma.token.deleteMany({
+    where: { userId: user.id, type: TokenType.MAGIC_LINK },
+  });
+  const expires = moment().add(
+    config.oneTimeToken.expirationMinutes.MAGIC_LINK,
+    "minutes"
+  );
+  const magicLinkToken = await generateSessionToken();
+  await saveToken(magicLinkToken, user.id, expires, TokenType.MAGIC_LINK);
+  return magicLinkToken;
+};
+
+export type LoginTokens = { token: string } | { tokens: AuthTokensResponse };
+
+export interface SessionMetadata {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
 export type SessionValidationResult =
   | { session: Session; user: User }
   | { session: null; user: null };
@@ -222,8 +564,18 @@ export default {
   generateSessionToken,
   saveToken,
   verifyToken,
+  consumeToken,
+  releaseToken,
+  reserveTokenAttempt,
+  consumeReservedToken,
   generateResetPasswordToken,
   generateVerifyEmailToken,
+  generateTwoFactorChallengeToken,
+  generateMagicLinkToken,
+  generateAuthTokens,
+  generateLoginTokens,
+  validateAccessToken,
+  revokeTokenFamily,
   createSession,
   validateSessionToken,
   invalidateSession,
@@ -0,0 +1,260 @@
+import httpStatus from "http-status";
+import { TwoFactor } from "@prisma/client";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import ApiError from "../utils/ApiError.js";
+
+const TOTP_INTERVAL_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Hash a recovery code
+ * @param {string} code
+ * @returns {Promise<string>}
+ */
+const hashRecoveryCode = async (code: string): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  return encoding.encodeHexLowerCase(
+    sha256(new TextEncoder().encode(code.toLowerCase()))
+  );
+};
+
+/**
+ * Get the two-factor settings of a user
+ * @param {string} userId
+ * @returns {Promise<TwoFactor | null>}
+ */
+const getTwoFactorByUserId = async (
+  userId: string
+): Promise<TwoFactor | null> => {
+  return prisma.twoFactor.findUnique({ where: { userId } });
+};
+
+/**
+ * Check whether a user has confirmed two-factor authentication
+ * @param {string} userId
+ * @returns {Promise<boolean>}
+ */
+const isTwoFactorEnabled = async (userId: string): Promise<boolean> => {
+  const twoFactor = await getTwoFactorByUserId(userId);
+  return !!twoFactor?.enabled;
+};
+
+/**
+ * Start two-factor enrollment by issuing a new TOTP secret
+ * @param {Object} user
+ * @returns {Promise<{ secret: string; uri: string }>}
+ */
+const enroll = async (user: {
+  id: string;
+  email: string;
+}): Promise<{ secret: string; uri: string }> => {
+  if (await isTwoFactorEnabled(user.id)) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor authentication is already enabled"
+    );
+  }
+  const encoding = await import("@oslojs/encoding");
+  const { createTOTPKeyURI } = await import("@oslojs/otp");
+
+  const key = new Uint8Array(20);
+  crypto.getRandomValues(key);
+  const secret = encoding.encodeBase32UpperCaseNoPadding(key);
+  await prisma.twoFactor.upsert({
+    where: { userId: user.id },
+    create: { userId: user.id, secret },
+    update: { secret, enabled: false, lastUsedStep: null },
+  });
+  const uri = createTOTPKeyURI(
+    config.twoFactor.issuer,
+    user.email,
+    key,
+    TOTP_INTERVAL_SECONDS,
+    TOTP_DIGITS
+  );
+  return { secret, uri };
+};
+
+/**
+ * Find the time step of a TOTP code, accepting the steps before and after
+ * the current one to allow for clock drift
+ * @param {string} secret
+ * @param {string} code
+ * @returns {Promise<number | null>} null when the code matches no step
+ */
+const findCodeStep = async (
+  secret: string,
+  code: string
+): Promise<number | null> => {
+  const encoding = await import("@oslojs/encoding");
+  const { verifyHOTP } = await import("@oslojs/otp");
+
+  const key = encoding.decodeBase32IgnorePadding(secret);
+  const currentStep = Math.floor(Date.now() / (TOTP_INTERVAL_SECONDS * 1000));
+  for (let step = currentStep - 1; step <= currentStep + 1; step += 1) {
+    if (verifyHOTP(key, BigInt(step), TOTP_DIGITS, code)) {
+      return step;
+    }
+  }
+  return null;
+};
+
+/**
+ * Verify a TOTP code and use up its time step, so neither the code nor an
+ * older one is accepted again
+ * @param {TwoFactor} twoFactor
+ * @param {string} code
+ * @returns {Promise<boolean>}
+ */
+const useCode = async (
+  twoFactor: TwoFactor,
+  code: string
+): Promise<boolean> => {
+  const step = await findCodeStep(twoFactor.secret, code);
+  if (step === null) {
+    return false;
+  }
+  // checked and set in one query so two requests with the same code cannot
+  // both succeed
+  const { count } = await prisma.twoFactor.updateMany({
+    where: {
+      userId: twoFactor.userId,
+      OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+    },
+    data: { lastUsedStep: step },
+  });
+  return count > 0;
+};
+
+/**
+ * Replace the recovery codes of a user
+ * @param {string} userId
+ * @returns {Promise<string[]>}
+ */
+const generateRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const encoding = await import("@oslojs/encoding");
+
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = new Uint8Array(5);
+    crypto.getRandomValues(bytes);
+    return encoding.encodeBase32LowerCaseNoPadding(bytes);
+  });
+  const hashedCodes = await Promise.all(codes.map(hashRecoveryCode));
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: hashedCodes.map((code) => ({ userId, code })),
+    }),
+  ]);
+  return codes;
+};
+
+/**
+ * Confirm enrollment with a first TOTP code
+ * @param {string} userId
+ * @param {string} code
+ * @returns {Promise<string[]>} the recovery codes
+ */
+const confirm = async (userId: string, code: string): Promise<string[]> => {
+  const twoFactor = await getTwoFactorByUserId(userId);
+  if (!twoFactor) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor enrollment has not been started"
+    );
+  }
+  if (twoFactor.enabled) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor authentication is already enabled"
+    );
+  }
+  if (!(await useCode(twoFactor, code))) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid two-factor code");
+  }
+  await prisma.twoFactor.update({
+    where: { userId },
+    data: { enabled: true },
+  });
+  return generateRecoveryCodes(userId);
+};
+
+/**
+ * Check a TOTP code for a user with two-factor authentication enabled
+ * @param {string} userId
+ * @param {string} code
+ * @returns {Promise<void>}
+ */
+const assertValidCode = async (userId: string, code: string): Promise<void> => {
+  const twoFactor = await getTwoFactorByUserId(userId);
+  if (!twoFactor?.enabled) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      "Two-factor authentication is not enabled"
+    );
+  }
+  if (!(await useCode(twoFactor, code))) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, "Invalid two-factor code");
+  }
+};
+
+/**
+ * Consume an unused recovery code
+ * @param {string} userId
+ * @param {string} code
+ * @returns {Promise<boolean>}
+ */
+const useRecoveryCode = async (
+  userId: string,
+  code: string
+): Promise<boolean> => {
+  const hashedCode = await hashRecoveryCode(code);
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, code: hashedCode, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0;
+};
+
+/**
+ * Regenerate recovery codes after checking a TOTP code
+ * @param {string} userId
+ * @param {string} code
+ * @returns {Promise<string[]>}
+ */
+const regenerateRecoveryCodes = async (
+  userId: string,
+  code: string
+): Promise<string[]> => {
+  await assertValidCode(userId, code);
+  return generateRecoveryCodes(userId);
+};
+
+/**
+ * Disable two-factor authentication after checking a TOTP code
+ * @param {string} userId
+ * @param {string} code
+ * @returns {Promise<void>}
+ */
+const disable = async (userId: string, code: string): Promise<void> => {
+  await assertValidCode(userId, code);
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactor.delete({ where: { userId } }),
+  ]);
+};
+
+export default {
+  getTwoFactorByUserId,
+  isTwoFactorEnabled,
+  enroll,
+  useCode,
+  confirm,
+  useRecoveryCode,
+  regenerateRecoveryCodes,
+  disable,
+};
@@ -2,57 +2,79 @@ import { User, Role, Prisma } from "@prisma/client";
 import httpStatus from "http-status";
 import prisma from "../client.js";
 import ApiError from "../utils/ApiError.js";
-import { encryptPassword } from "../utils/encryption.js";
+import {
+  currentPasswordHashParameters,
+  describePasswordHash,
+  encryptPassword,
+} from "../utils/encryption.js";
 import { generateUserID } from "../utils/id.js";
+import passwordPolicyService from "./passwordPolicy.service.js";
+import sessionService, { CurrentLogin } from "./session.service.js";
+import emailService from "./email.service.js";
+import logger from "../config/logger.js";
 
 /**
  * Create a user
- * @param {Object} userBody
+ * @param {string} name
+ * @param {string} email
+ * @param {string} [password] - users signing in with an external provider have none
+ * @param {Role} [role]
+ * @param {boolean} [isEmailVerified]
  * @returns {Promise<User>}
  */
 const createUser = async (
   name: string,
   email: string,
-  password: string,
-  role: Role = Role.USER
+  password?: string,
+  role: Role = Role.USER,
+  isEmailVerified = false
 ): Promise<User> => {
   if (await getUserByEmail(email)) {
     throw new ApiError(httpStatus.BAD_REQUEST, "Email already taken");
   }
+  if (password) {
+    await passwordPolicyService.assertPasswordAllowed(password, {
+      email,
+      name,
+    });
+  }
   const id = await generateUserID(16);
-  return prisma.user.create({
+  const user = await prisma.user.create({
     data: {
       id,
       name,
       email,
-      password: await encryptPassword(password),
+      password: password ? await encryptPassword(password) : null,
       role,
+      isEmailVerified,
     },
   });
+  if (user.password) {
+    await passwordPolicyService.recordPasswordHistory(user.id, user.password);
+  }
+  return user;
 };
 
 /**
  * Query for users
  * @param {Object} filter - Prisma filter
  * @param {Object} options - Query options
- * @param {string} [options.sortBy] - Sort option in the format: sortField:(desc|asc)
+ * @param {Object[]} [options.orderBy] - Prisma order, by each field in turn
  * @param {number} [options.limit] - Maximum number of results per page (default = 10)
  * @param {number} [options.page] - Current page (default = 1)
  * @returns {Promise<QueryResult>}
  */
 const queryUsers = async <Key extends keyof User>(
-  filter: object,
+  filter: Prisma.UserWhereInput,
   options: {
     limit?: number;
     page?: number;
-    sortBy?: string;
-    sortType?: "asc" | "desc";
+    orderBy?: Prisma.UserOrderByWithRelationInput[];
   },
   keys: Key[] = [
     "id",
     "email",
     "name",
-    "password",
     "role",
     "isEmailVerified",
     "createdAt",
@@ -61,14 +83,12 @@ const queryUsers = async <Key extends keyof User>(
 ): Promise<Pick<User, Key>[]> => {
   const page = options.page ?? 1;
   const limit = options.limit ?? 10;
-  const sortBy = options.sortBy;
-  const sortType = options.sortType ?? "desc";
   const users = await prisma.user.findMany({
     where: filter,
     select: keys.reduce((obj, k) => ({ ...obj, [k]: true }), {}),
-    skip: page * limit,
+    skip: (page - 1) * limit,
     take: limit,
-    orderBy: sortBy ? { [sortBy]: sortType } : undefined,
+    orderBy: options.orderBy,
   });
   return users as Pick<User, Key>[];
 };
@@ -85,7 +105,6 @@ const getUserById = async <Key extends keyof User>(
     "id",
     "email",
     "name",
-    "password",
     "role",
     "isEmailVerified",
     "createdAt",
@@ -110,7 +129,6 @@ const getUserByEmail = async <Key extends keyof User>(
     "id",
     "email",
     "name",
-    "password",
     "role",
     "isEmailVerified",
     "createdAt",
@@ -127,12 +145,15 @@ const getUserByEmail = async <Key extends keyof User>(
  * Update user by id
  * @param {ObjectId} userId
  * @param {Object} updateBody
+ * @param {Array<Key>} [keys]
+ * @param {CurrentLogin} [keepLogin] - the login that survives a password change
  * @returns {Promise<User>}
  */
 const updateUserById = async <Key extends keyof User>(
   userId: string,
   updateBody: Prisma.UserUpdateInput,
-  keys: Key[] = ["id", "email", "name", "role"] as Key[]
+  keys: Key[] = ["id", "email", "name", "role"] as Key[],
+  keepLogin?: CurrentLogin
 ): Promise<Pick<User, Key> | null> => {
   const user = await getUserById(userId, ["id", "email", "name"]);
   if (!user) {
@@ -141,12 +162,37 @@ const updateUserById = async <Key extends keyof User>(
   if (updateBody.email && (await getUserByEmail(updateBody.email as string))) {
     throw new ApiError(httpStatus.BAD_REQUEST, "Email already taken");
   }
-  updateBody.password = await encryptPassword(updateBody.password as string);
+  if (updateBody.email && updateBody.isEmailVerified === undefined) {
+    // nobody has proven control of the new address yet
+    updateBody.isEmailVerified = false;
+  }
+  if (updateBody.password) {
+    await passwordPolicyService.assertPasswordAllowed(
+      updateBody.password as string,
+      {
+        email: (updateBody.email as string | undefined) ?? user.email,
+        name: (updateBody.name as string | undefined) ?? user.name,
+        userId: user.id,
+      }
+    );
+    updateBody.password = await encryptPassword(updateBody.password as string);
+  }
   const updatedUser = await prisma.user.update({
     where: { id: user.id },
     data: updateBody,
     select: keys.reduce((obj, k) => ({ ...obj, [k]: true }), {}),
   });
+  if (updateBody.password) {
+    await passwordPolicyService.recordPasswordHistory(
+      user.id,
+      updateBody.password as string
+    );
+    // logins made with the old password must not survive the change
+    await sessionService.revokeLogins(user.id, keepLogin);
+    emailService
+      .sendPasswordChangedEmail(user.email)
+      .catch((error) => logger.warn(error));
+  }
   return updatedUser as Pick<User, Key> | null;
 };
 
@@ -164,6 +210,60 @@ const deleteUserById = async (userId: string): Promise<User> => {
   return user;
 };
 
+/**
+ * Count users by the algorithm and parameters of their password hash
+ * @returns {Promise<PasswordHashReport>}
+ */
+const getPasswordHashReport = async (): Promise<PasswordHashReport> => {
+  const current = currentPasswordHashParameters();
+  const counts = new Map<string, number>();
+  let withoutPassword = 0;
+  let cursor: string | undefined;
+  // walk the users in batches so the whole table is never loaded at once
+  for (;;) {
+    const users = await prisma.user.findMany({
+      select: { id: true, password: true },
+      orderBy: { id: "asc" },
+      take: 500,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+    for (const user of users) {
+      if (!user.password) {
+        withoutPassword += 1;
+        continue;
+      }
+      const parameters = describePasswordHash(user.password);
+      counts.set(parameters, (counts.get(parameters) ?? 0) + 1);
+    }
+    if (users.length < 500) {
+      break;
+    }
+    cursor = users[users.length - 1].id;
+  }
+  const hashes = [...counts.entries()].map(([parameters, count]) => ({
+    parameters,
+    count,
+    current: parameters === current,
+  }));
+  return {
+    current,
+    upToDate: counts.get(current) ?? 0,
+    outdated: hashes
+      .filter((hash) => !hash.current)
+      .reduce((sum, hash) => sum + hash.count, 0),
+    withoutPassword,
+    hashes,
+  };
+};
+
+export interface PasswordHashReport {
+  current: string;
+  upToDate: number;
+  outdated: number;
+  withoutPassword: number;
+  hashes: { parameters: string; count: number; current: boolean }[];
+}
+
 export default {
   createUser,
   queryUsers,
@@ -171,4 +271,5 @@ export default {
   getUserByEmail,
   updateUserById,
   deleteUserById,
+  getPasswordHashReport,
 };
@@ -0,0 +1,432 @@
+import httpStatus from "http-status";
+import { User, WebAuthnCredential } from "@prisma/client";
+import prisma from "../client.js";
+import config from "../config/config.js";
+import ApiError from "../utils/ApiError.js";
+import userService from "./user.service.js";
+
+const CHALLENGE_TIMEOUT_MS = 1000 * 60 * 5;
+const COSE_ALGORITHM_ES256 = -7;
+const COSE_ALGORITHM_RS256 = -257;
+
+export interface RegistrationResponse {
+  clientDataJSON: string;
+  attestationObject: string;
+  transports?: string[];
+}
+
+export interface AuthenticationResponse {
+  credentialId: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+  userHandle?: string;
+}
+
+/**
+ * Hash a challenge before it is stored
+ * @param {Uint8Array} challenge
+ * @returns {Promise<string>}
+ */
+const hashChallenge = async (challenge: Uint8Array): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  return encoding.encodeHexLowerCase(sha256(challenge));
+};
+
+/**
+ * Create and store a single-use ceremony challenge
+ * @param {string} [userId]
+ * @returns {Promise<Uint8Array>}
+ */
+const createChallenge = async (userId?: string): Promise<Uint8Array> => {
+  const challenge = new Uint8Array(32);
+  crypto.getRandomValues(challenge);
+  await prisma.webAuthnChallenge.create({
+    data: {
+      id: await hashChallenge(challenge),
+      userId,
+      expiresAt: new Date(Date.now() + CHALLENGE_TIMEOUT_MS),
+    },
+  });
+  return challenge;
+};
+
+/**
+ * Consume a challenge, returning false if it is unknown, expired or already used
+ * @param {Uint8Array} challenge
+ * @param {string} [userId]
+ * @returns {Promise<boolean>}
+ */
+const consumeChallenge = async (
+  challenge: Uint8Array,
+  userId?: string
+): Promise<boolean> => {
+  const { count } = await prisma.webAuthnChallenge.deleteMany({
+    where: {
+      id: await hashChallenge(challenge),
+      userId: userId ?? null,
+      expiresAt: { gt: new Date() },
+    },
+  });
+  return count > 0;
+};
+
+/**
+ * Encode a user id as a WebAuthn user handle
+ * @param {string} userId
+ * @returns {Promise<string>}
+ */
+const encodeUserHandle = async (userId: string): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  return encoding.encodeBase64urlNoPadding(new TextEncoder().encode(userId));
+};
+
+/**
+ * Parse and check client data shared by both ceremonies
+ * @param {Uint8Array} clientDataJSON
+ * @param {string} type
+ * @param {string} [userId]
+ * @returns {Promise<boolean>}
+ */
+const verifyClientData = async (
+  clientDataJSON: Uint8Array,
+  type: "create" | "get",
+  userId?: string
+): Promise<boolean> => {
+  const { parseClientDataJSON, ClientDataType } = await import(
+    "@oslojs/webauthn"
+  );
+  const clientData = parseClientDataJSON(clientDataJSON);
+  const expectedType =
+    type === "create" ? ClientDataType.Create : ClientDataType.Get;
+  if (clientData.type !== expectedType) {
+    return false;
+  }
+  if (!config.webauthn.origins.includes(clientData.origin)) {
+    return false;
+  }
+  if (clientData.crossOrigin) {
+    return false;
+  }
+  return consumeChallenge(clientData.challenge, userId);
+};
+
+/**
+ * Generate options for navigator.credentials.create()
+ * @param {Object} user
+ * @returns {Promise<Object>}
+ */
+const generateRegistrationOptions = async (user: {
+  id: string;
+  email: string;
+  name: string;
+}) => {
+  const encoding = await import("@oslojs/encoding");
+  const challenge = await createChallenge(user.id);
+  const credentials = await prisma.webAuthnCredential.findMany({
+    where: { userId: user.id },
+    select: { id: true, transports: true },
+  });
+  return {
+    challenge: encoding.encodeBase64urlNoPadding(challenge),
+    rp: { id: config.webauthn.rpId, name: config.webauthn.rpName },
+    user: {
+      id: await encodeUserHandle(user.id),
+      name: user.email,
+      displayName: user.name,
+    },
+    pubKeyCredParams: [
+      { type: "public-key", alg: COSE_ALGORITHM_ES256 },
+      { type: "public-key", alg: COSE_ALGORITHM_RS256 },
+    ],
+    excludeCredentials: credentials.map((credential) => ({
+      type: "public-key",
+      id: credential.id,
+      transports: credential.transports,
+    })),
+    authenticatorSelection: {
+      residentKey: "required",
+      userVerification: "preferred",
+    },
+    attestation: "none",
+    timeout: CHALLENGE_TIMEOUT_MS,
+  };
+};
+
+/**
+ * Verify an attestation and store the new credential
+ * @param {string} userId
+ * @param {RegistrationResponse} response
+ * @param {string} [name]
+ * @returns {Promise<WebAuthnCredential>}
+ */
+const verifyRegistration = async (
+  userId: string,
+  response: RegistrationResponse,
+  name?: string
+): Promise<WebAuthnCredential> => {
+  const encoding = await import("@oslojs/encoding");
+  const webauthn = await import("@oslojs/webauthn");
+  const { ECDSAPublicKey, p256 } = await import("@oslojs/crypto/ecdsa");
+  const { RSAPublicKey } = await import("@oslojs/crypto/rsa");
+
+  let attestation;
+  let isClientDataValid;
+  try {
+    isClientDataValid = await verifyClientData(
+      encoding.decodeBase64urlIgnorePadding(response.clientDataJSON),
+      "create",
+      userId
+    );
+    attestation = webauthn.parseAttestationObject(
+      encoding.decodeBase64urlIgnorePadding(response.attestationObject)
+    );
+  } catch (error) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Invalid passkey registration");
+  }
+  const { attestationStatement, authenticatorData } = attestation;
+  if (
+    !isClientDataValid ||
+    attestationStatement.format !== webauthn.AttestationStatementFormat.None ||
+    !authenticatorData.verifyRelyingPartyIdHash(config.webauthn.rpId) ||
+    !authenticatorData.userPresent ||
+    authenticatorData.credential === null
+  ) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Invalid passkey registration");
+  }
+
+  const { credential } = authenticatorData;
+  let algorithm: number;
+  let publicKey: Uint8Array;
+  try {
+    algorithm = credential.publicKey.algorithm();
+    if (algorithm === COSE_ALGORITHM_ES256) {
+      const { x, y, curve } = credential.publicKey.ec2();
+      if (curve !== webauthn.coseEllipticCurveP256) {
+        throw new Error("Unsupported curve");
+      }
+      publicKey = new ECDSAPublicKey(p256, x, y).encodeSEC1Uncompressed();
+    } else if (algorithm === COSE_ALGORITHM_RS256) {
+      const { n, e } = credential.publicKey.rsa();
+      publicKey = new RSAPublicKey(n, e).encodePKCS1();
+    } else {
+      throw new Error("Unsupported algorithm");
+    }
+  } catch (error) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Unsupported passkey algorithm");
+  }
+
+  const credentialId = encoding.encodeBase64urlNoPadding(credential.id);
+  const existingCredential = await prisma.webAuthnCredential.findUnique({
+    where: { id: credentialId },
+  });
+  if (existingCredential) {
+    throw new ApiError(httpStatus.BAD_REQUEST, "Passkey already registered");
+  }
+  return prisma.webAuthnCredential.create({
+    data: {
+      id: credentialId,
+      userId,
+      name,
+      algorithm,
+      publicKey: Buffer.from(publicKey),
+      signCount: authenticatorData.signatureCounter,
+      transports: response.transports ?? [],
+    },
+  });
+};
+
+/**
+ * Generate options for navigator.credentials.get()
+ * @returns {Promise<Object>}
+ */
+const generateAuthenticationOptions = async () => {
+  const encoding = await import("@oslojs/encoding");
+  const challenge = await createChallenge();
+  return {
+    challenge: encoding.encodeBase64urlNoPadding(challenge),
+    rpId: config.webauthn.rpId,
+    userVerification: "preferred",
+    timeout: CHALLENGE_TIMEOUT_MS,
+  };
+};
+
+/**
+ * Verify an assertion signature against a stored public key
+ * @param {WebAuthnCredential} credential
+ * @param {Uint8Array} message
+ * @param {Uint8Array} signature
+ * @returns {Promise<boolean>}
+ */
+const verifySignature = async (
+  credential: WebAuthnCredential,
+  message: Uint8Array,
+  signature: Uint8Array
+): Promise<boolean> => {
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+  const ecdsa = await import("@oslojs/crypto/ecdsa");
+  const rsa = await import("@oslojs/crypto/rsa");
+
+  const hash = sha256(message);
+  const publicKey = new Uint8Array(credential.publicKey);
+  if (credential.algorithm === COSE_ALGORITHM_ES256) {
+    return ecdsa.verifyECDSASignature(
+      ecdsa.decodeSEC1PublicKey(ecdsa.p256, publicKey),
+      hash,
+      ecdsa.decodePKIXECDSASignature(signature)
+    );
+  }
+  if (credential.algorithm === COSE_ALGORITHM_RS256) {
+    return rsa.verifyRSASSAPKCS1v15Signature(
+      rsa.decodePKCS1RSAPublicKey(publicKey),
+      rsa.sha256ObjectIdentifier,
+      hash,
+      signature
+    );
+  }
+  return false;
+};
+
+/**
+ * Verify an assertion and return the user it authenticates
+ * @param {AuthenticationResponse} response
+ * @returns {Promise<Omit<User, 'password'>>}
+ */
+const verifyAuthentication = async (
+  response: AuthenticationResponse
+): Promise<Omit<User, "password">> => {
+  const encoding = await import("@oslojs/encoding");
+  const webauthn = await import("@oslojs/webauthn");
+
+  const credential = await prisma.webAuthnCredential.findUnique({
+    where: { id: response.credentialId },
+  });
+  if (!credential) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Passkey authentication failed"
+    );
+  }
+  if (
+    response.userHandle &&
+    response.userHandle !== (await encodeUserHandle(credential.userId))
+  ) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Passkey authentication failed"
+    );
+  }
+
+  let isValid = false;
+  let authenticatorData;
+  try {
+    const clientDataJSON = encoding.decodeBase64urlIgnorePadding(
+      response.clientDataJSON
+    );
+    const authenticatorDataBytes = encoding.decodeBase64urlIgnorePadding(
+      response.authenticatorData
+    );
+    authenticatorData = webauthn.parseAuthenticatorData(authenticatorDataBytes);
+    isValid =
+      (await verifyClientData(clientDataJSON, "get")) &&
+      authenticatorData.verifyRelyingPartyIdHash(config.webauthn.rpId) &&
+      authenticatorData.userPresent &&
+      (await verifySignature(
+        credential,
+        webauthn.createAssertionSignatureMessage(
+          authenticatorDataBytes,
+          clientDataJSON
+        ),
+        encoding.decodeBase64urlIgnorePadding(response.signature)
+      ));
+  } catch (error) {
+    isValid = false;
+  }
+  if (!isValid || !authenticatorData) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Passkey authentication failed"
+    );
+  }
+
+  // a counter that does not move forward indicates a cloned authenticator
+  const { signatureCounter } = authenticatorData;
+  if (
+    (signatureCounter !== 0 || credential.signCount !== 0) &&
+    signatureCounter <= credential.signCount
+  ) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Passkey authentication failed"
+    );
+  }
+  await prisma.webAuthnCredential.update({
+    where: { id: credential.id },
+    data: { signCount: signatureCounter, lastUsedAt: new Date() },
+  });
+
+  const user = await userService.getUserById(credential.userId, [
+    "id",
+    "email",
+    "name",
+    "role",
+    "isEmailVerified",
+    "createdAt",
+    "updatedAt",
+  ]);
+  if (!user) {
+    throw new ApiError(
+      httpStatus.UNAUTHORIZED,
+      "Passkey authentication failed"
+    );
+  }
+  return user;
+};
+
+/**
+ * List the passkeys of a user
+ * @param {string} userId
+ * @returns {Promise<Object[]>}
+ */
+const queryCredentials = async (userId: string) => {
+  return prisma.webAuthnCredential.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      name: true,
+      transports: true,
+      createdAt: true,
+      lastUsedAt: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+};
+
+/**
+ * Delete a passkey of a user
+ * @param {string} userId
+ * @param {string} credentialId
+ * @returns {Promise<void>}
+ */
+const deleteCredential = async (
+  userId: string,
+  credentialId: string
+): Promise<void> => {
+  const { count } = await prisma.webAuthnCredential.deleteMany({
+    where: { id: credentialId, userId },
+  });
+  if (!count) {
+    throw new ApiError(httpStatus.NOT_FOUND, "Passkey not found");
+  }
+};
+
+export default {
+  generateRegistrationOptions,
+  verifyRegistration,
+  generateAuthenticationOptions,
+  verifyAuthentication,
+  queryCredentials,
+  deleteCredential,
+};
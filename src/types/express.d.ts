@@ -1,7 +1,19 @@
 import "express";
+import { ApiKey, Session } from "@prisma/client";
+import { ServicePrincipal } from "../services/oauthServer.service";
 
 declare module "express" {
   interface Request {
     user?: any;
+    session?: Session;
+    apiKey?: ApiKey;
+    client?: ServicePrincipal;
+    // the refresh token family of the access token the request is made with
+    tokenFamily?: string;
+    // when the user last entered their credentials for this session or token
+    authenticatedAt?: Date;
+    // the rights the request was checked against, set on routes that need
+    // rights or a policy
+    rights?: string[];
   }
 }
@@ -1,6 +1,8 @@
 class ApiError extends Error {
   statusCode: number;
   isOperational: boolean;
+  // extra fields sent along with the code and message
+  details?: Record<string, unknown>;
 
   constructor(statusCode: number, message: string | undefined, isOperational = true, stack = '') {
     super(message);
@@ -1,10 +1,106 @@
 import bcrypt from 'bcryptjs';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import config from '../config/config.js';
+
+export type PasswordHashAlgorithm = 'bcrypt' | 'scrypt';
+
+interface PasswordHasher {
+  // whether a stored hash was produced by this hasher
+  owns: (hash: string) => boolean;
+  hash: (password: string) => Promise<string>;
+  verify: (password: string, hash: string) => Promise<boolean>;
+  // the algorithm and cost parameters encoded in a hash, e.g. "bcrypt$cost=8"
+  describe: (hash: string) => string;
+}
+
+const bcryptHasher: PasswordHasher = {
+  owns: (hash) => /^\$2[abxy]?\$\d{2}\$/.test(hash),
+  hash: (password) => bcrypt.hash(password, config.passwordHash.bcrypt.cost),
+  verify: (password, hash) => bcrypt.compare(password, hash),
+  describe: (hash) => `bcrypt$cost=${bcrypt.getRounds(hash)}`
+};
+
+const scryptKey = (password: string, salt: Buffer, params: { ln: number; r: number; p: number }) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const N = 2 ** params.ln;
+    scrypt(
+      password,
+      salt,
+      32,
+      { N, r: params.r, p: params.p, maxmem: 256 * N * params.r },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+
+// PHC string format: $scrypt$ln=<log2 N>,r=<block size>,p=<parallelism>$<salt>$<key>
+const parseScryptHash = (hash: string) => {
+  const [, , params, salt, key] = hash.split('$');
+  const values = Object.fromEntries(params.split(',').map((param) => param.split('=')));
+  return {
+    params: { ln: Number(values.ln), r: Number(values.r), p: Number(values.p) },
+    salt: Buffer.from(salt, 'base64'),
+    key: Buffer.from(key, 'base64')
+  };
+};
+
+const scryptHasher: PasswordHasher = {
+  owns: (hash) => hash.startsWith('$scrypt$'),
+  hash: async (password) => {
+    const params = config.passwordHash.scrypt;
+    const salt = randomBytes(16);
+    const key = await scryptKey(password, salt, params);
+    // PHC strings use base64 without padding
+    const encode = (bytes: Buffer) => bytes.toString('base64').replace(/=+$/, '');
+    return `$scrypt$ln=${params.ln},r=${params.r},p=${params.p}$${encode(salt)}$${encode(key)}`;
+  },
+  verify: async (password, hash) => {
+    const { params, salt, key } = parseScryptHash(hash);
+    const derivedKey = await scryptKey(password, salt, params);
+    return derivedKey.length === key.length && timingSafeEqual(derivedKey, key);
+  },
+  describe: (hash) => {
+    const { params } = parseScryptHash(hash);
+    return `scrypt$ln=${params.ln},r=${params.r},p=${params.p}`;
+  }
+};
+
+const hashers: Record<PasswordHashAlgorithm, PasswordHasher> = {
+  bcrypt: bcryptHasher,
+  scrypt: scryptHasher
+};
+
+const findHasher = (hash: string) => Object.values(hashers).find((hasher) => hasher.owns(hash));
 
 export const encryptPassword = async (password: string) => {
-  const encryptedPassword = await bcrypt.hash(password, 8);
+  const encryptedPassword = await hashers[config.passwordHash.algorithm].hash(password);
   return encryptedPassword;
 };
 
 export const isPasswordMatch = async (password: string, userPassword: string) => {
-  return bcrypt.compare(password, userPassword);
+  const hasher = findHasher(userPassword);
+  return hasher ? hasher.verify(password, userPassword) : false;
+};
+
+/**
+ * The algorithm and cost parameters of a stored hash, or "unknown"
+ */
+export const describePasswordHash = (userPassword: string) => {
+  return findHasher(userPassword)?.describe(userPassword) ?? 'unknown';
+};
+
+/**
+ * The parameters new hashes are created with
+ */
+export const currentPasswordHashParameters = () => {
+  const { algorithm, bcrypt: bcryptParams, scrypt: scryptParams } = config.passwordHash;
+  return algorithm === 'bcrypt'
+    ? `bcrypt$cost=${bcryptParams.cost}`
+    : `scrypt$ln=${scryptParams.ln},r=${scryptParams.r},p=${scryptParams.p}`;
+};
+
+/**
+ * Whether a stored hash uses another algorithm or other parameters than new hashes
+ */
+export const needsRehash = (userPassword: string) => {
+  return describePasswordHash(userPassword) !== currentPasswordHashParameters();
 };
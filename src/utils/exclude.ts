@@ -1,14 +1,15 @@
 /**
- * Exclude keys from object
+ * Copy an object without some of its keys, leaving the object unchanged
  * @param obj
  * @param keys
  * @returns
  */
 const exclude = <Type, Key extends keyof Type>(obj: Type, keys: Key[]): Omit<Type, Key> => {
+  const copy = { ...obj };
   for (const key of keys) {
-    delete obj[key];
+    delete copy[key];
   }
-  return obj;
+  return copy;
 };
 
 export default exclude;
@@ -0,0 +1,191 @@
+import httpStatus from "http-status";
+import ApiError from "./ApiError.js";
+
+export type FilterOperator = "eq" | "ne" | "in" | "contains" | "gt" | "lt";
+
+export type FilterField =
+  | { type: "string" }
+  | { type: "boolean" }
+  | { type: "date" }
+  | { type: "enum"; values: string[] };
+
+/**
+ * What a list endpoint lets clients filter, search and sort on
+ */
+export interface ListQuerySpec {
+  filters: Record<string, FilterField>;
+  // the fields the free-text q parameter searches
+  search?: string[];
+  sortable: string[];
+}
+
+export interface ListQuery {
+  where: Record<string, unknown>;
+  orderBy?: Record<string, "asc" | "desc">[];
+}
+
+const operators: Record<FilterField["type"], FilterOperator[]> = {
+  string: ["eq", "ne", "in", "contains"],
+  enum: ["eq", "ne", "in"],
+  boolean: ["eq", "ne"],
+  date: ["eq", "ne", "gt", "lt"],
+};
+
+// the Prisma filter of each operator
+const prismaOperators: Record<FilterOperator, string> = {
+  eq: "equals",
+  ne: "not",
+  in: "in",
+  contains: "contains",
+  gt: "gt",
+  lt: "lt",
+};
+
+// query parameters that are not filters
+const reserved = ["q", "sortBy", "limit", "page"];
+
+const badRequest = (message: string) =>
+  new ApiError(httpStatus.BAD_REQUEST, message);
+
+/**
+ * Convert one value of a filter to the type of its field
+ * @param {string} name - the parameter, for errors
+ * @param {FilterField} field
+ * @param {unknown} value
+ * @returns {string | boolean | Date}
+ */
+const parseValue = (name: string, field: FilterField, value: unknown) => {
+  if (typeof value !== "string") {
+    throw badRequest(`${name} must be a single value`);
+  }
+  switch (field.type) {
+    case "boolean":
+      if (value !== "true" && value !== "false") {
+        throw badRequest(`${name} must be true or false`);
+      }
+      return value === "true";
+    case "date": {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        throw badRequest(`${name} must be a date`);
+      }
+      return date;
+    }
+    case "enum":
+      if (!field.values.includes(value)) {
+        throw badRequest(`${name} must be one of ${field.values.join(", ")}`);
+      }
+      return value;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Build the Prisma filter of one field from its operators, e.g.
+ * createdAt[gt]=2024-01-01 or role[in]=USER,ADMIN. A plain value means eq.
+ * @param {string} fieldName
+ * @param {FilterField} field
+ * @param {unknown} param - the query parameter of the field
+ * @returns {Object}
+ */
+const parseFilter = (fieldName: string, field: FilterField, param: unknown) => {
+  if (Array.isArray(param)) {
+    throw badRequest(`Use ${fieldName}[in] to match several values`);
+  }
+  const conditions =
+    param !== null && typeof param === "object"
+      ? (param as Record<string, unknown>)
+      : { eq: param };
+  const filter: Record<string, unknown> = {};
+  for (const [operator, value] of Object.entries(conditions)) {
+    const name = `${fieldName}[${operator}]`;
+    if (!(operators[field.type] as string[]).includes(operator)) {
+      throw badRequest(
+        `${fieldName} supports ${operators[field.type].join(
+          ", "
+        )}, not ${operator}`
+      );
+    }
+    filter[prismaOperators[operator as FilterOperator]] =
+      operator === "in"
+        ? (Array.isArray(value) ? value : String(value).split(",")).map(
+            (item) => parseValue(name, field, item)
+          )
+        : parseValue(name, field, value);
+  }
+  return filter;
+};
+
+/**
+ * Parse sortBy, a comma-separated list of field:asc or field:desc
+ * @param {string} sortBy
+ * @param {string[]} sortable
+ * @returns {Object[]}
+ */
+const parseSort = (sortBy: string, sortable: string[]) =>
+  sortBy.split(",").map((part) => {
+    const [field, order = "asc", ...rest] = part.split(":");
+    if (!sortable.includes(field)) {
+      throw badRequest(
+        `Cannot sort by ${field || "an empty field"}, sort by ${sortable.join(
+          ", "
+        )}`
+      );
+    }
+    if (rest.length || (order !== "asc" && order !== "desc")) {
+      throw badRequest(`Sort ${field} by asc or desc`);
+    }
+    return { [field]: order as "asc" | "desc" };
+  });
+
+/**
+ * Turn the query string of a list endpoint into a Prisma filter and order.
+ * Every filter must hold, while q matches any of the search fields.
+ * @param {Object} query - the parsed query string
+ * @param {ListQuerySpec} spec
+ * @returns {ListQuery}
+ */
+export const parseListQuery = (
+  query: Record<string, unknown>,
+  spec: ListQuerySpec
+): ListQuery => {
+  const conditions: Record<string, unknown>[] = [];
+  for (const [fieldName, param] of Object.entries(query)) {
+    if (reserved.includes(fieldName)) {
+      continue;
+    }
+    const field = Object.hasOwnProperty.call(spec.filters, fieldName)
+      ? spec.filters[fieldName]
+      : undefined;
+    if (!field) {
+      throw badRequest(
+        `Cannot filter by ${fieldName}, filter by ${Object.keys(
+          spec.filters
+        ).join(", ")}`
+      );
+    }
+    conditions.push({ [fieldName]: parseFilter(fieldName, field, param) });
+  }
+  if (query.q !== undefined) {
+    if (!spec.search?.length) {
+      throw badRequest("This list cannot be searched");
+    }
+    if (typeof query.q !== "string") {
+      throw badRequest("q must be a single value");
+    }
+    const q = query.q;
+    conditions.push({
+      OR: spec.search.map((field) => ({ [field]: { contains: q } })),
+    });
+  }
+  if (query.sortBy !== undefined && typeof query.sortBy !== "string") {
+    throw badRequest("sortBy must be a single value");
+  }
+  return {
+    where: conditions.length ? { AND: conditions } : {},
+    ...(query.sortBy && {
+      orderBy: parseSort(query.sortBy as string, spec.sortable),
+    }),
+  };
+};
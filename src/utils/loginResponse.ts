@@ -0,0 +1,59 @@
+import httpStatus from "http-status";
+import { Request, Response } from "express";
+import { User } from "@prisma/client";
+import { deviceService, tokenService, twoFactorService } from "../services";
+import sessionMetadata from "./sessionMetadata.js";
+import { sendSessionCookie } from "./sessionCookie.js";
+import { pickVisible } from "./serialize.js";
+
+/**
+ * Log a user in without asking for a second factor: send login tokens and
+ * record the device
+ * @param {Request} req
+ * @param {Response} res
+ * @param {Omit<User, "password">} user
+ * @param {number} [status]
+ * @returns {Promise<void>}
+ */
+export const sendLoginTokens = async (
+  req: Request,
+  res: Response,
+  user: Omit<User, "password">,
+  status: number = httpStatus.OK
+): Promise<void> => {
+  const loginTokens = await tokenService.generateLoginTokens(
+    user,
+    sessionMetadata(req)
+  );
+  await deviceService.recordLogin(user, sessionMetadata(req));
+  res.status(status).send({
+    user: pickVisible("user", "self", user),
+    ...(await sendSessionCookie(res, loginTokens)),
+  });
+};
+
+/**
+ * Send login tokens, or a two-factor challenge when the account requires
+ * one. Password, magic link and social logins end here so none of them
+ * skips the second factor. Passkey logins call sendLoginTokens directly,
+ * as a passkey already proves possession and user verification, and so do
+ * invitations, whose new accounts cannot have a second factor yet.
+ * @param {Request} req
+ * @param {Response} res
+ * @param {Omit<User, "password">} user
+ * @returns {Promise<void>}
+ */
+export const sendLoginResponse = async (
+  req: Request,
+  res: Response,
+  user: Omit<User, "password">
+): Promise<void> => {
+  if (await twoFactorService.isTwoFactorEnabled(user.id)) {
+    const challengeToken = await tokenService.generateTwoFactorChallengeToken(
+      user
+    );
+    res.send({ twoFactorRequired: true, challengeToken });
+    return;
+  }
+  await sendLoginTokens(req, res, user);
+};
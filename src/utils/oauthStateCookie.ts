@@ -0,0 +1,43 @@
+import { CookieOptions, Request, Response } from "express";
+import config from "../config/config.js";
+
+// holds the state of the social login or link flow the browser started, so
+// a callback url made for someone else is rejected
+export const OAUTH_STATE_COOKIE_NAME = "oauth_state";
+
+// lax, as the provider sends the browser back with a cross-site redirect
+const cookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  sameSite: "lax",
+  secure: config.cookie.secure,
+  domain: config.cookie.domain,
+  path: "/",
+});
+
+/**
+ * Bind an OAuth state to the browser that starts the flow
+ * @param {Response} res
+ * @param {string} state
+ * @param {Date} expires - when the stored state expires
+ */
+export const setOAuthStateCookie = (
+  res: Response,
+  state: string,
+  expires: Date
+) => {
+  res.cookie(OAUTH_STATE_COOKIE_NAME, state, { ...cookieOptions(), expires });
+};
+
+/**
+ * Read and clear the OAuth state bound to the browser
+ * @param {Request} req
+ * @param {Response} res
+ * @returns {string | undefined}
+ */
+export const takeOAuthStateCookie = (
+  req: Request,
+  res: Response
+): string | undefined => {
+  res.clearCookie(OAUTH_STATE_COOKIE_NAME, cookieOptions());
+  return req.cookies?.[OAUTH_STATE_COOKIE_NAME];
+};
@@ -0,0 +1,24 @@
+import httpStatus from "http-status";
+import { Request } from "express";
+import ApiError from "./ApiError.js";
+
+// lets clients tell a stale login from a missing right and ask for the password
+export const REAUTHENTICATION_REQUIRED = "reauthentication_required";
+
+/**
+ * Throw unless the user of the request entered their credentials within the
+ * last minutes. API keys carry no such time and never pass.
+ * @param {Request} req
+ * @param {number} minutes
+ */
+export const assertRecentAuth = (req: Request, minutes: number): void => {
+  const authenticatedAt = req.authenticatedAt?.getTime() ?? 0;
+  if (Date.now() - authenticatedAt > minutes * 60 * 1000) {
+    const error = new ApiError(
+      httpStatus.FORBIDDEN,
+      "Please reauthenticate to continue"
+    );
+    error.details = { error: REAUTHENTICATION_REQUIRED };
+    throw error;
+  }
+};
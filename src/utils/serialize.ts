@@ -0,0 +1,58 @@
+import { Request } from "express";
+import { Audience, VisibleResource, visibility } from "../config/visibility.js";
+
+/**
+ * Keep only the fields of a resource an audience may see, without changing
+ * the resource
+ * @param {VisibleResource} resource
+ * @param {Audience} audience
+ * @param {Object} data
+ * @returns {Object}
+ */
+export const pickVisible = <T extends object>(
+  resource: VisibleResource,
+  audience: Audience,
+  data: T
+): Partial<T> => {
+  const fields: string[] = visibility[resource].fields[audience];
+  return Object.fromEntries(
+    Object.entries(data).filter(([key]) => fields.includes(key))
+  ) as Partial<T>;
+};
+
+/**
+ * Tell whether the user of the request owns the resource, may see it as an
+ * admin or is anyone else
+ * @param {Request} req
+ * @param {VisibleResource} resource
+ * @param {Object} data
+ * @returns {Audience}
+ */
+export const getAudience = (
+  req: Request,
+  resource: VisibleResource,
+  data: object
+): Audience => {
+  const { owner, adminPermission } = visibility[resource];
+  const ownerId = (data as Record<string, unknown>)[owner];
+  if (req.user && ownerId !== undefined && req.user.id === ownerId) {
+    return "self";
+  }
+  if (req.rights?.includes(adminPermission)) {
+    return "admin";
+  }
+  return "other";
+};
+
+/**
+ * Keep only the fields of a resource the requester may see
+ * @param {Request} req
+ * @param {VisibleResource} resource
+ * @param {Object} data
+ * @returns {Object}
+ */
+export const serialize = <T extends object>(
+  req: Request,
+  resource: VisibleResource,
+  data: T
+): Partial<T> => pickVisible(resource, getAudience(req, resource, data), data);
@@ -0,0 +1,123 @@
+import { timingSafeEqual } from "crypto";
+import { CookieOptions, Request, Response } from "express";
+import config from "../config/config.js";
+import { LoginTokens } from "../services/token.service.js";
+
+// names axios and Angular use for double-submit CSRF out of the box
+export const CSRF_COOKIE_NAME = "XSRF-TOKEN";
+export const CSRF_HEADER_NAME = "x-xsrf-token";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// new sessions last 30 days, the cookie is renewed as the session slides
+const SESSION_COOKIE_MAX_AGE_MS = 1000 * 60 * 60 * 24 * 30;
+
+const cookieOptions = (): CookieOptions => ({
+  sameSite: config.cookie.sameSite,
+  secure: config.cookie.secure,
+  domain: config.cookie.domain,
+  path: "/",
+});
+
+/**
+ * Derive the CSRF token bound to a session token. Only someone who can read
+ * the HttpOnly session cookie can compute it.
+ * @param {string} sessionToken
+ * @returns {Promise<string>}
+ */
+export const generateCsrfToken = async (
+  sessionToken: string
+): Promise<string> => {
+  const encoding = await import("@oslojs/encoding");
+  const { sha256 } = await import("@oslojs/crypto/sha2");
+
+  return encoding.encodeHexLowerCase(
+    sha256(new TextEncoder().encode(`csrf:${sessionToken}`))
+  );
+};
+
+/**
+ * Check the CSRF header of a cookie authenticated request
+ * @param {Request} req
+ * @param {string} sessionToken
+ * @returns {Promise<boolean>}
+ */
+export const hasValidCsrfToken = async (
+  req: Request,
+  sessionToken: string
+): Promise<boolean> => {
+  if (SAFE_METHODS.includes(req.method)) {
+    return true;
+  }
+  const csrfToken = Buffer.from(req.get(CSRF_HEADER_NAME) ?? "");
+  const expected = Buffer.from(await generateCsrfToken(sessionToken));
+  return (
+    csrfToken.length === expected.length && timingSafeEqual(csrfToken, expected)
+  );
+};
+
+/**
+ * Read the session token from the session cookie
+ * @param {Request} req
+ * @returns {string | undefined}
+ */
+export const getSessionCookie = (req: Request): string | undefined => {
+  if (!config.cookie.enabled) {
+    return undefined;
+  }
+  return req.cookies?.[config.cookie.name];
+};
+
+/**
+ * Set the session cookie and its companion CSRF cookie
+ * @param {Response} res
+ * @param {string} sessionToken
+ * @param {Date} expires
+ * @returns {Promise<string>} the CSRF token
+ */
+export const setSessionCookie = async (
+  res: Response,
+  sessionToken: string,
+  expires: Date
+): Promise<string> => {
+  const csrfToken = await generateCsrfToken(sessionToken);
+  res.cookie(config.cookie.name, sessionToken, {
+    ...cookieOptions(),
+    httpOnly: true,
+    expires,
+  });
+  // readable by the client so it can echo it back in the CSRF header
+  res.cookie(CSRF_COOKIE_NAME, csrfToken, { ...cookieOptions(), expires });
+  return csrfToken;
+};
+
+/**
+ * Clear the session and CSRF cookies
+ * @param {Response} res
+ */
+export const clearSessionCookie = (res: Response) => {
+  res.clearCookie(config.cookie.name, { ...cookieOptions(), httpOnly: true });
+  res.clearCookie(CSRF_COOKIE_NAME, cookieOptions());
+};
+
+/**
+ * Move a session token from the response body into the session cookie
+ * when the cookie transport is enabled
+ * @param {Response} res
+ * @param {LoginTokens} loginTokens
+ * @returns {Promise<LoginTokens | { csrfToken: string }>}
+ */
+export const sendSessionCookie = async (
+  res: Response,
+  loginTokens: LoginTokens
+): Promise<LoginTokens | { csrfToken: string }> => {
+  if (!config.cookie.enabled || !("token" in loginTokens)) {
+    return loginTokens;
+  }
+  const csrfToken = await setSessionCookie(
+    res,
+    loginTokens.token,
+    new Date(Date.now() + SESSION_COOKIE_MAX_AGE_MS)
+  );
+  return { csrfToken };
+};
@@ -0,0 +1,14 @@
+import { Request } from "express";
+import { SessionMetadata } from "../services/token.service.js";
+
+/**
+ * Collect the device details stored alongside a new session
+ * @param {Request} req
+ * @returns {SessionMetadata}
+ */
+const sessionMetadata = (req: Request): SessionMetadata => ({
+  ipAddress: req.ip,
+  userAgent: req.get("user-agent"),
+});
+
+export default sessionMetadata;
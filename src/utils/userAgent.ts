@@ -0,0 +1,45 @@
+const browsers: [string, RegExp][] = [
+  ["Edge", /Edg(e|A|iOS)?\//],
+  ["Opera", /OPR\/|Opera/],
+  ["Firefox", /Firefox\/|FxiOS\//],
+  ["Chrome", /Chrome\/|CriOS\//],
+  ["Safari", /Version\/[\d.]+.*Safari\//],
+];
+
+const operatingSystems: [string, RegExp][] = [
+  ["iOS", /iPhone|iPad|iPod/],
+  ["Android", /Android/],
+  ["Windows", /Windows/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["ChromeOS", /CrOS/],
+  ["Linux", /Linux/],
+];
+
+/**
+ * Detect the browser and operating system families of a user agent
+ * @param {string} [userAgent]
+ * @returns {{ browser: string | null; os: string | null }}
+ */
+export const parseUserAgent = (
+  userAgent?: string
+): { browser: string | null; os: string | null } => {
+  if (!userAgent) {
+    return { browser: null, os: null };
+  }
+  const browser = browsers.find(([, pattern]) => pattern.test(userAgent));
+  const os = operatingSystems.find(([, pattern]) => pattern.test(userAgent));
+  return { browser: browser?.[0] ?? null, os: os?.[0] ?? null };
+};
+
+/**
+ * Build a friendly label like "Chrome on Windows" from a user agent
+ * @param {string} [userAgent]
+ * @returns {string | null}
+ */
+export const getDeviceLabel = (userAgent?: string): string | null => {
+  const { browser, os } = parseUserAgent(userAgent);
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser ?? os ?? null;
+};
@@ -0,0 +1,20 @@
+import Joi from "joi";
+
+const createApiKey = {
+  body: Joi.object().keys({
+    name: Joi.string().required().max(64),
+    scopes: Joi.array().items(Joi.string()).unique(),
+    expiresAt: Joi.date().greater("now"),
+  }),
+};
+
+const deleteApiKey = {
+  params: Joi.object().keys({
+    apiKeyId: Joi.number().integer().required(),
+  }),
+};
+
+export default {
+  createApiKey,
+  deleteApiKey,
+};
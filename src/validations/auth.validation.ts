@@ -1,11 +1,10 @@
 import Joi from "joi";
-import { password } from "./custom.validation.js";
 
 const register = {
   body: Joi.object().keys({
     name: Joi.string().required(),
     email: Joi.string().required().email(),
-    password: Joi.string().required().custom(password),
+    password: Joi.string().required(),
   }),
 };
 
@@ -16,12 +15,44 @@ const login = {
   }),
 };
 
-const logout = {
+const requestMagicLink = {
+  body: Joi.object().keys({
+    email: Joi.string().email().required(),
+  }),
+};
+
+const consumeMagicLink = {
   body: Joi.object().keys({
-    sessionToken: Joi.string().required(),
+    token: Joi.string().required(),
+    email: Joi.string().email().required(),
   }),
 };
 
+const verifyTwoFactor = {
+  body: Joi.object()
+    .keys({
+      challengeToken: Joi.string().required(),
+      code: Joi.string().length(6).pattern(/^\d+$/),
+      recoveryCode: Joi.string(),
+    })
+    .xor("code", "recoveryCode"),
+};
+
+const twoFactorCode = {
+  body: Joi.object().keys({
+    code: Joi.string().required().length(6).pattern(/^\d+$/),
+  }),
+};
+
+const logout = {
+  body: Joi.object()
+    .keys({
+      sessionToken: Joi.string(),
+      refreshToken: Joi.string(),
+    })
+    .oxor("sessionToken", "refreshToken"),
+};
+
 const refreshTokens = {
   body: Joi.object().keys({
     refreshToken: Joi.string().required(),
@@ -39,7 +70,7 @@ const resetPassword = {
     token: Joi.string().required(),
   }),
   body: Joi.object().keys({
-    password: Joi.string().required().custom(password),
+    password: Joi.string().required(),
   }),
 };
 
@@ -49,12 +80,45 @@ const verifyEmail = {
   }),
 };
 
+const changePassword = {
+  body: Joi.object().keys({
+    currentPassword: Joi.string().required(),
+    newPassword: Joi.string().required(),
+  }),
+};
+
+const reauthenticate = {
+  body: Joi.object().keys({
+    password: Joi.string().required(),
+  }),
+};
+
+const confirmEmailChange = {
+  query: Joi.object().keys({
+    token: Joi.string().required(),
+  }),
+};
+
+const cancelEmailChange = {
+  query: Joi.object().keys({
+    token: Joi.string().required(),
+  }),
+};
+
 export default {
   register,
   login,
+  requestMagicLink,
+  consumeMagicLink,
+  verifyTwoFactor,
+  twoFactorCode,
   logout,
   refreshTokens,
   forgotPassword,
   resetPassword,
   verifyEmail,
+  changePassword,
+  reauthenticate,
+  confirmEmailChange,
+  cancelEmailChange,
 };
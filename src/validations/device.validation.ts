@@ -0,0 +1,25 @@
+import Joi from "joi";
+
+const deleteMyDevice = {
+  params: Joi.object().keys({
+    deviceId: Joi.number().integer().required(),
+  }),
+};
+
+const confirmDevice = {
+  query: Joi.object().keys({
+    token: Joi.string().required(),
+  }),
+};
+
+const denyDevice = {
+  query: Joi.object().keys({
+    token: Joi.string().required(),
+  }),
+};
+
+export default {
+  deleteMyDevice,
+  confirmDevice,
+  denyDevice,
+};
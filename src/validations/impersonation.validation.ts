@@ -0,0 +1,23 @@
+import { ImpersonationAction } from "@prisma/client";
+import Joi from "joi";
+
+const startImpersonation = {
+  body: Joi.object().keys({
+    userId: Joi.string().required(),
+  }),
+};
+
+const getImpersonationEvents = {
+  query: Joi.object().keys({
+    impersonatorId: Joi.string(),
+    userId: Joi.string(),
+    action: Joi.string().valid(...Object.values(ImpersonationAction)),
+    limit: Joi.number().integer().min(1),
+    page: Joi.number().integer().min(1),
+  }),
+};
+
+export default {
+  startImpersonation,
+  getImpersonationEvents,
+};
@@ -1,2 +1,12 @@
 export { default as authValidation } from './auth.validation';
 export { default as userValidation } from './user.validation';
+export { default as webauthnValidation } from './webauthn.validation';
+export { default as oauthValidation } from './oauth.validation';
+export { default as sessionValidation } from './session.validation';
+export { default as impersonationValidation } from './impersonation.validation';
+export { default as apiKeyValidation } from './apiKey.validation';
+export { default as oauthServerValidation } from './oauthServer.validation';
+export { default as deviceValidation } from './device.validation';
+export { default as invitationValidation } from './invitation.validation';
+export { default as roleValidation } from './role.validation';
+export { default as orgValidation } from './org.validation';
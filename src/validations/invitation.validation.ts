@@ -0,0 +1,48 @@
+import { Role } from "@prisma/client";
+import Joi from "joi";
+
+const createInvitation = {
+  body: Joi.object().keys({
+    email: Joi.string().required().email(),
+    role: Joi.string().valid(Role.USER, Role.ADMIN),
+  }),
+};
+
+const getInvitations = {
+  query: Joi.object().keys({
+    email: Joi.string(),
+    role: Joi.string().valid(Role.USER, Role.ADMIN),
+    limit: Joi.number().integer().min(1),
+    page: Joi.number().integer().min(1),
+  }),
+};
+
+const resendInvitation = {
+  params: Joi.object().keys({
+    invitationId: Joi.number().integer().required(),
+  }),
+};
+
+const revokeInvitation = {
+  params: Joi.object().keys({
+    invitationId: Joi.number().integer().required(),
+  }),
+};
+
+const acceptInvitation = {
+  query: Joi.object().keys({
+    token: Joi.string().required(),
+  }),
+  body: Joi.object().keys({
+    name: Joi.string().required(),
+    password: Joi.string().required(),
+  }),
+};
+
+export default {
+  createInvitation,
+  getInvitations,
+  resendInvitation,
+  revokeInvitation,
+  acceptInvitation,
+};
@@ -0,0 +1,33 @@
+import Joi from "joi";
+
+const provider = Joi.string().required().valid("github", "google", "oidc");
+
+const authorize = {
+  params: Joi.object().keys({
+    provider,
+  }),
+};
+
+const callback = {
+  params: Joi.object().keys({
+    provider,
+  }),
+  query: Joi.object()
+    .keys({
+      code: Joi.string().required(),
+      state: Joi.string().required(),
+    })
+    .unknown(),
+};
+
+const deleteIdentity = {
+  params: Joi.object().keys({
+    identityId: Joi.number().integer().required(),
+  }),
+};
+
+export default {
+  authorize,
+  callback,
+  deleteIdentity,
+};
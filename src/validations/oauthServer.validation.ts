@@ -0,0 +1,41 @@
+import Joi from "joi";
+
+const token = {
+  body: Joi.object().keys({
+    grant_type: Joi.string().required().valid("client_credentials"),
+    scope: Joi.string(),
+    client_id: Joi.string(),
+    client_secret: Joi.string(),
+  }),
+};
+
+const tokenRequest = {
+  body: Joi.object().keys({
+    token: Joi.string().required(),
+    token_type_hint: Joi.string(),
+    client_id: Joi.string(),
+    client_secret: Joi.string(),
+  }),
+};
+
+const createClient = {
+  body: Joi.object().keys({
+    name: Joi.string().required().max(64),
+    scopes: Joi.array().items(Joi.string()).unique().required(),
+    ownerId: Joi.string(),
+  }),
+};
+
+const deleteClient = {
+  params: Joi.object().keys({
+    clientId: Joi.string().required(),
+  }),
+};
+
+export default {
+  token,
+  introspect: tokenRequest,
+  revoke: tokenRequest,
+  createClient,
+  deleteClient,
+};
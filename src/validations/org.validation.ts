@@ -0,0 +1,77 @@
+import { OrgRole } from "@prisma/client";
+import Joi from "joi";
+
+const createOrg = {
+  body: Joi.object().keys({
+    name: Joi.string().required().max(128),
+  }),
+};
+
+const getOrg = {
+  params: Joi.object().keys({
+    orgId: Joi.string().required(),
+  }),
+};
+
+const updateOrg = {
+  params: Joi.object().keys({
+    orgId: Joi.string().required(),
+  }),
+  body: Joi.object()
+    .keys({
+      name: Joi.string().max(128),
+    })
+    .min(1),
+};
+
+const deleteOrg = {
+  params: Joi.object().keys({
+    orgId: Joi.string().required(),
+  }),
+};
+
+const addMember = {
+  params: Joi.object().keys({
+    orgId: Joi.string().required(),
+  }),
+  body: Joi.object().keys({
+    email: Joi.string().required().email(),
+    role: Joi.string().valid(...Object.values(OrgRole)),
+  }),
+};
+
+const updateMember = {
+  params: Joi.object().keys({
+    orgId: Joi.string().required(),
+    userId: Joi.string().required(),
+  }),
+  body: Joi.object().keys({
+    role: Joi.string()
+      .required()
+      .valid(...Object.values(OrgRole)),
+  }),
+};
+
+const removeMember = {
+  params: Joi.object().keys({
+    orgId: Joi.string().required(),
+    userId: Joi.string().required(),
+  }),
+};
+
+const setActiveOrg = {
+  body: Joi.object().keys({
+    orgId: Joi.string().allow(null).required(),
+  }),
+};
+
+export default {
+  createOrg,
+  getOrg,
+  updateOrg,
+  deleteOrg,
+  addMember,
+  updateMember,
+  removeMember,
+  setActiveOrg,
+};
@@ -0,0 +1,83 @@
+import Joi from "joi";
+
+// permissions are checked by name in auth(), keep them to identifier characters
+const permissionName = Joi.string()
+  .max(64)
+  .pattern(/^[A-Za-z][A-Za-z0-9:._-]*$/);
+
+const createRole = {
+  body: Joi.object().keys({
+    name: Joi.string().required().max(64),
+    description: Joi.string().max(255),
+    permissions: Joi.array().items(Joi.string()).unique(),
+  }),
+};
+
+const getRole = {
+  params: Joi.object().keys({
+    roleId: Joi.number().integer().required(),
+  }),
+};
+
+const updateRole = {
+  params: Joi.object().keys({
+    roleId: Joi.number().integer().required(),
+  }),
+  body: Joi.object()
+    .keys({
+      name: Joi.string().max(64),
+      description: Joi.string().max(255),
+    })
+    .min(1),
+};
+
+const deleteRole = {
+  params: Joi.object().keys({
+    roleId: Joi.number().integer().required(),
+  }),
+};
+
+const rolePermission = {
+  params: Joi.object().keys({
+    roleId: Joi.number().integer().required(),
+    permission: Joi.string().required(),
+  }),
+};
+
+const roleMember = {
+  params: Joi.object().keys({
+    roleId: Joi.number().integer().required(),
+    userId: Joi.string().required(),
+  }),
+};
+
+const getUserRoles = {
+  params: Joi.object().keys({
+    userId: Joi.string().required(),
+  }),
+};
+
+const createPermission = {
+  body: Joi.object().keys({
+    name: permissionName.required(),
+    description: Joi.string().max(255),
+  }),
+};
+
+const deletePermission = {
+  params: Joi.object().keys({
+    permission: Joi.string().required(),
+  }),
+};
+
+export default {
+  createRole,
+  getRole,
+  updateRole,
+  deleteRole,
+  rolePermission,
+  roleMember,
+  getUserRoles,
+  createPermission,
+  deletePermission,
+};
@@ -0,0 +1,33 @@
+import Joi from "joi";
+
+const deleteMySession = {
+  params: Joi.object().keys({
+    sessionId: Joi.string().required(),
+  }),
+};
+
+const getUserSessions = {
+  params: Joi.object().keys({
+    userId: Joi.string(),
+  }),
+};
+
+const deleteUserSession = {
+  params: Joi.object().keys({
+    userId: Joi.string(),
+    sessionId: Joi.string().required(),
+  }),
+};
+
+const deleteUserSessions = {
+  params: Joi.object().keys({
+    userId: Joi.string(),
+  }),
+};
+
+export default {
+  deleteMySession,
+  getUserSessions,
+  deleteUserSession,
+  deleteUserSessions,
+};
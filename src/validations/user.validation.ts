@@ -1,24 +1,25 @@
 import { Role } from "@prisma/client";
 import Joi from "joi";
-import { password } from "./custom.validation.js";
 
 const createUser = {
   body: Joi.object().keys({
     email: Joi.string().required().email(),
-    password: Joi.string().required().custom(password),
+    password: Joi.string().required(),
     name: Joi.string().required(),
     role: Joi.string().required().valid(Role.USER, Role.ADMIN),
   }),
 };
 
 const getUsers = {
-  query: Joi.object().keys({
-    name: Joi.string(),
-    role: Joi.string(),
-    sortBy: Joi.string(),
-    limit: Joi.number().integer(),
-    page: Joi.number().integer(),
-  }),
+  // the filters are checked by parseListQuery against userListQuery
+  query: Joi.object()
+    .keys({
+      q: Joi.string(),
+      sortBy: Joi.string(),
+      limit: Joi.number().integer().min(1).max(100),
+      page: Joi.number().integer().min(1),
+    })
+    .unknown(true),
 };
 
 const getUser = {
@@ -34,8 +35,9 @@ const updateUser = {
   body: Joi.object()
     .keys({
       email: Joi.string().email(),
-      password: Joi.string().custom(password),
+      password: Joi.string(),
       name: Joi.string(),
+      skipEmailConfirmation: Joi.boolean(),
     })
     .min(1),
 };
@@ -46,10 +48,17 @@ const deleteUser = {
   }),
 };
 
+const unlockUser = {
+  params: Joi.object().keys({
+    userId: Joi.string(),
+  }),
+};
+
 export default {
   createUser,
   getUsers,
   getUser,
   updateUser,
   deleteUser,
+  unlockUser,
 };
@@ -0,0 +1,36 @@
+import Joi from "joi";
+
+const register = {
+  body: Joi.object().keys({
+    name: Joi.string().max(64),
+    response: Joi.object()
+      .keys({
+        clientDataJSON: Joi.string().required(),
+        attestationObject: Joi.string().required(),
+        transports: Joi.array().items(Joi.string()),
+      })
+      .required(),
+  }),
+};
+
+const login = {
+  body: Joi.object().keys({
+    credentialId: Joi.string().required(),
+    clientDataJSON: Joi.string().required(),
+    authenticatorData: Joi.string().required(),
+    signature: Joi.string().required(),
+    userHandle: Joi.string(),
+  }),
+};
+
+const deleteCredential = {
+  params: Joi.object().keys({
+    credentialId: Joi.string().required(),
+  }),
+};
+
+export default {
+  register,
+  login,
+  deleteCredential,
+};
@@ -0,0 +1,9 @@
+import { tokenService } from "../../src/services";
+
+// log a user in without going through a login route, returning the session
+// token
+export const loginAs = async (userId: string) => {
+  const token = await tokenService.generateSessionToken();
+  await tokenService.createSession(token, userId);
+  return token;
+};
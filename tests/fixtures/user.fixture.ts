@@ -38,7 +38,7 @@ export const insertUsers = async (users: Prisma.UserCreateManyInput[]) => {
   await prisma.user.createMany({
     data: users.map((user) => ({
       ...user,
-      password: bcrypt.hashSync(user.password),
+      password: bcrypt.hashSync(user.password as string),
     })),
   });
 };
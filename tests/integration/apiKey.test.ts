@@ -0,0 +1,204 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import { apiKeyService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, test, expect } from "vitest";
+import {
+  userOne,
+  userTwo,
+  admin,
+  insertUsers,
+} from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+describe("API key routes", () => {
+  describe("POST /v1/users/me/api-keys", () => {
+    test("should return 201 and the key, and only store its hash", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      const res = await request(app)
+        .post("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "CI" })
+        .expect(httpStatus.CREATED);
+
+      expect(res.body.key).toMatch(/^ak_/);
+      expect(res.body.apiKey).toMatchObject({
+        name: "CI",
+        scopes: [],
+        prefix: res.body.key.slice(0, 9),
+        lastUsedAt: null,
+      });
+      expect(res.body.apiKey).not.toHaveProperty("key");
+      const dbApiKey = await prisma.apiKey.findUnique({
+        where: { id: res.body.apiKey.id },
+      });
+      expect(dbApiKey?.key).toBeDefined();
+      expect(dbApiKey?.key).not.toBe(res.body.key);
+    });
+
+    test("should return 400 if a scope is unknown", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "CI", scopes: ["deleteEverything"] })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test("should return 403 if the request is made with an API key", async () => {
+      await insertUsers([userOne]);
+      const { key } = await apiKeyService.createApiKey(userOne.id, {
+        name: "CI",
+      });
+
+      await request(app)
+        .post("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${key}`)
+        .send({ name: "another" })
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe("GET /v1/users/me/api-keys", () => {
+    test("should list the keys of the current user with their last use", async () => {
+      await insertUsers([userOne, userTwo]);
+      const { key } = await apiKeyService.createApiKey(userOne.id, {
+        name: "CI",
+      });
+      await apiKeyService.createApiKey(userTwo.id, { name: "other" });
+
+      const res = await request(app)
+        .get("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${key}`)
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual([
+        expect.objectContaining({
+          name: "CI",
+          lastUsedAt: expect.any(String),
+        }),
+      ]);
+      expect(res.body[0]).not.toHaveProperty("key");
+    });
+  });
+
+  describe("DELETE /v1/users/me/api-keys/:apiKeyId", () => {
+    test("should return 204 and stop accepting the key", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+      const { apiKey, key } = await apiKeyService.createApiKey(userOne.id, {
+        name: "CI",
+      });
+
+      await request(app)
+        .delete(`/v1/users/me/api-keys/${apiKey.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      await request(app)
+        .get("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${key}`)
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 404 if the key belongs to another user", async () => {
+      await insertUsers([userOne, userTwo]);
+      const token = await loginAs(userOne.id);
+      const { apiKey } = await apiKeyService.createApiKey(userTwo.id, {
+        name: "other",
+      });
+
+      await request(app)
+        .delete(`/v1/users/me/api-keys/${apiKey.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe("Auth with an API key", () => {
+    test("should grant the scopes the role of the user has", async () => {
+      await insertUsers([admin]);
+      const { key } = await apiKeyService.createApiKey(admin.id, {
+        name: "reporting",
+        scopes: ["getUsers"],
+      });
+
+      await request(app)
+        .get("/v1/users")
+        .set("Authorization", `Bearer ${key}`)
+        .expect(httpStatus.OK);
+      await request(app)
+        .post("/v1/users")
+        .set("Authorization", `Bearer ${key}`)
+        .send({
+          name: "new user",
+          email: "new.user@example.com",
+          password: "password1",
+          role: "USER",
+        })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should not grant scopes the role of the user lacks", async () => {
+      await insertUsers([userOne]);
+      const { key } = await apiKeyService.createApiKey(userOne.id, {
+        name: "CI",
+        scopes: ["getUsers"],
+      });
+
+      await request(app)
+        .get("/v1/users")
+        .set("Authorization", `Bearer ${key}`)
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 on routes that manage credentials or sessions", async () => {
+      await insertUsers([userOne]);
+      const { key } = await apiKeyService.createApiKey(userOne.id, {
+        name: "CI",
+      });
+
+      await request(app)
+        .post("/v1/auth/webauthn/register/options")
+        .set("Authorization", `Bearer ${key}`)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .post("/v1/auth/oauth/github/link")
+        .set("Authorization", `Bearer ${key}`)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .post("/v1/auth/2fa/enroll")
+        .set("Authorization", `Bearer ${key}`)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .delete("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${key}`)
+        .expect(httpStatus.FORBIDDEN);
+      expect(await prisma.twoFactor.count()).toBe(0);
+    });
+
+    test("should return 401 if the key has expired", async () => {
+      await insertUsers([userOne]);
+      const { apiKey, key } = await apiKeyService.createApiKey(userOne.id, {
+        name: "CI",
+      });
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      await request(app)
+        .get("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${key}`)
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+});
@@ -3,18 +3,24 @@ import { faker } from "@faker-js/faker";
 import httpStatus from "http-status";
 import httpMocks from "node-mocks-http";
 import moment from "moment";
+import path from "path";
 import bcrypt from "bcryptjs";
 import app from "../../src/app.js";
+import config from "../../src/config/config.js";
 import auth from "../../src/middlewares/auth.js";
 import { emailService, tokenService } from "../../src/services";
 import ApiError from "../../src/utils/ApiError.js";
 import setupTestDB from "../utils/setupTestDb.js";
-import { describe, beforeEach, test, expect, vi } from "vitest";
+import { describe, beforeEach, afterEach, test, expect, vi } from "vitest";
 import { userOne, admin, insertUsers } from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
 import { Role, TokenType, User } from "@prisma/client";
 import prisma from "../../src/client.js";
 import { roleRights } from "../../src/config/roles.js";
 import logger from "src/config/logger.js";
+import { generateHOTP, generateTOTP } from "@oslojs/otp";
+import { decodeBase32IgnorePadding } from "@oslojs/encoding";
+import { twoFactorService } from "../../src/services";
 
 setupTestDB();
 
@@ -102,73 +108,859 @@ describe("Auth routes", () => {
         .send(newUser)
         .expect(httpStatus.BAD_REQUEST);
     });
+
+    test("should return every password policy violation at once", async () => {
+      newUser.password = "short";
+
+      const res = await request(app)
+        .post("/v1/auth/register")
+        .send(newUser)
+        .expect(httpStatus.BAD_REQUEST);
+
+      expect(res.body.violations).toEqual([
+        { rule: "minLength", message: expect.any(String) },
+        { rule: "digit", message: expect.any(String) },
+      ]);
+    });
+
+    test("should return 400 error if password contains the email of the user", async () => {
+      newUser.password = `${newUser.email.split("@")[0]}1`;
+
+      const res = await request(app)
+        .post("/v1/auth/register")
+        .send(newUser)
+        .expect(httpStatus.BAD_REQUEST);
+
+      expect(res.body.violations).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ rule: "personalInfo" }),
+        ])
+      );
+    });
+
+    test("should return 400 error if password appears in the breached password list", async () => {
+      config.password.breachedHashesDir = path.join(
+        process.cwd(),
+        "tests/fixtures/breached-passwords"
+      );
+      newUser.password = "Breached1";
+
+      try {
+        const res = await request(app)
+          .post("/v1/auth/register")
+          .send(newUser)
+          .expect(httpStatus.BAD_REQUEST);
+
+        expect(res.body.violations).toEqual([
+          { rule: "breached", message: expect.any(String) },
+        ]);
+      } finally {
+        config.password.breachedHashesDir = undefined;
+      }
+    });
+  });
+
+  describe("POST /v1/auth/login", () => {
+    test("should return 200 and login user if email and password match", async () => {
+      await insertUsers([userOne]);
+      const loginCredentials = {
+        email: userOne.email,
+        password: userOne.password,
+      };
+
+      const res = await request(app)
+        .post("/v1/auth/login")
+        .send(loginCredentials)
+        .expect(httpStatus.OK);
+
+      expect(res.body.user).toMatchObject({
+        id: expect.anything(),
+        name: userOne.name,
+        email: userOne.email,
+        role: userOne.role,
+        isEmailVerified: userOne.isEmailVerified,
+      });
+
+      expect(res.body.user).toEqual(
+        expect.not.objectContaining({ password: expect.anything() })
+      );
+
+      expect(res.body.token).not.toBeNull();
+    });
+
+    test("should return 401 error if there are no users with that email", async () => {
+      const loginCredentials = {
+        email: userOne.email,
+        password: userOne.password,
+      };
+
+      const res = await request(app)
+        .post("/v1/auth/login")
+        .send(loginCredentials)
+        .expect(httpStatus.UNAUTHORIZED);
+
+      expect(res.body).toEqual({
+        code: httpStatus.UNAUTHORIZED,
+        message: "Incorrect email or password",
+      });
+    });
+
+    test("should return 401 error if password is wrong", async () => {
+      await insertUsers([userOne]);
+      const loginCredentials = {
+        email: userOne.email,
+        password: "wrongPassword1",
+      };
+
+      const res = await request(app)
+        .post("/v1/auth/login")
+        .send(loginCredentials)
+        .expect(httpStatus.UNAUTHORIZED);
+
+      expect(res.body).toEqual({
+        code: httpStatus.UNAUTHORIZED,
+        message: "Incorrect email or password",
+      });
+    });
+  });
+
+  describe("Password hashing", () => {
+    afterEach(() => {
+      config.passwordHash.algorithm = "bcrypt";
+    });
+
+    test("should rehash an outdated password hash on successful login", async () => {
+      await insertUsers([userOne]);
+      config.passwordHash.algorithm = "scrypt";
+
+      await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+
+      const dbUser = (await prisma.user.findUnique({
+        where: { id: userOne.id },
+      })) as User;
+      expect(dbUser.password).toMatch(/^\$scrypt\$ln=\d+,r=\d+,p=\d+\$/);
+      await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+    });
+
+    test("should keep verifying legacy hashes after switching algorithm", async () => {
+      await insertUsers([userOne]);
+      config.passwordHash.algorithm = "scrypt";
+      await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+      config.passwordHash.algorithm = "bcrypt";
+
+      await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+
+      const dbUser = (await prisma.user.findUnique({
+        where: { id: userOne.id },
+      })) as User;
+      expect(dbUser.password).toMatch(/^\$2[aby]\$08\$/);
+    });
+
+    test("should report how many users are on legacy hash parameters", async () => {
+      await insertUsers([userOne, admin]);
+      const adminToken = await tokenService.generateSessionToken();
+      await tokenService.createSession(adminToken, admin.id);
+      config.passwordHash.algorithm = "scrypt";
+      await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+
+      const res = await request(app)
+        .get("/v1/users/password-hashes")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({
+        current: expect.stringMatching(/^scrypt\$/),
+        upToDate: 1,
+        outdated: 1,
+        withoutPassword: 0,
+      });
+      expect(res.body.hashes).toEqual(
+        expect.arrayContaining([
+          { parameters: "bcrypt$cost=10", count: 1, current: false },
+        ])
+      );
+    });
+  });
+
+  describe("Failed login lockout", () => {
+    const wrongCredentials = () => ({
+      email: userOne.email,
+      password: "wrongPassword1",
+    });
+
+    beforeEach(() => {
+      vi.spyOn(emailService.transport, "sendMail").mockClear();
+    });
+
+    afterEach(() => {
+      config.lockout.delayBaseSeconds = 1;
+    });
+
+    test("should delay the next attempt after a failed login", async () => {
+      await insertUsers([userOne]);
+      await request(app)
+        .post("/v1/auth/login")
+        .send(wrongCredentials())
+        .expect(httpStatus.UNAUTHORIZED);
+
+      const res = await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.TOO_MANY_REQUESTS);
+
+      expect(res.body.message).toMatch(/^Too many failed login attempts/);
+    });
+
+    test("should let only one of several parallel attempts compare the password", async () => {
+      await insertUsers([userOne]);
+
+      const responses = await Promise.all(
+        Array.from({ length: 5 }, () =>
+          request(app).post("/v1/auth/login").send(wrongCredentials())
+        )
+      );
+
+      const statuses = responses.map((res) => res.status);
+      expect(
+        statuses.filter((status) => status === httpStatus.UNAUTHORIZED)
+      ).toHaveLength(1);
+      expect(
+        statuses.filter((status) => status === httpStatus.TOO_MANY_REQUESTS)
+      ).toHaveLength(4);
+    });
+
+    test("should respond the same way for an email without an account", async () => {
+      const credentials = {
+        email: "nobody@example.com",
+        password: "password1",
+      };
+      await request(app)
+        .post("/v1/auth/login")
+        .send(credentials)
+        .expect(httpStatus.UNAUTHORIZED);
+
+      await request(app)
+        .post("/v1/auth/login")
+        .send(credentials)
+        .expect(httpStatus.TOO_MANY_REQUESTS);
+    });
+
+    test("should lock the account after the threshold and email the owner", async () => {
+      config.lockout.delayBaseSeconds = 0;
+      await insertUsers([userOne]);
+      const sendAccountLockedEmailSpy = vi
+        .spyOn(emailService, "sendAccountLockedEmail")
+        .mockImplementationOnce(() => new Promise((resolve) => resolve()));
+
+      for (let attempt = 0; attempt < config.lockout.threshold; attempt++) {
+        await request(app)
+          .post("/v1/auth/login")
+          .send(wrongCredentials())
+          .expect(httpStatus.UNAUTHORIZED);
+      }
+
+      await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.TOO_MANY_REQUESTS);
+      expect(sendAccountLockedEmailSpy).toHaveBeenCalledWith(
+        userOne.email,
+        expect.any(Date)
+      );
+      await expect(
+        prisma.loginLockout.findUnique({ where: { email: userOne.email } })
+      ).resolves.toMatchObject({ failedAttempts: config.lockout.threshold });
+    });
+
+    test("should reset the failed attempts after a successful login", async () => {
+      config.lockout.delayBaseSeconds = 0;
+      await insertUsers([userOne]);
+      await request(app)
+        .post("/v1/auth/login")
+        .send(wrongCredentials())
+        .expect(httpStatus.UNAUTHORIZED);
+
+      await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+
+      await expect(
+        prisma.loginLockout.findUnique({ where: { email: userOne.email } })
+      ).resolves.toBeNull();
+    });
+
+    test("should let an admin unlock a locked account", async () => {
+      await insertUsers([userOne, admin]);
+      await prisma.loginLockout.create({
+        data: {
+          email: userOne.email,
+          lockedUntil: moment().add(30, "minutes").toDate(),
+        },
+      });
+      const adminToken = await tokenService.generateSessionToken();
+      await tokenService.createSession(adminToken, admin.id);
+
+      await request(app)
+        .post(`/v1/users/${userOne.id}/unlock`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+    });
+
+    test("should return 403 when a user tries to unlock another user", async () => {
+      await insertUsers([userOne, admin]);
+      const userOneToken = await tokenService.generateSessionToken();
+      await tokenService.createSession(userOneToken, userOne.id);
+
+      await request(app)
+        .post(`/v1/users/${admin.id}/unlock`)
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .expect(httpStatus.FORBIDDEN);
+    });
   });
 
-  describe("POST /v1/auth/login", () => {
-    test("should return 200 and login user if email and password match", async () => {
+  describe("Magic link login", () => {
+    beforeEach(() => {
+      vi.spyOn(emailService.transport, "sendMail").mockClear();
+    });
+
+    const requestMagicLink = async (email: string) => {
+      const sendMagicLinkEmailSpy = vi
+        .spyOn(emailService, "sendMagicLinkEmail")
+        .mockImplementationOnce(() => new Promise((resolve) => resolve()));
+      await request(app)
+        .post("/v1/auth/magic-link")
+        .send({ email })
+        .expect(httpStatus.NO_CONTENT);
+      return sendMagicLinkEmailSpy;
+    };
+
+    test("should email a magic link and create a session when it is consumed", async () => {
+      await insertUsers([userOne]);
+      const sendMagicLinkEmailSpy = await requestMagicLink(userOne.email);
+
+      expect(sendMagicLinkEmailSpy).toHaveBeenCalledWith(
+        userOne.email,
+        expect.any(String)
+      );
+      const magicLinkToken = sendMagicLinkEmailSpy.mock.calls[0][1];
+
+      const res = await request(app)
+        .post("/v1/auth/magic-link/consume")
+        .send({ token: magicLinkToken, email: userOne.email })
+        .expect(httpStatus.OK);
+
+      expect(res.body.user).toMatchObject({
+        id: userOne.id,
+        isEmailVerified: true,
+      });
+      const { session } = await tokenService.validateSessionToken(
+        res.body.token
+      );
+      expect(session?.userId).toBe(userOne.id);
+    });
+
+    test("should return 204 without sending an email if the email is unknown", async () => {
+      const sendMagicLinkEmailSpy = await requestMagicLink(userOne.email);
+
+      expect(sendMagicLinkEmailSpy).not.toHaveBeenCalled();
+    });
+
+    test("should return 401 if the magic link is used twice", async () => {
+      await insertUsers([userOne]);
+      const magicLinkToken = await tokenService.generateMagicLinkToken(userOne);
+
+      await request(app)
+        .post("/v1/auth/magic-link/consume")
+        .send({ token: magicLinkToken, email: userOne.email })
+        .expect(httpStatus.OK);
+      await request(app)
+        .post("/v1/auth/magic-link/consume")
+        .send({ token: magicLinkToken, email: userOne.email })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 401 if the magic link was sent to another email", async () => {
+      await insertUsers([userOne]);
+      const magicLinkToken = await tokenService.generateMagicLinkToken(userOne);
+
+      await request(app)
+        .post("/v1/auth/magic-link/consume")
+        .send({ token: magicLinkToken, email: admin.email })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 401 if the magic link is expired", async () => {
+      await insertUsers([userOne]);
+      const magicLinkToken = await tokenService.generateSessionToken();
+      await tokenService.saveToken(
+        magicLinkToken,
+        userOne.id,
+        moment().subtract(1, "minutes"),
+        TokenType.MAGIC_LINK
+      );
+
+      await request(app)
+        .post("/v1/auth/magic-link/consume")
+        .send({ token: magicLinkToken, email: userOne.email })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+
+  describe("Two-factor authentication", () => {
+    const totp = (secret: string) =>
+      generateTOTP(decodeBase32IgnorePadding(secret), 30, 6);
+
+    const enableTwoFactor = async (userId: string) => {
+      const { secret } = await twoFactorService.enroll({
+        id: userId,
+        email: userOne.email,
+      });
+      // confirm with the code of the previous step, still accepted, so the
+      // current code has not been used yet
+      const previousStep = BigInt(Math.floor(Date.now() / 30000) - 1);
+      const recoveryCodes = await twoFactorService.confirm(
+        userId,
+        generateHOTP(decodeBase32IgnorePadding(secret), previousStep, 6)
+      );
+      return { secret, recoveryCodes };
+    };
+
+    test("should enroll and confirm two-factor authentication", async () => {
+      await insertUsers([userOne]);
+      const userOneAccessToken = await tokenService.generateSessionToken();
+      await tokenService.createSession(userOneAccessToken, userOne.id);
+
+      const enrollRes = await request(app)
+        .post("/v1/auth/2fa/enroll")
+        .set("Authorization", `Bearer ${userOneAccessToken}`)
+        .expect(httpStatus.OK);
+
+      expect(enrollRes.body.uri).toMatch(/^otpauth:\/\/totp\//);
+
+      const confirmRes = await request(app)
+        .post("/v1/auth/2fa/confirm")
+        .set("Authorization", `Bearer ${userOneAccessToken}`)
+        .send({ code: totp(enrollRes.body.secret) })
+        .expect(httpStatus.OK);
+
+      expect(confirmRes.body.recoveryCodes).toHaveLength(10);
+      expect(await twoFactorService.isTwoFactorEnabled(userOne.id)).toBe(true);
+    });
+
+    test("should return a challenge instead of a session token on login", async () => {
+      await insertUsers([userOne]);
+      await enableTwoFactor(userOne.id);
+
+      const res = await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({
+        twoFactorRequired: true,
+        challengeToken: expect.any(String),
+      });
+      expect(
+        await prisma.session.count({ where: { userId: userOne.id } })
+      ).toBe(0);
+    });
+
+    test("should create a session when the challenge is verified with a TOTP code", async () => {
+      await insertUsers([userOne]);
+      const { secret } = await enableTwoFactor(userOne.id);
+      const challengeToken = await tokenService.generateTwoFactorChallengeToken(
+        { id: userOne.id }
+      );
+
+      const res = await request(app)
+        .post("/v1/auth/2fa/verify")
+        .send({ challengeToken, code: totp(secret) })
+        .expect(httpStatus.OK);
+
+      expect(res.body.user).toMatchObject({ id: userOne.id });
+      expect(res.body.user).not.toHaveProperty("password");
+      const { session } = await tokenService.validateSessionToken(
+        res.body.token
+      );
+      expect(session).not.toBeNull();
+    });
+
+    test("should accept a TOTP code only once", async () => {
+      await insertUsers([userOne]);
+      const { secret } = await enableTwoFactor(userOne.id);
+      const code = totp(secret);
+
+      let challengeToken = await tokenService.generateTwoFactorChallengeToken({
+        id: userOne.id,
+      });
+      await request(app)
+        .post("/v1/auth/2fa/verify")
+        .send({ challengeToken, code })
+        .expect(httpStatus.OK);
+
+      challengeToken = await tokenService.generateTwoFactorChallengeToken({
+        id: userOne.id,
+      });
+      await request(app)
+        .post("/v1/auth/2fa/verify")
+        .send({ challengeToken, code })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should accept a recovery code only once", async () => {
+      await insertUsers([userOne]);
+      const { recoveryCodes } = await enableTwoFactor(userOne.id);
+
+      let challengeToken = await tokenService.generateTwoFactorChallengeToken({
+        id: userOne.id,
+      });
+      await request(app)
+        .post("/v1/auth/2fa/verify")
+        .send({ challengeToken, recoveryCode: recoveryCodes[0] })
+        .expect(httpStatus.OK);
+
+      challengeToken = await tokenService.generateTwoFactorChallengeToken({
+        id: userOne.id,
+      });
+      await request(app)
+        .post("/v1/auth/2fa/verify")
+        .send({ challengeToken, recoveryCode: recoveryCodes[0] })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 401 if the code is wrong or the challenge is expired", async () => {
+      await insertUsers([userOne]);
+      const { secret } = await enableTwoFactor(userOne.id);
+      const challengeToken = await tokenService.generateTwoFactorChallengeToken(
+        { id: userOne.id }
+      );
+
+      await request(app)
+        .post("/v1/auth/2fa/verify")
+        .send({ challengeToken, code: "000000" })
+        .expect(httpStatus.UNAUTHORIZED);
+
+      const expiredChallengeToken = await tokenService.generateSessionToken();
+      await tokenService.saveToken(
+        expiredChallengeToken,
+        userOne.id,
+        moment().subtract(1, "minutes"),
+        TokenType.TWO_FACTOR
+      );
+      await request(app)
+        .post("/v1/auth/2fa/verify")
+        .send({ challengeToken: expiredChallengeToken, code: totp(secret) })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should stop accepting a challenge after too many wrong codes", async () => {
+      await insertUsers([userOne]);
+      const { secret } = await enableTwoFactor(userOne.id);
+      const challengeToken = await tokenService.generateTwoFactorChallengeToken(
+        { id: userOne.id }
+      );
+
+      for (let i = 0; i < config.oneTimeToken.maxAttempts; i += 1) {
+        await request(app)
+          .post("/v1/auth/2fa/verify")
+          .send({ challengeToken, code: "000000" })
+          .expect(httpStatus.UNAUTHORIZED);
+      }
+      const res = await request(app)
+        .post("/v1/auth/2fa/verify")
+        .send({ challengeToken, code: totp(secret) })
+        .expect(httpStatus.UNAUTHORIZED);
+
+      expect(res.body.error).toBe("token_attempts_exceeded");
+    });
+
+    test("should not try more codes than allowed when they arrive in parallel", async () => {
+      await insertUsers([userOne]);
+      await enableTwoFactor(userOne.id);
+      const challengeToken = await tokenService.generateTwoFactorChallengeToken(
+        { id: userOne.id }
+      );
+      const useCodeSpy = vi.spyOn(twoFactorService, "useCode");
+
+      const responses = await Promise.all(
+        Array.from({ length: config.oneTimeToken.maxAttempts + 5 }, () =>
+          request(app)
+            .post("/v1/auth/2fa/verify")
+            .send({ challengeToken, code: "000000" })
+        )
+      );
+
+      expect(
+        responses.every((res) => res.status === httpStatus.UNAUTHORIZED)
+      ).toBe(true);
+      expect(useCodeSpy).toHaveBeenCalledTimes(config.oneTimeToken.maxAttempts);
+      useCodeSpy.mockRestore();
+    });
+  });
+
+  // describe("POST /v1/auth/logout", () => {});
+
+  describe("Access and refresh tokens", () => {
+    beforeEach(() => {
+      config.auth.tokenMode = "tokens";
+    });
+
+    afterEach(() => {
+      config.auth.tokenMode = "session";
+    });
+
+    const loginWithTokens = async () => {
+      const res = await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+      return res.body.tokens;
+    };
+
+    test("should return access and refresh tokens on login in tokens mode", async () => {
       await insertUsers([userOne]);
-      const loginCredentials = {
-        email: userOne.email,
-        password: userOne.password,
-      };
 
       const res = await request(app)
         .post("/v1/auth/login")
-        .send(loginCredentials)
+        .send({ email: userOne.email, password: userOne.password })
         .expect(httpStatus.OK);
 
-      expect(res.body.user).toMatchObject({
-        id: expect.anything(),
-        name: userOne.name,
-        email: userOne.email,
-        role: userOne.role,
-        isEmailVerified: userOne.isEmailVerified,
+      expect(res.body.token).toBeUndefined();
+      expect(res.body.tokens).toEqual({
+        access: { token: expect.any(String), expires: expect.any(String) },
+        refresh: { token: expect.any(String), expires: expect.any(String) },
       });
+      await expect(
+        prisma.session.count({ where: { userId: userOne.id } })
+      ).resolves.toBe(0);
+    });
 
-      expect(res.body.user).toEqual(
-        expect.not.objectContaining({ password: expect.anything() })
-      );
+    test("should accept the access token on authenticated routes", async () => {
+      await insertUsers([userOne]);
+      const tokens = await loginWithTokens();
 
-      expect(res.body.token).not.toBeNull();
+      await request(app)
+        .get("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${tokens.access.token}`)
+        .expect(httpStatus.OK);
     });
 
-    test("should return 401 error if there are no users with that email", async () => {
-      const loginCredentials = {
-        email: userOne.email,
-        password: userOne.password,
-      };
+    test("should rotate the refresh token", async () => {
+      await insertUsers([userOne]);
+      const tokens = await loginWithTokens();
 
       const res = await request(app)
-        .post("/v1/auth/login")
-        .send(loginCredentials)
-        .expect(httpStatus.UNAUTHORIZED);
+        .post("/v1/auth/refresh-tokens")
+        .send({ refreshToken: tokens.refresh.token })
+        .expect(httpStatus.OK);
 
       expect(res.body).toEqual({
-        code: httpStatus.UNAUTHORIZED,
-        message: "Incorrect email or password",
+        access: { token: expect.any(String), expires: expect.any(String) },
+        refresh: { token: expect.any(String), expires: expect.any(String) },
       });
+      expect(res.body.refresh.token).not.toBe(tokens.refresh.token);
+      await request(app)
+        .post("/v1/auth/refresh-tokens")
+        .send({ refreshToken: res.body.refresh.token })
+        .expect(httpStatus.OK);
     });
 
-    test("should return 401 error if password is wrong", async () => {
+    test("should revoke the whole token family when a rotated refresh token is replayed", async () => {
       await insertUsers([userOne]);
-      const loginCredentials = {
-        email: userOne.email,
-        password: "wrongPassword1",
-      };
+      const tokens = await loginWithTokens();
+      const rotated = await request(app)
+        .post("/v1/auth/refresh-tokens")
+        .send({ refreshToken: tokens.refresh.token })
+        .expect(httpStatus.OK);
 
-      const res = await request(app)
-        .post("/v1/auth/login")
-        .send(loginCredentials)
+      await request(app)
+        .post("/v1/auth/refresh-tokens")
+        .send({ refreshToken: tokens.refresh.token })
         .expect(httpStatus.UNAUTHORIZED);
 
-      expect(res.body).toEqual({
-        code: httpStatus.UNAUTHORIZED,
-        message: "Incorrect email or password",
+      await request(app)
+        .post("/v1/auth/refresh-tokens")
+        .send({ refreshToken: rotated.body.refresh.token })
+        .expect(httpStatus.UNAUTHORIZED);
+      await request(app)
+        .get("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${rotated.body.access.token}`)
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 401 if the refresh token has expired", async () => {
+      await insertUsers([userOne]);
+      const tokens = await loginWithTokens();
+      await prisma.token.updateMany({
+        where: { userId: userOne.id, type: TokenType.REFRESH },
+        data: { expires: moment().subtract(1, "minutes").toDate() },
       });
+
+      await request(app)
+        .post("/v1/auth/refresh-tokens")
+        .send({ refreshToken: tokens.refresh.token })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should revoke the token family on logout with a refresh token", async () => {
+      await insertUsers([userOne]);
+      const tokens = await loginWithTokens();
+
+      await request(app)
+        .post("/v1/auth/logout")
+        .send({ refreshToken: tokens.refresh.token })
+        .expect(httpStatus.NO_CONTENT);
+
+      await request(app)
+        .get("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${tokens.access.token}`)
+        .expect(httpStatus.UNAUTHORIZED);
+      await expect(
+        prisma.token.count({ where: { userId: userOne.id } })
+      ).resolves.toBe(0);
     });
   });
 
-  // describe("POST /v1/auth/logout", () => {});
+  describe("Session cookie", () => {
+    beforeEach(() => {
+      config.cookie.enabled = true;
+    });
+
+    afterEach(() => {
+      config.cookie.enabled = false;
+    });
+
+    // turn the Set-Cookie headers of a response into a Cookie header
+    const getCookies = (res: request.Response) =>
+      (res.get("Set-Cookie") as unknown as string[])
+        .map((cookie) => cookie.split(";")[0])
+        .join("; ");
+
+    const loginWithCookie = async () => {
+      const res = await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+      return { cookies: getCookies(res), csrfToken: res.body.csrfToken };
+    };
+
+    test("should set an HttpOnly session cookie instead of returning the token", async () => {
+      await insertUsers([userOne]);
+
+      const res = await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+
+      expect(res.body.token).toBeUndefined();
+      expect(res.body.csrfToken).toEqual(expect.any(String));
+      const setCookies = res.get("Set-Cookie") as unknown as string[];
+      const sessionCookie = setCookies.find((cookie) =>
+        cookie.startsWith(`${config.cookie.name}=`)
+      );
+      expect(sessionCookie).toMatch(/HttpOnly/);
+      expect(sessionCookie).toMatch(/Secure/);
+      expect(sessionCookie).toMatch(/SameSite=Lax/);
+      expect(
+        setCookies.find((cookie) =>
+          cookie.startsWith(`XSRF-TOKEN=${res.body.csrfToken};`)
+        )
+      ).not.toMatch(/HttpOnly/);
+    });
+
+    test("should authenticate safe requests with the session cookie", async () => {
+      await insertUsers([userOne]);
+      const { cookies } = await loginWithCookie();
+
+      await request(app)
+        .get("/v1/auth/sessions")
+        .set("Cookie", cookies)
+        .expect(httpStatus.OK);
+    });
+
+    test("should return 403 for a state-changing request without a valid CSRF header", async () => {
+      await insertUsers([userOne]);
+      const { cookies } = await loginWithCookie();
+
+      await request(app)
+        .delete("/v1/auth/sessions")
+        .set("Cookie", cookies)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .delete("/v1/auth/sessions")
+        .set("Cookie", cookies)
+        .set("X-XSRF-TOKEN", "invalid")
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should accept a state-changing request with the CSRF header", async () => {
+      await insertUsers([userOne]);
+      const { cookies, csrfToken } = await loginWithCookie();
+
+      await request(app)
+        .delete("/v1/auth/sessions")
+        .set("Cookie", cookies)
+        .set("X-XSRF-TOKEN", csrfToken)
+        .expect(httpStatus.NO_CONTENT);
+    });
+
+    test("should log out the cookie session and clear the cookie", async () => {
+      await insertUsers([userOne]);
+      const { cookies, csrfToken } = await loginWithCookie();
+
+      const res = await request(app)
+        .post("/v1/auth/logout")
+        .set("Cookie", cookies)
+        .set("X-XSRF-TOKEN", csrfToken)
+        .send({})
+        .expect(httpStatus.NO_CONTENT);
+
+      expect(res.get("Set-Cookie")).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(new RegExp(`^${config.cookie.name}=;`)),
+        ])
+      );
+      await expect(
+        prisma.session.count({ where: { userId: userOne.id } })
+      ).resolves.toBe(0);
+    });
+
+    test("should return 403 when logging out the cookie session without the CSRF header", async () => {
+      await insertUsers([userOne]);
+      const { cookies } = await loginWithCookie();
+
+      await request(app)
+        .post("/v1/auth/logout")
+        .set("Cookie", cookies)
+        .send({})
+        .expect(httpStatus.FORBIDDEN);
+
+      await expect(
+        prisma.session.count({ where: { userId: userOne.id } })
+      ).resolves.toBe(1);
+    });
+  });
 
   describe("POST /v1/auth/forgot-password", () => {
     beforeEach(() => {
@@ -244,13 +1036,16 @@ describe("Auth routes", () => {
         .query({ token: resetPasswordToken })
         .send({ password: "password@123" })
         .expect(httpStatus.NO_CONTENT);
+      await expect(
+        prisma.passwordHistory.count({ where: { userId: dbUserOne.id } })
+      ).resolves.toBe(1);
 
       const dbUser = (await prisma.user.findUnique({
         where: { id: dbUserOne.id },
       })) as User;
       const isPasswordMatch = await bcrypt.compare(
         "password@123",
-        dbUser.password
+        dbUser.password as string
       );
       expect(isPasswordMatch).toBe(true);
 
@@ -258,11 +1053,76 @@ describe("Auth routes", () => {
         where: {
           userId: dbUserOne.id,
           type: TokenType.RESET_PASSWORD,
+          usedAt: null,
         },
       });
       expect(dbResetPasswordTokenCount).toBe(0);
     });
 
+    test("should return 401 with token_used if the token is used again", async () => {
+      await insertUsers([userOne]);
+      const resetPasswordToken = await tokenService.generateResetPasswordToken(
+        userOne.email
+      );
+
+      await request(app)
+        .post("/v1/auth/reset-password")
+        .query({ token: resetPasswordToken })
+        .send({ password: "password@123" })
+        .expect(httpStatus.NO_CONTENT);
+      const res = await request(app)
+        .post("/v1/auth/reset-password")
+        .query({ token: resetPasswordToken })
+        .send({ password: "password@456" })
+        .expect(httpStatus.UNAUTHORIZED);
+
+      expect(res.body.error).toBe("token_used");
+    });
+
+    test("should let only one of concurrent requests use the token", async () => {
+      await insertUsers([userOne]);
+      const resetPasswordToken = await tokenService.generateResetPasswordToken(
+        userOne.email
+      );
+
+      const responses = await Promise.all(
+        ["password@123", "password@456"].map((password) =>
+          request(app)
+            .post("/v1/auth/reset-password")
+            .query({ token: resetPasswordToken })
+            .send({ password })
+        )
+      );
+
+      expect(responses.map(({ status }) => status).sort()).toEqual([
+        httpStatus.NO_CONTENT,
+        httpStatus.UNAUTHORIZED,
+      ]);
+    });
+
+    test("should revoke every session and send a notice", async () => {
+      await insertUsers([userOne]);
+      const sessionToken = await tokenService.generateSessionToken();
+      await tokenService.createSession(sessionToken, userOne.id);
+      const resetPasswordToken = await tokenService.generateResetPasswordToken(
+        userOne.email
+      );
+      const sendPasswordChangedEmailSpy = vi
+        .spyOn(emailService, "sendPasswordChangedEmail")
+        .mockImplementationOnce(() => new Promise((resolve) => resolve()));
+
+      await request(app)
+        .post("/v1/auth/reset-password")
+        .query({ token: resetPasswordToken })
+        .send({ password: "password@123" })
+        .expect(httpStatus.NO_CONTENT);
+
+      expect(
+        await prisma.session.count({ where: { userId: userOne.id } })
+      ).toBe(0);
+      expect(sendPasswordChangedEmailSpy).toHaveBeenCalledWith(userOne.email);
+    });
+
     test("should return 400 if reset password token is missing", async () => {
       await insertUsers([userOne]);
 
@@ -298,23 +1158,61 @@ describe("Auth routes", () => {
         .expect(httpStatus.UNAUTHORIZED);
     });
 
-    // test("should return 401 if reset password token is expired", async () => {
-    //   await insertUsers([userOne]);
-    //   const dbUserOne = (await prisma.user.findUnique({
-    //     where: { email: userOne.email },
-    //   })) as User;
-    //   const expires = moment().subtract(10, "minutes");
-    //   const resetPasswordToken = await tokenService.generateResetPasswordToken(
-    //     dbUserOne.email,
-    //     expires
-    //   );
+    test("should return 401 with token_expired if reset password token is expired", async () => {
+      await insertUsers([userOne]);
+      const dbUserOne = (await prisma.user.findUnique({
+        where: { email: userOne.email },
+      })) as User;
+      const expires = moment().subtract(10, "minutes");
+      const resetPasswordToken = await tokenService.generateResetPasswordToken(
+        dbUserOne.email,
+        expires
+      );
 
-    //   await request(app)
-    //     .post("/v1/auth/reset-password")
-    //     .query({ token: resetPasswordToken })
-    //     .send({ password: "password2" })
-    //     .expect(httpStatus.UNAUTHORIZED);
-    // });
+      const res = await request(app)
+        .post("/v1/auth/reset-password")
+        .query({ token: resetPasswordToken })
+        .send({ password: "password2" })
+        .expect(httpStatus.UNAUTHORIZED);
+
+      expect(res.body).toEqual({
+        code: httpStatus.UNAUTHORIZED,
+        message: "Password reset failed",
+        error: "token_expired",
+      });
+    });
+
+    test("should return 401 with token_invalid if reset password token is unknown", async () => {
+      const res = await request(app)
+        .post("/v1/auth/reset-password")
+        .query({ token: "unknown" })
+        .send({ password: "password2" })
+        .expect(httpStatus.UNAUTHORIZED);
+
+      expect(res.body.error).toBe("token_invalid");
+    });
+
+    test("should return 400 if the password was used recently", async () => {
+      await insertUsers([userOne]);
+      const resetPassword = async (password: string, status: number) => {
+        const resetPasswordToken =
+          await tokenService.generateResetPasswordToken(userOne.email);
+        return request(app)
+          .post("/v1/auth/reset-password")
+          .query({ token: resetPasswordToken })
+          .send({ password })
+          .expect(status);
+      };
+
+      const res = await resetPassword(userOne.password, httpStatus.BAD_REQUEST);
+      expect(res.body.violations).toEqual([
+        { rule: "history", message: expect.any(String) },
+      ]);
+
+      await resetPassword("password2", httpStatus.NO_CONTENT);
+      await resetPassword("password3", httpStatus.NO_CONTENT);
+      await resetPassword("password2", httpStatus.BAD_REQUEST);
+    });
 
     test("should return 400 if password is missing or invalid", async () => {
       await insertUsers([userOne]);
@@ -355,6 +1253,104 @@ describe("Auth routes", () => {
     });
   });
 
+  describe("POST /v1/auth/change-password", () => {
+    test("should return 204, change the password and revoke the other sessions", async () => {
+      await insertUsers([userOne]);
+      const currentToken = await loginAs(userOne.id);
+      const otherToken = await loginAs(userOne.id);
+      const sendPasswordChangedEmailSpy = vi
+        .spyOn(emailService, "sendPasswordChangedEmail")
+        .mockImplementationOnce(() => new Promise((resolve) => resolve()));
+
+      await request(app)
+        .post("/v1/auth/change-password")
+        .set("Authorization", `Bearer ${currentToken}`)
+        .send({
+          currentPassword: userOne.password,
+          newPassword: "password@123",
+        })
+        .expect(httpStatus.NO_CONTENT);
+
+      const dbUser = (await prisma.user.findUnique({
+        where: { id: userOne.id },
+      })) as User;
+      expect(
+        await bcrypt.compare("password@123", dbUser.password as string)
+      ).toBe(true);
+      expect(
+        (await tokenService.validateSessionToken(currentToken)).session
+      ).not.toBeNull();
+      expect(
+        (await tokenService.validateSessionToken(otherToken)).session
+      ).toBeNull();
+      expect(sendPasswordChangedEmailSpy).toHaveBeenCalledWith(userOne.email);
+    });
+
+    test("should revoke the current session too if configured to", async () => {
+      await insertUsers([userOne]);
+      const currentToken = await loginAs(userOne.id);
+      config.passwordChange.revokeSessions = "all";
+
+      try {
+        await request(app)
+          .post("/v1/auth/change-password")
+          .set("Authorization", `Bearer ${currentToken}`)
+          .send({
+            currentPassword: userOne.password,
+            newPassword: "password@123",
+          })
+          .expect(httpStatus.NO_CONTENT);
+      } finally {
+        config.passwordChange.revokeSessions = "others";
+      }
+
+      expect(
+        await prisma.session.count({ where: { userId: userOne.id } })
+      ).toBe(0);
+    });
+
+    test("should return 400 if the current password is wrong", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/auth/change-password")
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          currentPassword: "wrongPassword1",
+          newPassword: "password@123",
+        })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test("should return 400 when users change their own password through PATCH /v1/users/:userId", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ password: "password@123" })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test("should revoke every session when an admin changes the password", async () => {
+      await insertUsers([userOne, admin]);
+      await loginAs(userOne.id);
+      const adminToken = await loginAs(admin.id);
+
+      await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ password: "password@123" })
+        .expect(httpStatus.OK);
+
+      expect(
+        await prisma.session.count({ where: { userId: userOne.id } })
+      ).toBe(0);
+    });
+  });
+
   describe("POST /v1/auth/send-verification-email", () => {
     beforeEach(() => {
       vi.spyOn(emailService.transport, "sendMail").mockClear();
@@ -526,6 +1522,54 @@ describe("Auth middleware", () => {
     expect((req.user as User).id).toEqual(dbUserOne.id);
   });
 
+  test("should call next with the error if looking up the token fails", async () => {
+    const error = new Error("database is down");
+    const spy = vi
+      .spyOn(tokenService, "validateSessionToken")
+      .mockRejectedValue(error);
+    const req = httpMocks.createRequest({
+      headers: { Authorization: "Bearer some-token" },
+    });
+    const next = vi.fn();
+
+    try {
+      await auth()(req, httpMocks.createResponse(), next);
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(next).toHaveBeenCalledWith(error);
+  });
+
+  test("should call next with no errors if an access token from the tokens mode is valid", async () => {
+    await insertUsers([userOne]);
+    const tokens = await tokenService.generateAuthTokens({ id: userOne.id });
+    const req = httpMocks.createRequest({
+      headers: { Authorization: `Bearer ${tokens.access.token}` },
+    });
+    const next = vi.fn();
+
+    await auth()(req, httpMocks.createResponse(), next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect((req.user as User).id).toEqual(userOne.id);
+  });
+
+  test("should call next with unauthorized error if a refresh token is used as access token", async () => {
+    await insertUsers([userOne]);
+    const tokens = await tokenService.generateAuthTokens({ id: userOne.id });
+    const req = httpMocks.createRequest({
+      headers: { Authorization: `Bearer ${tokens.refresh?.token}` },
+    });
+    const next = vi.fn();
+
+    await auth()(req, httpMocks.createResponse(), next);
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: httpStatus.UNAUTHORIZED })
+    );
+  });
+
   test("should call next with unauthorized error if access token is not found in header", async () => {
     await insertUsers([userOne]);
     const req = httpMocks.createRequest();
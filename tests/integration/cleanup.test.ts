@@ -0,0 +1,217 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import moment from "moment";
+import { TokenType } from "@prisma/client";
+import app from "../../src/app.js";
+import config from "../../src/config/config.js";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, test, expect } from "vitest";
+import { userOne, admin, insertUsers } from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+const saveRefreshToken = (
+  token: string,
+  expires: moment.Moment,
+  blacklisted = false,
+  createdAt = new Date()
+) =>
+  prisma.token.create({
+    data: {
+      token,
+      userId: userOne.id,
+      type: TokenType.REFRESH,
+      expires: expires.toDate(),
+      blacklisted,
+      createdAt,
+      family: "family",
+    },
+  });
+
+describe("Maintenance routes", () => {
+  describe("POST /v1/maintenance/cleanup", () => {
+    test("should return 200 and delete only what stopped being useful", async () => {
+      await insertUsers([admin, userOne]);
+      const adminToken = await loginAs(admin.id);
+      await prisma.session.create({
+        data: {
+          id: "expired-session",
+          userId: userOne.id,
+          expiresAt: moment().subtract(1, "minute").toDate(),
+        },
+      });
+      await saveRefreshToken("expired", moment().subtract(1, "minute"));
+      await saveRefreshToken(
+        "rotated-long-ago",
+        moment().add(1, "day"),
+        true,
+        moment()
+          .subtract(config.cleanup.rotatedTokenRetentionDays + 1, "days")
+          .toDate()
+      );
+      await saveRefreshToken("rotated-recently", moment().add(1, "day"), true);
+      await saveRefreshToken("current", moment().add(1, "day"));
+      await prisma.invitation.create({
+        data: {
+          email: "expired@example.com",
+          token: "expired-invitation",
+          expiresAt: moment().subtract(1, "minute").toDate(),
+        },
+      });
+
+      const res = await request(app)
+        .post("/v1/maintenance/cleanup")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({
+        trigger: "manual",
+        deleted: { sessions: 1, tokens: 2, invitations: 1, apiKeys: 0 },
+      });
+      expect(
+        await prisma.session.count({ where: { userId: userOne.id } })
+      ).toBe(0);
+      expect(await prisma.session.count({ where: { userId: admin.id } })).toBe(
+        1
+      );
+      const tokens = await prisma.token.findMany({
+        where: { userId: userOne.id },
+        orderBy: { token: "asc" },
+      });
+      expect(tokens.map(({ token }) => token)).toEqual([
+        "current",
+        "rotated-recently",
+      ]);
+      expect(await prisma.invitation.count()).toBe(0);
+    });
+
+    test("should delete login lockouts only once they no longer hold", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+      const past = moment().subtract(1, "minute").toDate();
+      const future = moment().add(5, "minutes").toDate();
+      await prisma.loginLockout.createMany({
+        data: [
+          {
+            email: "expired@example.com",
+            failedAttempts: 5,
+            lockedUntil: past,
+            nextAttemptAt: past,
+          },
+          {
+            email: "locked@example.com",
+            failedAttempts: 5,
+            lockedUntil: future,
+            nextAttemptAt: past,
+          },
+          {
+            email: "delayed@example.com",
+            failedAttempts: 2,
+            nextAttemptAt: future,
+          },
+        ],
+      });
+
+      const res = await request(app)
+        .post("/v1/maintenance/cleanup")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.deleted.loginLockouts).toBe(1);
+      const lockouts = await prisma.loginLockout.findMany({
+        orderBy: { email: "asc" },
+      });
+      expect(lockouts.map(({ email }) => email)).toEqual([
+        "delayed@example.com",
+        "locked@example.com",
+      ]);
+    });
+
+    test("should delete in batches", async () => {
+      await insertUsers([admin, userOne]);
+      const adminToken = await loginAs(admin.id);
+      await prisma.token.createMany({
+        data: Array.from({ length: 5 }, (_, i) => ({
+          token: `expired-${i}`,
+          userId: userOne.id,
+          type: TokenType.RESET_PASSWORD,
+          expires: moment().subtract(1, "minute").toDate(),
+          blacklisted: false,
+        })),
+      });
+      const { batchSize } = config.cleanup;
+      config.cleanup.batchSize = 2;
+      try {
+        const res = await request(app)
+          .post("/v1/maintenance/cleanup")
+          .set("Authorization", `Bearer ${adminToken}`)
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body.deleted.tokens).toBe(5);
+        expect(await prisma.token.count()).toBe(0);
+      } finally {
+        config.cleanup.batchSize = batchSize;
+      }
+    });
+
+    test("should return 409 while another instance holds the lease", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+      await prisma.jobLock.create({
+        data: {
+          name: "cleanup",
+          lockedUntil: moment().add(5, "minutes").toDate(),
+          lockedBy: "another-instance",
+        },
+      });
+
+      await request(app)
+        .post("/v1/maintenance/cleanup")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.CONFLICT);
+    });
+
+    test("should return 403 if the user is not an admin", async () => {
+      await insertUsers([userOne]);
+      const userOneToken = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/maintenance/cleanup")
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe("GET /v1/maintenance/cleanup", () => {
+    test("should return 200 and the totals of the runs", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+      await request(app)
+        .post("/v1/maintenance/cleanup")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      const res = await request(app)
+        .get("/v1/maintenance/cleanup")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({
+        instance: expect.any(String),
+        runs: expect.any(Number),
+        deleted: expect.objectContaining({ sessions: expect.any(Number) }),
+        lastRun: expect.objectContaining({ trigger: "manual" }),
+      });
+      expect(res.body.runs).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import { emailService, tokenService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, beforeEach, test, expect, vi } from "vitest";
+import { userOne, userTwo, insertUsers } from "../fixtures/user.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+const chromeOnWindows =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+const firefoxOnLinux =
+  "Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0";
+
+const login = (userAgent: string) =>
+  request(app)
+    .post("/v1/auth/login")
+    .set("User-Agent", userAgent)
+    .send({ email: userOne.email, password: userOne.password })
+    .expect(httpStatus.OK);
+
+const mockNewDeviceEmail = () =>
+  vi
+    .spyOn(emailService, "sendNewDeviceEmail")
+    .mockImplementationOnce(() => new Promise((resolve) => resolve()));
+
+// log in from a known device, then from a new one, returning the alert links
+const loginFromNewDevice = async () => {
+  await login(chromeOnWindows);
+  const sendNewDeviceEmailSpy = mockNewDeviceEmail();
+  const res = await login(firefoxOnLinux);
+  const [, , confirmToken, denyToken] = sendNewDeviceEmailSpy.mock.calls[0];
+  return { token: res.body.token as string, confirmToken, denyToken };
+};
+
+describe("Known devices", () => {
+  beforeEach(() => {
+    vi.spyOn(emailService.transport, "sendMail").mockClear();
+  });
+
+  describe("Login", () => {
+    test("should remember the first device without an alert", async () => {
+      await insertUsers([userOne]);
+      const sendNewDeviceEmailSpy = vi.spyOn(
+        emailService,
+        "sendNewDeviceEmail"
+      );
+
+      await login(chromeOnWindows);
+
+      expect(sendNewDeviceEmailSpy).not.toHaveBeenCalled();
+      const devices = await prisma.knownDevice.findMany({
+        where: { userId: userOne.id },
+      });
+      expect(devices).toHaveLength(1);
+      expect(devices[0]).toMatchObject({
+        browser: "Chrome",
+        os: "Windows",
+        ipSubnet: "127.0.0.0/24",
+      });
+    });
+
+    test("should send an alert for a new device only once", async () => {
+      await insertUsers([userOne]);
+      await login(chromeOnWindows);
+      const sendNewDeviceEmailSpy = mockNewDeviceEmail();
+
+      await login(firefoxOnLinux);
+      await login(firefoxOnLinux);
+      await login(chromeOnWindows);
+
+      expect(sendNewDeviceEmailSpy).toHaveBeenCalledTimes(1);
+      expect(sendNewDeviceEmailSpy).toHaveBeenCalledWith(
+        userOne.email,
+        expect.objectContaining({ browser: "Firefox", os: "Linux" }),
+        expect.any(String),
+        expect.any(String)
+      );
+      expect(
+        await prisma.knownDevice.count({ where: { userId: userOne.id } })
+      ).toBe(2);
+    });
+  });
+
+  describe("POST /v1/auth/confirm-device", () => {
+    test("should return 204 and keep the device", async () => {
+      await insertUsers([userOne]);
+      const { confirmToken, denyToken } = await loginFromNewDevice();
+
+      await request(app)
+        .post("/v1/auth/confirm-device")
+        .query({ token: confirmToken })
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      expect(
+        await prisma.knownDevice.count({ where: { userId: userOne.id } })
+      ).toBe(2);
+      await request(app)
+        .post("/v1/auth/deny-device")
+        .query({ token: denyToken })
+        .send()
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 401 if the token is reused", async () => {
+      await insertUsers([userOne]);
+      const { confirmToken } = await loginFromNewDevice();
+
+      await request(app)
+        .post("/v1/auth/confirm-device")
+        .query({ token: confirmToken })
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+      await request(app)
+        .post("/v1/auth/confirm-device")
+        .query({ token: confirmToken })
+        .send()
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+
+  describe("POST /v1/auth/deny-device", () => {
+    test("should return 204, revoke the sessions and require a password reset", async () => {
+      await insertUsers([userOne]);
+      const { token, denyToken } = await loginFromNewDevice();
+      const sendResetPasswordEmailSpy = vi
+        .spyOn(emailService, "sendResetPasswordEmail")
+        .mockImplementationOnce(() => new Promise((resolve) => resolve()));
+
+      await request(app)
+        .post("/v1/auth/deny-device")
+        .query({ token: denyToken })
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      expect(sendResetPasswordEmailSpy).toHaveBeenCalledWith(
+        userOne.email,
+        expect.any(String)
+      );
+      expect(
+        await prisma.session.count({ where: { userId: userOne.id } })
+      ).toBe(0);
+      expect(
+        await prisma.knownDevice.count({ where: { userId: userOne.id } })
+      ).toBe(1);
+      await request(app)
+        .get("/v1/auth/devices")
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.UNAUTHORIZED);
+      await request(app)
+        .post("/v1/auth/login")
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 401 if the token is invalid", async () => {
+      await request(app)
+        .post("/v1/auth/deny-device")
+        .query({ token: "invalid" })
+        .send()
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+
+  describe("GET /v1/auth/devices", () => {
+    test("should return 200 and the known devices of the user", async () => {
+      await insertUsers([userOne]);
+      const { token } = await loginFromNewDevice();
+
+      const res = await request(app)
+        .get("/v1/auth/devices")
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toHaveLength(2);
+      expect(res.body[0]).toEqual({
+        id: expect.any(Number),
+        browser: "Firefox",
+        os: "Linux",
+        ipSubnet: "127.0.0.0/24",
+        createdAt: expect.any(String),
+        lastSeenAt: expect.any(String),
+      });
+    });
+  });
+
+  describe("DELETE /v1/auth/devices/:deviceId", () => {
+    test("should return 204 and forget the device", async () => {
+      await insertUsers([userOne]);
+      const res = await login(chromeOnWindows);
+      const device = await prisma.knownDevice.findFirstOrThrow({
+        where: { userId: userOne.id },
+      });
+
+      await request(app)
+        .delete(`/v1/auth/devices/${device.id}`)
+        .set("Authorization", `Bearer ${res.body.token}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      expect(
+        await prisma.knownDevice.count({ where: { userId: userOne.id } })
+      ).toBe(0);
+    });
+
+    test("should return 404 for a device of another user", async () => {
+      await insertUsers([userOne, userTwo]);
+      await login(chromeOnWindows);
+      const device = await prisma.knownDevice.findFirstOrThrow({
+        where: { userId: userOne.id },
+      });
+      const token = await tokenService.generateSessionToken();
+      await tokenService.createSession(token, userTwo.id);
+
+      await request(app)
+        .delete(`/v1/auth/devices/${device.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+});
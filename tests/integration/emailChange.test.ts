@@ -0,0 +1,215 @@
+import request from "supertest";
+import { faker } from "@faker-js/faker";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import { emailService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, beforeEach, test, expect, vi } from "vitest";
+import {
+  userOne,
+  userTwo,
+  admin,
+  insertUsers,
+} from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+const mockEmailChangeEmails = () => ({
+  confirmSpy: vi
+    .spyOn(emailService, "sendEmailChangeConfirmationEmail")
+    .mockImplementationOnce(() => new Promise((resolve) => resolve())),
+  noticeSpy: vi
+    .spyOn(emailService, "sendEmailChangeNoticeEmail")
+    .mockImplementationOnce(() => new Promise((resolve) => resolve())),
+});
+
+describe("Email change", () => {
+  beforeEach(() => {
+    vi.spyOn(emailService.transport, "sendMail").mockClear();
+  });
+
+  describe("PATCH /v1/users/:userId", () => {
+    test("should keep the current email and mail both addresses", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+      const { confirmSpy, noticeSpy } = mockEmailChangeEmails();
+      const newEmail = faker.internet.email().toLowerCase();
+
+      const res = await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ email: newEmail })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({
+        email: userOne.email,
+        pendingEmail: newEmail,
+      });
+      expect(confirmSpy).toHaveBeenCalledWith(newEmail, expect.any(String));
+      expect(noticeSpy).toHaveBeenCalledWith(
+        userOne.email,
+        newEmail,
+        expect.any(String)
+      );
+      const dbUser = await prisma.user.findUnique({
+        where: { id: userOne.id },
+      });
+      expect(dbUser?.email).toBe(userOne.email);
+    });
+
+    test("should return 400 if the new email is already taken", async () => {
+      await insertUsers([userOne, userTwo]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ email: userTwo.email })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test("should let admins change the email right away and mark it unverified", async () => {
+      await insertUsers([{ ...userOne, isEmailVerified: true }, admin]);
+      const token = await loginAs(admin.id);
+      const newEmail = faker.internet.email().toLowerCase();
+
+      const res = await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ email: newEmail, skipEmailConfirmation: true })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({ email: newEmail });
+      expect(res.body.pendingEmail).toBeUndefined();
+      const dbUser = await prisma.user.findUnique({
+        where: { id: userOne.id },
+      });
+      expect(dbUser).toMatchObject({
+        email: newEmail,
+        isEmailVerified: false,
+      });
+    });
+
+    test("should return 403 if a user tries to skip the confirmation", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          email: faker.internet.email().toLowerCase(),
+          skipEmailConfirmation: true,
+        })
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  const requestEmailChange = async (userId: string, newEmail: string) => {
+    const token = await loginAs(userId);
+    const { confirmSpy, noticeSpy } = mockEmailChangeEmails();
+    await request(app)
+      .patch(`/v1/users/${userId}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ email: newEmail })
+      .expect(httpStatus.OK);
+    return {
+      confirmToken: confirmSpy.mock.calls[0][1],
+      cancelToken: noticeSpy.mock.calls[0][2],
+    };
+  };
+
+  describe("POST /v1/auth/confirm-email-change", () => {
+    test("should return 204, switch the email and mark it verified", async () => {
+      await insertUsers([userOne]);
+      const newEmail = faker.internet.email().toLowerCase();
+      const { confirmToken } = await requestEmailChange(userOne.id, newEmail);
+
+      await request(app)
+        .post("/v1/auth/confirm-email-change")
+        .query({ token: confirmToken })
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      const dbUser = await prisma.user.findUnique({
+        where: { id: userOne.id },
+      });
+      expect(dbUser).toMatchObject({ email: newEmail, isEmailVerified: true });
+      expect(
+        await prisma.emailChange.count({ where: { userId: userOne.id } })
+      ).toBe(0);
+    });
+
+    test("should return 401 if the confirmation token is reused", async () => {
+      await insertUsers([userOne]);
+      const { confirmToken } = await requestEmailChange(
+        userOne.id,
+        faker.internet.email().toLowerCase()
+      );
+
+      await request(app)
+        .post("/v1/auth/confirm-email-change")
+        .query({ token: confirmToken })
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+      await request(app)
+        .post("/v1/auth/confirm-email-change")
+        .query({ token: confirmToken })
+        .send()
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 401 if the email change has expired", async () => {
+      await insertUsers([userOne]);
+      const { confirmToken } = await requestEmailChange(
+        userOne.id,
+        faker.internet.email().toLowerCase()
+      );
+      await prisma.emailChange.update({
+        where: { userId: userOne.id },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      await request(app)
+        .post("/v1/auth/confirm-email-change")
+        .query({ token: confirmToken })
+        .send()
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+
+  describe("POST /v1/auth/cancel-email-change", () => {
+    test("should return 204 and drop the pending change", async () => {
+      await insertUsers([userOne]);
+      const { confirmToken, cancelToken } = await requestEmailChange(
+        userOne.id,
+        faker.internet.email().toLowerCase()
+      );
+
+      await request(app)
+        .post("/v1/auth/cancel-email-change")
+        .query({ token: cancelToken })
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      await request(app)
+        .post("/v1/auth/confirm-email-change")
+        .query({ token: confirmToken })
+        .send()
+        .expect(httpStatus.UNAUTHORIZED);
+      const dbUser = await prisma.user.findUnique({
+        where: { id: userOne.id },
+      });
+      expect(dbUser?.email).toBe(userOne.email);
+    });
+
+    test("should return 400 if the cancel token is missing", async () => {
+      await request(app)
+        .post("/v1/auth/cancel-email-change")
+        .send()
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+});
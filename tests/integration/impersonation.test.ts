@@ -0,0 +1,298 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import config from "../../src/config/config.js";
+import { apiKeyService, roleService, tokenService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, test, expect, vi } from "vitest";
+import {
+  userOne,
+  userTwo,
+  admin,
+  insertUsers,
+} from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+const impersonate = async (userId: string) => {
+  const adminToken = await loginAs(admin.id);
+  const res = await request(app)
+    .post("/v1/impersonation")
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send({ userId })
+    .expect(httpStatus.CREATED);
+  return res.body.token as string;
+};
+
+describe("Impersonation routes", () => {
+  describe("POST /v1/impersonation", () => {
+    test("should return 201 and a short-lived session acting as the user", async () => {
+      await insertUsers([userOne, admin]);
+      const adminToken = await loginAs(admin.id);
+
+      const res = await request(app)
+        .post("/v1/impersonation")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ userId: userOne.id })
+        .expect(httpStatus.CREATED);
+
+      expect(res.body.user).toMatchObject({ id: userOne.id });
+      expect(res.body.user).not.toHaveProperty("password");
+      const { session, user } = await tokenService.validateSessionToken(
+        res.body.token
+      );
+      expect(user?.id).toBe(userOne.id);
+      expect(session?.impersonatorId).toBe(admin.id);
+      const lifetime = (session?.expiresAt.getTime() ?? 0) - Date.now();
+      expect(lifetime).toBeLessThanOrEqual(
+        config.impersonation.expirationMinutes * 60 * 1000
+      );
+      expect(
+        await prisma.impersonationEvent.findFirst({
+          where: { action: "START", userId: userOne.id },
+        })
+      ).toMatchObject({ impersonatorId: admin.id, sessionId: session?.id });
+    });
+
+    test("should return 403 if the caller is not an admin", async () => {
+      await insertUsers([userOne, userTwo]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/impersonation")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ userId: userTwo.id })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 if the target is an admin", async () => {
+      const otherAdmin = { ...admin, id: userTwo.id, email: userTwo.email };
+      await insertUsers([admin, otherAdmin]);
+      const adminToken = await loginAs(admin.id);
+
+      await request(app)
+        .post("/v1/impersonation")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ userId: otherAdmin.id })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 if the target holds a right the caller lacks", async () => {
+      await insertUsers([userOne, userTwo]);
+      const support = await roleService.createRole({
+        name: "support",
+        permissions: ["impersonateUsers"],
+      });
+      const auditor = await roleService.createRole({
+        name: "auditor",
+        permissions: ["manageRoles"],
+      });
+      await roleService.assignRole(userOne.id, support.id);
+      await roleService.assignRole(userTwo.id, auditor.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/impersonation")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ userId: userTwo.id })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 404 if the user does not exist", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+
+      await request(app)
+        .post("/v1/impersonation")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ userId: userOne.id })
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe("Requests while impersonating", () => {
+    test("should record every request", async () => {
+      await insertUsers([userOne, admin]);
+      const token = await impersonate(userOne.id);
+
+      await request(app)
+        .get(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.OK);
+
+      await vi.waitFor(async () => {
+        expect(
+          await prisma.impersonationEvent.findFirst({
+            where: { action: "REQUEST", userId: userOne.id },
+          })
+        ).toMatchObject({
+          impersonatorId: admin.id,
+          method: "GET",
+          path: `/v1/users/${userOne.id}`,
+          statusCode: httpStatus.OK,
+        });
+      });
+    });
+
+    test("should return 403 when deleting the account", async () => {
+      await insertUsers([userOne, admin]);
+      const token = await impersonate(userOne.id);
+
+      await request(app)
+        .delete(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(await prisma.user.count({ where: { id: userOne.id } })).toBe(1);
+    });
+
+    test("should return 403 when changing the password", async () => {
+      await insertUsers([userOne, admin]);
+      const token = await impersonate(userOne.id);
+
+      await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ password: "newPassword1" })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 when managing two-factor authentication", async () => {
+      await insertUsers([userOne, admin]);
+      const token = await impersonate(userOne.id);
+
+      await request(app)
+        .post("/v1/auth/2fa/enroll")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 when revoking an API key", async () => {
+      await insertUsers([userOne, admin]);
+      const { apiKey } = await apiKeyService.createApiKey(userOne.id, {
+        name: "CI",
+      });
+      const token = await impersonate(userOne.id);
+
+      await request(app)
+        .delete(`/v1/users/me/api-keys/${apiKey.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(await prisma.apiKey.count()).toBe(1);
+    });
+
+    test("should return 403 when linking or unlinking a social account", async () => {
+      await insertUsers([userOne, admin]);
+      const identity = await prisma.identity.create({
+        data: { userId: userOne.id, provider: "github", subject: "12345" },
+      });
+      const token = await impersonate(userOne.id);
+
+      await request(app)
+        .post("/v1/auth/oauth/github/link")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .delete(`/v1/auth/oauth/identities/${identity.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(await prisma.identity.count()).toBe(1);
+    });
+
+    test("should return 403 when revoking sessions or forgetting devices", async () => {
+      await insertUsers([userOne, admin]);
+      await loginAs(userOne.id);
+      const device = await prisma.knownDevice.create({
+        data: { userId: userOne.id, fingerprint: "laptop" },
+      });
+      const token = await impersonate(userOne.id);
+      const { session } = await tokenService.validateSessionToken(token);
+
+      await request(app)
+        .delete("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .delete(`/v1/auth/sessions/${session?.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .delete(`/v1/users/${userOne.id}/sessions`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .delete(`/v1/auth/devices/${device.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(
+        await prisma.session.count({ where: { userId: userOne.id } })
+      ).toBe(2);
+      expect(await prisma.knownDevice.count()).toBe(1);
+    });
+  });
+
+  describe("POST /v1/impersonation/stop", () => {
+    test("should return 204, end the session and record it", async () => {
+      await insertUsers([userOne, admin]);
+      const token = await impersonate(userOne.id);
+
+      await request(app)
+        .post("/v1/impersonation/stop")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      await request(app)
+        .get(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.UNAUTHORIZED);
+      expect(
+        await prisma.impersonationEvent.count({
+          where: { action: "STOP", userId: userOne.id },
+        })
+      ).toBe(1);
+    });
+
+    test("should return 400 if the session is not an impersonation", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/impersonation/stop")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe("GET /v1/impersonation/events", () => {
+    test("should return the audit trail to admins", async () => {
+      await insertUsers([userOne, admin]);
+      await impersonate(userOne.id);
+      const adminToken = await loginAs(admin.id);
+
+      const res = await request(app)
+        .get("/v1/impersonation/events")
+        .query({ userId: userOne.id })
+        .set("Authorization", `Bearer ${adminToken}`)
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual([
+        expect.objectContaining({ action: "START", impersonatorId: admin.id }),
+      ]);
+    });
+
+    test("should return 403 if the caller is not an admin", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .get("/v1/impersonation/events")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+});
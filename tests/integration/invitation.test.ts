@@ -0,0 +1,277 @@
+import request from "supertest";
+import { faker } from "@faker-js/faker";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import config from "../../src/config/config.js";
+import { emailService, roleService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, beforeEach, test, expect, vi } from "vitest";
+import { userOne, admin, insertUsers } from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+const mockInvitationEmail = () =>
+  vi
+    .spyOn(emailService, "sendInvitationEmail")
+    .mockImplementationOnce(() => new Promise((resolve) => resolve()));
+
+// invite an email as admin, returning the invitation and its link token
+const invite = async (email: string, role = "USER") => {
+  const adminToken = await loginAs(admin.id);
+  const sendInvitationEmailSpy = mockInvitationEmail();
+  const res = await request(app)
+    .post("/v1/invitations")
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send({ email, role })
+    .expect(httpStatus.CREATED);
+  return {
+    adminToken,
+    invitation: res.body,
+    token: sendInvitationEmailSpy.mock.calls[0][1],
+  };
+};
+
+describe("Invitation routes", () => {
+  beforeEach(() => {
+    vi.spyOn(emailService.transport, "sendMail").mockClear();
+  });
+
+  describe("POST /v1/invitations", () => {
+    test("should return 201 and email the invitation link", async () => {
+      await insertUsers([admin]);
+      const email = faker.internet.email().toLowerCase();
+      const adminToken = await loginAs(admin.id);
+      const sendInvitationEmailSpy = mockInvitationEmail();
+
+      const res = await request(app)
+        .post("/v1/invitations")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ email, role: "ADMIN" })
+        .expect(httpStatus.CREATED);
+
+      expect(res.body).toEqual({
+        id: expect.any(Number),
+        email,
+        role: "ADMIN",
+        expiresAt: expect.any(String),
+        createdAt: expect.any(String),
+        inviterId: admin.id,
+      });
+      expect(sendInvitationEmailSpy).toHaveBeenCalledWith(
+        email,
+        expect.any(String),
+        expect.any(Date)
+      );
+    });
+
+    test("should return 400 if the email is already invited", async () => {
+      await insertUsers([admin]);
+      const email = faker.internet.email().toLowerCase();
+      const { adminToken } = await invite(email);
+
+      await request(app)
+        .post("/v1/invitations")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ email })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test("should return 400 if the email belongs to a user", async () => {
+      await insertUsers([admin, userOne]);
+      const adminToken = await loginAs(admin.id);
+
+      await request(app)
+        .post("/v1/invitations")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ email: userOne.email })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test("should return 403 if the user is not an admin", async () => {
+      await insertUsers([userOne]);
+      const userOneToken = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/invitations")
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .send({ email: faker.internet.email().toLowerCase() })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 if the role has a right the inviter lacks", async () => {
+      await insertUsers([userOne]);
+      const role = await roleService.createRole({
+        name: "support",
+        permissions: ["manageUsers"],
+      });
+      await roleService.assignRole(userOne.id, role.id);
+      const userOneToken = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/invitations")
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .send({ email: faker.internet.email().toLowerCase(), role: "ADMIN" })
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(await prisma.invitation.count()).toBe(0);
+    });
+  });
+
+  describe("GET /v1/invitations", () => {
+    test("should return 200 and the invitations without their token", async () => {
+      await insertUsers([admin]);
+      const email = faker.internet.email().toLowerCase();
+      const { adminToken } = await invite(email);
+
+      const res = await request(app)
+        .get("/v1/invitations")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toHaveLength(1);
+      expect(res.body[0]).toMatchObject({ email, role: "USER" });
+      expect(res.body[0].token).toBeUndefined();
+    });
+  });
+
+  describe("POST /v1/invitations/accept", () => {
+    test("should return 201 and create a verified user with the invited role", async () => {
+      await insertUsers([admin]);
+      const email = faker.internet.email().toLowerCase();
+      const { token } = await invite(email, "ADMIN");
+
+      const res = await request(app)
+        .post("/v1/invitations/accept")
+        .query({ token })
+        .send({ name: "Invited User", password: "Passwo1d@123" })
+        .expect(httpStatus.CREATED);
+
+      expect(res.body.user).toMatchObject({
+        email,
+        name: "Invited User",
+        role: "ADMIN",
+        isEmailVerified: true,
+      });
+      expect(res.body.user.password).toBeUndefined();
+      expect(res.body.token).toBeDefined();
+      expect(await prisma.invitation.count({ where: { email } })).toBe(0);
+      expect(
+        await prisma.knownDevice.count({ where: { userId: res.body.user.id } })
+      ).toBe(1);
+    });
+
+    test("should return 401 if the invitation is used twice", async () => {
+      await insertUsers([admin]);
+      const { token } = await invite(faker.internet.email().toLowerCase());
+
+      await request(app)
+        .post("/v1/invitations/accept")
+        .query({ token })
+        .send({ name: "Invited User", password: "Passwo1d@123" })
+        .expect(httpStatus.CREATED);
+      await request(app)
+        .post("/v1/invitations/accept")
+        .query({ token })
+        .send({ name: "Invited User", password: "Passwo1d@123" })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 401 if the invitation has expired", async () => {
+      await insertUsers([admin]);
+      const email = faker.internet.email().toLowerCase();
+      const { token } = await invite(email);
+      await prisma.invitation.update({
+        where: { email },
+        data: { expiresAt: new Date(Date.now() - 1000) },
+      });
+
+      await request(app)
+        .post("/v1/invitations/accept")
+        .query({ token })
+        .send({ name: "Invited User", password: "Passwo1d@123" })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+
+  describe("POST /v1/invitations/:invitationId/resend", () => {
+    test("should return 200 and replace the invitation link", async () => {
+      await insertUsers([admin]);
+      const { adminToken, invitation, token } = await invite(
+        faker.internet.email().toLowerCase()
+      );
+      const sendInvitationEmailSpy = mockInvitationEmail();
+
+      await request(app)
+        .post(`/v1/invitations/${invitation.id}/resend`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      const newToken = sendInvitationEmailSpy.mock.calls[0][1];
+      expect(newToken).not.toBe(token);
+      await request(app)
+        .post("/v1/invitations/accept")
+        .query({ token })
+        .send({ name: "Invited User", password: "Passwo1d@123" })
+        .expect(httpStatus.UNAUTHORIZED);
+      await request(app)
+        .post("/v1/invitations/accept")
+        .query({ token: newToken })
+        .send({ name: "Invited User", password: "Passwo1d@123" })
+        .expect(httpStatus.CREATED);
+    });
+  });
+
+  describe("DELETE /v1/invitations/:invitationId", () => {
+    test("should return 204 and make the link stop working", async () => {
+      await insertUsers([admin]);
+      const { adminToken, invitation, token } = await invite(
+        faker.internet.email().toLowerCase()
+      );
+
+      await request(app)
+        .delete(`/v1/invitations/${invitation.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      await request(app)
+        .post("/v1/invitations/accept")
+        .query({ token })
+        .send({ name: "Invited User", password: "Passwo1d@123" })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 404 if the invitation does not exist", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+
+      await request(app)
+        .delete("/v1/invitations/999999")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe("POST /v1/auth/register", () => {
+    test("should return 403 when registration is by invitation only", async () => {
+      config.invitation.inviteOnly = true;
+      try {
+        await request(app)
+          .post("/v1/auth/register")
+          .send({
+            name: faker.name.fullName(),
+            email: faker.internet.email().toLowerCase(),
+            password: "password1",
+          })
+          .expect(httpStatus.FORBIDDEN);
+      } finally {
+        config.invitation.inviteOnly = false;
+      }
+    });
+  });
+});
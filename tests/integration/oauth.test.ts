@@ -0,0 +1,231 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import config from "../../src/config/config.js";
+import { tokenService, twoFactorService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { startMockOidcProvider } from "../utils/mockOidcProvider.js";
+import {
+  describe,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  test,
+  expect,
+} from "vitest";
+import { userOne, insertUsers } from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+import { generateTOTP } from "@oslojs/otp";
+import { decodeBase32IgnorePadding } from "@oslojs/encoding";
+
+setupTestDB();
+
+describe("Social login routes", () => {
+  const client = { clientId: "test-client", clientSecret: "test-secret" };
+  let provider: Awaited<ReturnType<typeof startMockOidcProvider>>;
+
+  // follows the redirect to the provider, which answers with code and state
+  const authorizeWithProvider = async (authorizationUrl: string) => {
+    const providerRes = await fetch(authorizationUrl, { redirect: "manual" });
+    const callbackUrl = new URL(providerRes.headers.get("location") as string);
+    return {
+      code: callbackUrl.searchParams.get("code") as string,
+      state: callbackUrl.searchParams.get("state") as string,
+    };
+  };
+
+  // the cookie binding the flow to the browser that started it
+  const stateCookie = (res: request.Response) => res.headers["set-cookie"];
+
+  const signIn = async () => {
+    const authorizeRes = await request(app)
+      .get("/v1/auth/oauth/oidc/authorize")
+      .expect(httpStatus.FOUND);
+    const query = await authorizeWithProvider(authorizeRes.headers.location);
+    return request(app)
+      .get("/v1/auth/oauth/oidc/callback")
+      .set("Cookie", stateCookie(authorizeRes))
+      .query(query);
+  };
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider(client);
+    config.oauth.oidc = { issuer: provider.issuer, ...client };
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  beforeEach(async () => {
+    await prisma.oAuthState.deleteMany();
+  });
+
+  test("should redirect to the provider with state and a PKCE challenge", async () => {
+    const res = await request(app)
+      .get("/v1/auth/oauth/oidc/authorize")
+      .expect(httpStatus.FOUND);
+
+    const location = new URL(res.headers.location);
+    expect(location.origin).toBe(provider.issuer);
+    expect(location.searchParams.get("state")).toEqual(expect.any(String));
+    expect(location.searchParams.get("code_challenge_method")).toBe("S256");
+  });
+
+  test("should return 404 if the provider is not configured", async () => {
+    await request(app)
+      .get("/v1/auth/oauth/github/authorize")
+      .expect(httpStatus.NOT_FOUND);
+  });
+
+  test("should create a user without a password on first sign in", async () => {
+    provider.setClaims({
+      sub: "new-subject",
+      email: "New.User@example.com",
+      email_verified: true,
+      name: "New User",
+    });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(httpStatus.OK);
+    expect(res.body.user).toMatchObject({
+      email: "new.user@example.com",
+      name: "New User",
+      isEmailVerified: true,
+    });
+    const dbUser = await prisma.user.findUnique({
+      where: { id: res.body.user.id },
+      include: { identity: true },
+    });
+    expect(dbUser?.password).toBeNull();
+    expect(dbUser?.identity).toMatchObject([
+      { provider: "oidc", subject: "new-subject" },
+    ]);
+    const { session } = await tokenService.validateSessionToken(res.body.token);
+    expect(session?.userId).toBe(res.body.user.id);
+  });
+
+  test("should sign in the same user on the next sign in", async () => {
+    provider.setClaims({ sub: "returning", email: "returning@example.com" });
+    const firstRes = await signIn();
+    const secondRes = await signIn();
+
+    expect(secondRes.body.user.id).toBe(firstRes.body.user.id);
+    expect(firstRes.body.user.isEmailVerified).toBe(false);
+  });
+
+  test("should return a two-factor challenge instead of a session for users with 2FA", async () => {
+    provider.setClaims({ sub: "guarded", email: "guarded@example.com" });
+    const firstRes = await signIn();
+    const userId = firstRes.body.user.id;
+    const { secret } = await twoFactorService.enroll({
+      id: userId,
+      email: "guarded@example.com",
+    });
+    await twoFactorService.confirm(
+      userId,
+      generateTOTP(decodeBase32IgnorePadding(secret), 30, 6)
+    );
+    await prisma.session.deleteMany({ where: { userId } });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(httpStatus.OK);
+    expect(res.body).toEqual({
+      twoFactorRequired: true,
+      challengeToken: expect.any(String),
+    });
+    expect(await prisma.session.count({ where: { userId } })).toBe(0);
+  });
+
+  test("should return 409 instead of linking to an unverified local account", async () => {
+    await insertUsers([userOne]);
+    provider.setClaims({
+      sub: "takeover",
+      email: userOne.email,
+      email_verified: true,
+    });
+
+    const res = await signIn();
+
+    expect(res.status).toBe(httpStatus.CONFLICT);
+    expect(await prisma.identity.count()).toBe(0);
+  });
+
+  test("should return 401 if the state is unknown or reused", async () => {
+    const authorizeRes = await request(app)
+      .get("/v1/auth/oauth/oidc/authorize")
+      .expect(httpStatus.FOUND);
+    const query = await authorizeWithProvider(authorizeRes.headers.location);
+    const cookie = stateCookie(authorizeRes);
+
+    await request(app)
+      .get("/v1/auth/oauth/oidc/callback")
+      .set("Cookie", cookie)
+      .query({ ...query, state: "forged" })
+      .expect(httpStatus.UNAUTHORIZED);
+
+    await request(app)
+      .get("/v1/auth/oauth/oidc/callback")
+      .set("Cookie", cookie)
+      .query(query)
+      .expect(httpStatus.OK);
+    await request(app)
+      .get("/v1/auth/oauth/oidc/callback")
+      .set("Cookie", cookie)
+      .query(query)
+      .expect(httpStatus.UNAUTHORIZED);
+  });
+
+  test("should return 401 if the callback comes from another browser than the one that started the flow", async () => {
+    await insertUsers([userOne]);
+    const userOneAccessToken = await loginAs(userOne.id);
+    provider.setClaims({ sub: "victim", email: "victim@example.com" });
+
+    // the attacker starts linking to their account and hands the callback url
+    // to the victim
+    const linkRes = await request(app)
+      .post("/v1/auth/oauth/oidc/link")
+      .set("Authorization", `Bearer ${userOneAccessToken}`)
+      .expect(httpStatus.OK);
+    const query = await authorizeWithProvider(linkRes.body.url);
+
+    await request(app)
+      .get("/v1/auth/oauth/oidc/callback")
+      .query(query)
+      .expect(httpStatus.UNAUTHORIZED);
+
+    expect(await prisma.identity.count()).toBe(0);
+    expect(await prisma.oAuthState.count()).toBe(1);
+  });
+
+  test("should link a provider to the current user", async () => {
+    await insertUsers([userOne]);
+    const userOneAccessToken = await tokenService.generateSessionToken();
+    await tokenService.createSession(userOneAccessToken, userOne.id);
+    provider.setClaims({ sub: "linked", email: "other@example.com" });
+
+    const linkRes = await request(app)
+      .post("/v1/auth/oauth/oidc/link")
+      .set("Authorization", `Bearer ${userOneAccessToken}`)
+      .expect(httpStatus.OK);
+    const query = await authorizeWithProvider(linkRes.body.url);
+    const res = await request(app)
+      .get("/v1/auth/oauth/oidc/callback")
+      .set("Cookie", stateCookie(linkRes))
+      .query(query)
+      .expect(httpStatus.OK);
+
+    expect(res.body.user.id).toBe(userOne.id);
+    expect(res.body).not.toHaveProperty("token");
+    const identitiesRes = await request(app)
+      .get("/v1/auth/oauth/identities")
+      .set("Authorization", `Bearer ${userOneAccessToken}`)
+      .expect(httpStatus.OK);
+    expect(identitiesRes.body).toMatchObject([
+      { provider: "oidc", subject: "linked" },
+    ]);
+  });
+});
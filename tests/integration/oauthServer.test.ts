@@ -0,0 +1,276 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import { oauthServerService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, test, expect } from "vitest";
+import { userOne, admin, insertUsers } from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+import { rights } from "../../src/config/roles.js";
+
+setupTestDB();
+
+const createClient = async (scopes: string[]) => {
+  const { client, clientSecret } = await oauthServerService.createClient({
+    name: "billing service",
+    scopes,
+    ownerId: admin.id,
+  });
+  return { clientId: client.id, clientSecret };
+};
+
+const requestToken = async (
+  clientId: string,
+  clientSecret: string,
+  scope?: string
+) => {
+  const res = await request(app)
+    .post("/v1/oauth/token")
+    .auth(clientId, clientSecret)
+    .type("form")
+    .send({ grant_type: "client_credentials", ...(scope && { scope }) })
+    .expect(httpStatus.OK);
+  return res.body.access_token as string;
+};
+
+describe("OAuth client routes", () => {
+  describe("POST /v1/oauth/clients", () => {
+    test("should return 201 and the secret, and only store its hash", async () => {
+      await insertUsers([admin]);
+      const token = await loginAs(admin.id);
+
+      const res = await request(app)
+        .post("/v1/oauth/clients")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "billing service", scopes: ["getUsers"] })
+        .expect(httpStatus.CREATED);
+
+      expect(res.body.client).toMatchObject({
+        name: "billing service",
+        scopes: ["getUsers"],
+        ownerId: admin.id,
+      });
+      expect(res.body.client).not.toHaveProperty("secret");
+      const dbClient = await prisma.oAuthClient.findUnique({
+        where: { id: res.body.client.id },
+      });
+      expect(dbClient?.secret).not.toBe(res.body.clientSecret);
+    });
+
+    test("should return 403 if the caller is not an admin", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/oauth/clients")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "billing service", scopes: ["getUsers"] })
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe("POST /v1/oauth/token", () => {
+    test("should issue a token with the scopes of the client", async () => {
+      await insertUsers([admin]);
+      const { clientId, clientSecret } = await createClient(["getUsers"]);
+
+      const res = await request(app)
+        .post("/v1/oauth/token")
+        .type("form")
+        .send({
+          grant_type: "client_credentials",
+          client_id: clientId,
+          client_secret: clientSecret,
+        })
+        .expect(httpStatus.OK);
+
+      expect(res.headers["cache-control"]).toBe("no-store");
+      expect(res.body).toEqual({
+        access_token: expect.any(String),
+        token_type: "Bearer",
+        expires_in: expect.any(Number),
+        scope: "getUsers",
+      });
+    });
+
+    test("should return 401 invalid_client if the secret is wrong", async () => {
+      await insertUsers([admin]);
+      const { clientId } = await createClient(["getUsers"]);
+
+      const res = await request(app)
+        .post("/v1/oauth/token")
+        .auth(clientId, "wrong secret")
+        .type("form")
+        .send({ grant_type: "client_credentials" })
+        .expect(httpStatus.UNAUTHORIZED);
+
+      expect(res.body.error).toBe("invalid_client");
+    });
+
+    test("should return 400 invalid_scope if a scope was not granted to the client", async () => {
+      await insertUsers([admin]);
+      const { clientId, clientSecret } = await createClient(["getUsers"]);
+
+      const res = await request(app)
+        .post("/v1/oauth/token")
+        .auth(clientId, clientSecret)
+        .type("form")
+        .send({ grant_type: "client_credentials", scope: "manageUsers" })
+        .expect(httpStatus.BAD_REQUEST);
+
+      expect(res.body.error).toBe("invalid_scope");
+    });
+
+    test("should return 400 if the grant type is not supported", async () => {
+      await insertUsers([admin]);
+      const { clientId, clientSecret } = await createClient(["getUsers"]);
+
+      await request(app)
+        .post("/v1/oauth/token")
+        .auth(clientId, clientSecret)
+        .type("form")
+        .send({ grant_type: "password" })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe("Auth with a client token", () => {
+    test("should allow routes whose rights are in the scopes", async () => {
+      await insertUsers([admin, userOne]);
+      const { clientId, clientSecret } = await createClient([
+        "getUsers",
+        "manageUsers",
+      ]);
+      const accessToken = await requestToken(
+        clientId,
+        clientSecret,
+        "getUsers"
+      );
+
+      await request(app)
+        .get(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${accessToken}`)
+        .expect(httpStatus.OK);
+      await request(app)
+        .delete(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${accessToken}`)
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 if the client manages an admin", async () => {
+      await insertUsers([admin]);
+      // every right an admin holds, so only the client rule can deny
+      const { clientId, clientSecret } = await createClient(rights);
+      const accessToken = await requestToken(clientId, clientSecret);
+
+      await request(app)
+        .patch(`/v1/users/${admin.id}`)
+        .set("Authorization", `Bearer ${accessToken}`)
+        .send({ password: "newPassword1" })
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .delete(`/v1/users/${admin.id}`)
+        .set("Authorization", `Bearer ${accessToken}`)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .post(`/v1/users/${admin.id}/unlock`)
+        .set("Authorization", `Bearer ${accessToken}`)
+        .expect(httpStatus.FORBIDDEN);
+      await request(app)
+        .delete(`/v1/users/${admin.id}/sessions`)
+        .set("Authorization", `Bearer ${accessToken}`)
+        .expect(httpStatus.FORBIDDEN);
+      const dbUser = await prisma.user.findUnique({ where: { id: admin.id } });
+      expect(dbUser).not.toBeNull();
+    });
+
+    test("should return 403 on routes that act on the current user", async () => {
+      await insertUsers([admin]);
+      const { clientId, clientSecret } = await createClient(["getUsers"]);
+      const accessToken = await requestToken(clientId, clientSecret);
+
+      await request(app)
+        .get("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${accessToken}`)
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe("POST /v1/oauth/introspect and /v1/oauth/revoke", () => {
+    test("should report a token active until it is revoked", async () => {
+      await insertUsers([admin]);
+      const { clientId, clientSecret } = await createClient(["getUsers"]);
+      const accessToken = await requestToken(clientId, clientSecret);
+
+      const active = await request(app)
+        .post("/v1/oauth/introspect")
+        .auth(clientId, clientSecret)
+        .type("form")
+        .send({ token: accessToken })
+        .expect(httpStatus.OK);
+      expect(active.body).toMatchObject({
+        active: true,
+        client_id: clientId,
+        scope: "getUsers",
+      });
+
+      await request(app)
+        .post("/v1/oauth/revoke")
+        .auth(clientId, clientSecret)
+        .type("form")
+        .send({ token: accessToken })
+        .expect(httpStatus.OK);
+
+      const revoked = await request(app)
+        .post("/v1/oauth/introspect")
+        .auth(clientId, clientSecret)
+        .type("form")
+        .send({ token: accessToken })
+        .expect(httpStatus.OK);
+      expect(revoked.body).toEqual({ active: false });
+      await request(app)
+        .get("/v1/users")
+        .set("Authorization", `Bearer ${accessToken}`)
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should report tokens of other clients inactive", async () => {
+      await insertUsers([admin]);
+      const first = await createClient(["getUsers"]);
+      const second = await createClient(["getUsers"]);
+      const accessToken = await requestToken(
+        first.clientId,
+        first.clientSecret
+      );
+
+      const res = await request(app)
+        .post("/v1/oauth/introspect")
+        .auth(second.clientId, second.clientSecret)
+        .type("form")
+        .send({ token: accessToken })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({ active: false });
+    });
+  });
+
+  describe("DELETE /v1/oauth/clients/:clientId", () => {
+    test("should return 204 and invalidate the tokens of the client", async () => {
+      await insertUsers([admin]);
+      const token = await loginAs(admin.id);
+      const { clientId, clientSecret } = await createClient(["getUsers"]);
+      const accessToken = await requestToken(clientId, clientSecret);
+
+      await request(app)
+        .delete(`/v1/oauth/clients/${clientId}`)
+        .set("Authorization", `Bearer ${token}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      await request(app)
+        .get("/v1/users")
+        .set("Authorization", `Bearer ${accessToken}`)
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+});
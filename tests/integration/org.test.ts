@@ -0,0 +1,275 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import { OrgRole } from "@prisma/client";
+import app from "../../src/app.js";
+import { orgService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, test, expect } from "vitest";
+import {
+  userOne,
+  userTwo,
+  admin,
+  insertUsers,
+} from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma, { forOrganization } from "../../src/client.js";
+
+setupTestDB();
+
+// create an organization owned by the first user with the others as members
+const createOrg = async (
+  ownerId: string,
+  members: { userId: string; role: OrgRole }[] = []
+) => {
+  const org = await orgService.createOrg(ownerId, { name: "Acme" });
+  if (members.length) {
+    await prisma.membership.createMany({
+      data: members.map((member) => ({ ...member, orgId: org.id })),
+    });
+  }
+  return org;
+};
+
+describe("Organization routes", () => {
+  describe("POST /v1/orgs", () => {
+    test("should return 201 and make the creator the owner", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      const res = await request(app)
+        .post("/v1/orgs")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "Acme" })
+        .expect(httpStatus.CREATED);
+
+      expect(res.body).toMatchObject({ id: expect.any(String), name: "Acme" });
+      const members = await orgService.queryMembers(res.body.id);
+      expect(members).toEqual([
+        expect.objectContaining({ userId: userOne.id, role: OrgRole.OWNER }),
+      ]);
+    });
+  });
+
+  describe("GET /v1/orgs/:orgId", () => {
+    test("should return 200 if members fetch their organization", async () => {
+      await insertUsers([userOne, userTwo]);
+      const org = await createOrg(userOne.id, [
+        { userId: userTwo.id, role: OrgRole.MEMBER },
+      ]);
+      const token = await loginAs(userTwo.id);
+
+      const res = await request(app)
+        .get(`/v1/orgs/${org.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({ id: org.id, name: "Acme" });
+    });
+
+    test("should return 403 if users fetch an organization they are not in", async () => {
+      await insertUsers([userOne, userTwo]);
+      const org = await createOrg(userOne.id);
+      const token = await loginAs(userTwo.id);
+
+      await request(app)
+        .get(`/v1/orgs/${org.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 if platform admins fetch an organization they are not in", async () => {
+      await insertUsers([userOne, admin]);
+      const org = await createOrg(userOne.id);
+      const token = await loginAs(admin.id);
+
+      await request(app)
+        .get(`/v1/orgs/${org.id}/members`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe("POST /v1/orgs/:orgId/members", () => {
+    test("should return 201 if organization admins add a member", async () => {
+      await insertUsers([userOne, userTwo]);
+      const org = await createOrg(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      const res = await request(app)
+        .post(`/v1/orgs/${org.id}/members`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ email: userTwo.email })
+        .expect(httpStatus.CREATED);
+
+      expect(res.body).toMatchObject({
+        userId: userTwo.id,
+        email: userTwo.email,
+        role: OrgRole.MEMBER,
+      });
+    });
+
+    test("should return 403 if members add a member", async () => {
+      await insertUsers([userOne, userTwo, admin]);
+      const org = await createOrg(userOne.id, [
+        { userId: userTwo.id, role: OrgRole.MEMBER },
+      ]);
+      const token = await loginAs(userTwo.id);
+
+      await request(app)
+        .post(`/v1/orgs/${org.id}/members`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ email: admin.email })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 if organization admins add an owner", async () => {
+      await insertUsers([userOne, userTwo, admin]);
+      const org = await createOrg(userOne.id, [
+        { userId: userTwo.id, role: OrgRole.ADMIN },
+      ]);
+      const token = await loginAs(userTwo.id);
+
+      await request(app)
+        .post(`/v1/orgs/${org.id}/members`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ email: admin.email, role: OrgRole.OWNER })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 400 if the user is already a member", async () => {
+      await insertUsers([userOne, userTwo]);
+      const org = await createOrg(userOne.id, [
+        { userId: userTwo.id, role: OrgRole.MEMBER },
+      ]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post(`/v1/orgs/${org.id}/members`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ email: userTwo.email })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe("PATCH /v1/orgs/:orgId/members/:userId", () => {
+    test("should return 404 if the user belongs to another organization", async () => {
+      await insertUsers([userOne, userTwo]);
+      const orgA = await createOrg(userOne.id);
+      const orgB = await createOrg(userTwo.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .patch(`/v1/orgs/${orgA.id}/members/${userTwo.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ role: OrgRole.MEMBER })
+        .expect(httpStatus.NOT_FOUND);
+
+      const members = await orgService.queryMembers(orgB.id);
+      expect(members).toEqual([
+        expect.objectContaining({ userId: userTwo.id, role: OrgRole.OWNER }),
+      ]);
+    });
+
+    test("should return 400 if the last owner steps down", async () => {
+      await insertUsers([userOne]);
+      const org = await createOrg(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .patch(`/v1/orgs/${org.id}/members/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ role: OrgRole.ADMIN })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe("POST /v1/orgs/:orgId/leave", () => {
+    test("should return 400 if the last owner leaves", async () => {
+      await insertUsers([userOne]);
+      const org = await createOrg(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post(`/v1/orgs/${org.id}/leave`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe("PUT /v1/auth/active-org", () => {
+    test("should switch the active organization of the session", async () => {
+      await insertUsers([userOne, userTwo]);
+      const org = await createOrg(userOne.id, [
+        { userId: userTwo.id, role: OrgRole.MEMBER },
+      ]);
+      const token = await loginAs(userTwo.id);
+
+      await request(app)
+        .put("/v1/auth/active-org")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ orgId: org.id })
+        .expect(httpStatus.NO_CONTENT);
+
+      const res = await request(app)
+        .get("/v1/orgs")
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.OK);
+      expect(res.body).toEqual([
+        expect.objectContaining({
+          id: org.id,
+          role: OrgRole.MEMBER,
+          active: true,
+        }),
+      ]);
+
+      await request(app)
+        .post(`/v1/orgs/${org.id}/leave`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      const session = await prisma.session.findFirst({
+        where: { userId: userTwo.id },
+      });
+      expect(session?.activeOrgId).toBeNull();
+    });
+
+    test("should return 404 if the user is not a member", async () => {
+      await insertUsers([userOne, userTwo]);
+      const org = await createOrg(userOne.id);
+      const token = await loginAs(userTwo.id);
+
+      await request(app)
+        .put("/v1/auth/active-org")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ orgId: org.id })
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe("Tenant scoping", () => {
+    test("should not read or change the rows of another organization", async () => {
+      await insertUsers([userOne, userTwo]);
+      const orgA = await createOrg(userOne.id);
+      const orgB = await createOrg(userTwo.id);
+      const tenant = forOrganization(orgA.id);
+
+      expect(
+        await tenant.membership.findMany({ where: { orgId: orgB.id } })
+      ).toEqual([]);
+      const { count } = await tenant.membership.updateMany({
+        where: { userId: userTwo.id },
+        data: { role: OrgRole.MEMBER },
+      });
+      expect(count).toBe(0);
+      expect(
+        await prisma.membership.findFirst({ where: { orgId: orgB.id } })
+      ).toMatchObject({ userId: userTwo.id, role: OrgRole.OWNER });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, test, expect } from "vitest";
+import { userOne, insertUsers } from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+// pretend the sessions of a user were logged in to an hour ago
+const makeLoginStale = async (userId: string) => {
+  await prisma.session.updateMany({
+    where: { userId },
+    data: { authenticatedAt: new Date(Date.now() - 60 * 60 * 1000) },
+  });
+};
+
+describe("Recent authentication", () => {
+  describe("Sensitive routes", () => {
+    test("should pass right after login", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "CI" })
+        .expect(httpStatus.CREATED);
+    });
+
+    test("should return 403 with reauthentication_required if the login is stale", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+      await makeLoginStale(userOne.id);
+
+      const res = await request(app)
+        .post("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "CI" })
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(res.body).toEqual({
+        code: httpStatus.FORBIDDEN,
+        message: "Please reauthenticate to continue",
+        error: "reauthentication_required",
+      });
+    });
+
+    test("should return 403 when changing the own email with a stale login", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+      await makeLoginStale(userOne.id);
+
+      const res = await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ email: "new.email@example.com" })
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(res.body.error).toBe("reauthentication_required");
+    });
+
+    test("should not require reauthentication to update the name", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+      await makeLoginStale(userOne.id);
+
+      await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "New Name" })
+        .expect(httpStatus.OK);
+    });
+  });
+
+  describe("POST /v1/auth/reauthenticate", () => {
+    test("should return 200 and let a stale login pass again", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+      await makeLoginStale(userOne.id);
+
+      const res = await request(app)
+        .post("/v1/auth/reauthenticate")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ password: userOne.password })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({ authenticatedAt: expect.any(String) });
+      await request(app)
+        .post("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "CI" })
+        .expect(httpStatus.CREATED);
+    });
+
+    test("should return 400 and keep the login stale if the password is wrong", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+      await makeLoginStale(userOne.id);
+
+      await request(app)
+        .post("/v1/auth/reauthenticate")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ password: "wrongPassword1" })
+        .expect(httpStatus.BAD_REQUEST);
+
+      await request(app)
+        .post("/v1/users/me/api-keys")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "CI" })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 401 without a login", async () => {
+      await request(app)
+        .post("/v1/auth/reauthenticate")
+        .send({ password: userOne.password })
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+});
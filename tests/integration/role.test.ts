@@ -0,0 +1,272 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import { Role } from "@prisma/client";
+import app from "../../src/app.js";
+import { roleService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, beforeEach, test, expect } from "vitest";
+import { userOne, admin, insertUsers } from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+// create a custom role as admin, returning the role
+const createRole = async (
+  adminToken: string,
+  name: string,
+  permissions: string[] = []
+) => {
+  const res = await request(app)
+    .post("/v1/roles")
+    .set("Authorization", `Bearer ${adminToken}`)
+    .send({ name, permissions })
+    .expect(httpStatus.CREATED);
+  return res.body;
+};
+
+describe("Role routes", () => {
+  beforeEach(() => {
+    roleService.invalidateRights();
+  });
+
+  describe("GET /v1/roles", () => {
+    test("should return 200 and the built-in roles with their rights", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+
+      const res = await request(app)
+        .get("/v1/roles")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      const adminRole = res.body.find(
+        ({ name }: { name: string }) => name === Role.ADMIN
+      );
+      expect(adminRole).toMatchObject({ builtIn: true });
+      expect(adminRole.permissions).toEqual(
+        expect.arrayContaining(["getUsers", "manageRoles"])
+      );
+    });
+
+    test("should return 403 if the user is not an admin", async () => {
+      await insertUsers([userOne]);
+      const userOneToken = await loginAs(userOne.id);
+
+      await request(app)
+        .get("/v1/roles")
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe("POST /v1/roles", () => {
+    test("should return 201 and the role", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+
+      const role = await createRole(adminToken, "support", ["getUsers"]);
+
+      expect(role).toEqual({
+        id: expect.any(Number),
+        name: "support",
+        description: null,
+        builtIn: false,
+        createdAt: expect.any(String),
+        permissions: ["getUsers"],
+      });
+    });
+
+    test("should return 400 if a permission does not exist", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+
+      await request(app)
+        .post("/v1/roles")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ name: "support", permissions: ["deleteEverything"] })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test("should return 400 if the role already exists", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+
+      await request(app)
+        .post("/v1/roles")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ name: Role.ADMIN })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe("Role assignment", () => {
+    test("should give the user the permissions of the role until it is taken away", async () => {
+      await insertUsers([admin, userOne]);
+      const adminToken = await loginAs(admin.id);
+      const userOneToken = await loginAs(userOne.id);
+      const role = await createRole(adminToken, "support");
+      await request(app)
+        .get("/v1/users")
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+
+      await request(app)
+        .put(`/v1/roles/${role.id}/permissions/getUsers`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+      const res = await request(app)
+        .put(`/v1/roles/${role.id}/members/${userOne.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual([expect.objectContaining({ name: "support" })]);
+      await request(app)
+        .get("/v1/users")
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      await request(app)
+        .delete(`/v1/roles/${role.id}/members/${userOne.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+      await request(app)
+        .get("/v1/users")
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should take the permission away from the users of the role when revoked", async () => {
+      await insertUsers([admin, userOne]);
+      const adminToken = await loginAs(admin.id);
+      const userOneToken = await loginAs(userOne.id);
+      const role = await createRole(adminToken, "support", ["getUsers"]);
+      await request(app)
+        .put(`/v1/roles/${role.id}/members/${userOne.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      await request(app)
+        .delete(`/v1/roles/${role.id}/permissions/getUsers`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      await request(app)
+        .get("/v1/users")
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 400 when assigning a built-in role", async () => {
+      await insertUsers([admin, userOne]);
+      const adminToken = await loginAs(admin.id);
+      const adminRole = await prisma.accessRole.findUniqueOrThrow({
+        where: { name: Role.ADMIN },
+      });
+
+      await request(app)
+        .put(`/v1/roles/${adminRole.id}/members/${userOne.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test("should return 403 when users assign a role to themselves", async () => {
+      await insertUsers([admin, userOne]);
+      const adminToken = await loginAs(admin.id);
+      const userOneToken = await loginAs(userOne.id);
+      const role = await createRole(adminToken, "support", ["getUsers"]);
+
+      await request(app)
+        .put(`/v1/roles/${role.id}/members/${userOne.id}`)
+        .set("Authorization", `Bearer ${userOneToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe("DELETE /v1/roles/:roleId", () => {
+    test("should return 400 for a built-in role", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+      const userRole = await prisma.accessRole.findUniqueOrThrow({
+        where: { name: Role.USER },
+      });
+
+      await request(app)
+        .delete(`/v1/roles/${userRole.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test("should return 204 and take the role away from its users", async () => {
+      await insertUsers([admin, userOne]);
+      const adminToken = await loginAs(admin.id);
+      const role = await createRole(adminToken, "support", ["getUsers"]);
+      await request(app)
+        .put(`/v1/roles/${role.id}/members/${userOne.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      await request(app)
+        .delete(`/v1/roles/${role.id}`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      const res = await request(app)
+        .get(`/v1/users/${userOne.id}/roles`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+      expect(res.body).toEqual([]);
+    });
+  });
+
+  describe("Permission routes", () => {
+    test("should create a permission that roles and API keys can use", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+
+      await request(app)
+        .post("/v1/permissions")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ name: "exportReports" })
+        .expect(httpStatus.CREATED);
+
+      await createRole(adminToken, "reporting", ["exportReports"]);
+      const res = await request(app)
+        .get("/v1/permissions")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.OK);
+      expect(res.body.map(({ name }: { name: string }) => name)).toContain(
+        "exportReports"
+      );
+    });
+
+    test("should return 400 when deleting a built-in permission", async () => {
+      await insertUsers([admin]);
+      const adminToken = await loginAs(admin.id);
+
+      await request(app)
+        .delete("/v1/permissions/getUsers")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send()
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+});
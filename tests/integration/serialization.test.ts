@@ -0,0 +1,169 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import { roleService } from "../../src/services";
+import { visibility } from "../../src/config/visibility.js";
+import { pickVisible } from "../../src/utils/serialize.js";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, beforeEach, test, expect } from "vitest";
+import {
+  userOne,
+  userTwo,
+  admin,
+  insertUsers,
+} from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+
+setupTestDB();
+
+// every key anywhere in a response body
+const collectKeys = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(collectKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, child]) => [
+      key,
+      ...collectKeys(child),
+    ]);
+  }
+  return [];
+};
+
+const expectNoInternalFields = (body: unknown) => {
+  const keys = collectKeys(body);
+  expect(keys).not.toContain("password");
+  expect(keys).not.toContain("accessRoles");
+  expect(keys).not.toContain("passwordHistory");
+};
+
+describe("Response serialization", () => {
+  beforeEach(() => {
+    roleService.invalidateRights();
+  });
+
+  test("should not send internal fields when registering", async () => {
+    const res = await request(app)
+      .post("/v1/auth/register")
+      .send({
+        name: "New User",
+        email: "new.user@example.com",
+        password: "Passwo1d@123",
+      })
+      .expect(httpStatus.CREATED);
+
+    expectNoInternalFields(res.body);
+  });
+
+  test("should send users the self fields when they log in", async () => {
+    await insertUsers([userOne]);
+
+    const res = await request(app)
+      .post("/v1/auth/login")
+      .send({ email: userOne.email, password: userOne.password })
+      .expect(httpStatus.OK);
+
+    expectNoInternalFields(res.body);
+    expect(Object.keys(res.body.user).sort()).toEqual(
+      [...visibility.user.fields.self].sort()
+    );
+  });
+
+  test("should send users the self fields of themselves", async () => {
+    await insertUsers([userOne]);
+    const token = await loginAs(userOne.id);
+
+    const res = await request(app)
+      .get(`/v1/users/${userOne.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send()
+      .expect(httpStatus.OK);
+
+    expect(res.body).toEqual({
+      id: userOne.id,
+      name: userOne.name,
+      email: userOne.email,
+      role: userOne.role,
+      isEmailVerified: userOne.isEmailVerified,
+    });
+  });
+
+  test("should send admins the admin fields of other users", async () => {
+    await insertUsers([userOne, admin]);
+    const token = await loginAs(admin.id);
+
+    const res = await request(app)
+      .get(`/v1/users/${userOne.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send()
+      .expect(httpStatus.OK);
+
+    expect(Object.keys(res.body).sort()).toEqual(
+      [...visibility.user.fields.admin].sort()
+    );
+  });
+
+  test("should not send internal fields when admins list and create users", async () => {
+    await insertUsers([userOne, admin]);
+    const token = await loginAs(admin.id);
+
+    const list = await request(app)
+      .get("/v1/users")
+      .set("Authorization", `Bearer ${token}`)
+      .send()
+      .expect(httpStatus.OK);
+    const created = await request(app)
+      .post("/v1/users")
+      .set("Authorization", `Bearer ${token}`)
+      .send({
+        name: "New User",
+        email: "new.user@example.com",
+        password: "Passwo1d@123",
+        role: "USER",
+      })
+      .expect(httpStatus.CREATED);
+
+    expectNoInternalFields(list.body);
+    expectNoInternalFields(created.body);
+  });
+
+  test("should send the other fields to users who manage but cannot read users", async () => {
+    await insertUsers([userOne, userTwo]);
+    const role = await roleService.createRole({
+      name: "editor",
+      permissions: ["manageUsers"],
+    });
+    await roleService.assignRole(userOne.id, role.id);
+    const token = await loginAs(userOne.id);
+
+    const res = await request(app)
+      .patch(`/v1/users/${userTwo.id}`)
+      .set("Authorization", `Bearer ${token}`)
+      .send({ name: "New Name" })
+      .expect(httpStatus.OK);
+
+    expect(res.body).toEqual({ id: userTwo.id, name: "New Name" });
+  });
+
+  test("should not send internal fields when admins impersonate a user", async () => {
+    await insertUsers([userOne, admin]);
+    const token = await loginAs(admin.id);
+
+    const res = await request(app)
+      .post("/v1/impersonation")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ userId: userOne.id })
+      .expect(httpStatus.CREATED);
+
+    expectNoInternalFields(res.body);
+  });
+
+  test("should leave the serialized object unchanged", () => {
+    const user = { ...userOne, createdAt: new Date() };
+
+    const visible = pickVisible("user", "other", user);
+
+    expect(visible).toEqual({ id: userOne.id, name: userOne.name });
+    expect(user.password).toBe(userOne.password);
+  });
+});
@@ -0,0 +1,253 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import { tokenService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, beforeEach, afterEach, test, expect } from "vitest";
+import {
+  userOne,
+  userTwo,
+  admin,
+  insertUsers,
+} from "../fixtures/user.fixture.js";
+import prisma from "../../src/client.js";
+import config from "../../src/config/config.js";
+
+setupTestDB();
+
+const chromeOnMac =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+const firefoxOnWindows =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:125.0) Gecko/20100101 Firefox/125.0";
+
+const createSession = async (userId: string, userAgent?: string) => {
+  const token = await tokenService.generateSessionToken();
+  const session = await tokenService.createSession(token, userId, undefined, {
+    ipAddress: "203.0.113.7",
+    userAgent,
+  });
+  return { token, session };
+};
+
+const loginWithTokens = async () => {
+  const res = await request(app)
+    .post("/v1/auth/login")
+    .send({ email: userOne.email, password: userOne.password })
+    .expect(httpStatus.OK);
+  return res.body.tokens;
+};
+
+const refresh = (refreshToken: string, status: number) =>
+  request(app)
+    .post("/v1/auth/refresh-tokens")
+    .send({ refreshToken })
+    .expect(status);
+
+describe("Session routes", () => {
+  describe("POST /v1/auth/login", () => {
+    test("should store device metadata on the new session", async () => {
+      await insertUsers([userOne]);
+
+      await request(app)
+        .post("/v1/auth/login")
+        .set("User-Agent", chromeOnMac)
+        .send({ email: userOne.email, password: userOne.password })
+        .expect(httpStatus.OK);
+
+      const dbSession = await prisma.session.findFirst({
+        where: { userId: userOne.id },
+      });
+      expect(dbSession).toMatchObject({
+        userAgent: chromeOnMac,
+        deviceLabel: "Chrome on macOS",
+      });
+      expect(dbSession?.ipAddress).toBeTruthy();
+    });
+  });
+
+  describe("GET /v1/auth/sessions", () => {
+    test("should return the sessions of the current user and flag the current one", async () => {
+      await insertUsers([userOne, userTwo]);
+      const current = await createSession(userOne.id, chromeOnMac);
+      const other = await createSession(userOne.id, firefoxOnWindows);
+      await createSession(userTwo.id);
+
+      const res = await request(app)
+        .get("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${current.token}`)
+        .expect(httpStatus.OK);
+
+      expect(res.body).toHaveLength(2);
+      expect(res.body).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            id: current.session.id,
+            deviceLabel: "Chrome on macOS",
+            ipAddress: "203.0.113.7",
+            current: true,
+          }),
+          expect.objectContaining({
+            id: other.session.id,
+            deviceLabel: "Firefox on Windows",
+            current: false,
+          }),
+        ])
+      );
+      expect(res.body[0]).not.toHaveProperty("userId");
+    });
+
+    test("should return 401 if access token is missing", async () => {
+      await request(app)
+        .get("/v1/auth/sessions")
+        .send()
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+
+  describe("DELETE /v1/auth/sessions/:sessionId", () => {
+    test("should revoke one of the sessions of the current user", async () => {
+      await insertUsers([userOne]);
+      const current = await createSession(userOne.id);
+      const other = await createSession(userOne.id);
+
+      await request(app)
+        .delete(`/v1/auth/sessions/${other.session.id}`)
+        .set("Authorization", `Bearer ${current.token}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      await expect(
+        prisma.session.findUnique({ where: { id: other.session.id } })
+      ).resolves.toBeNull();
+      await request(app)
+        .get("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${other.token}`)
+        .expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test("should return 404 when the session belongs to another user", async () => {
+      await insertUsers([userOne, userTwo]);
+      const current = await createSession(userOne.id);
+      const foreign = await createSession(userTwo.id);
+
+      await request(app)
+        .delete(`/v1/auth/sessions/${foreign.session.id}`)
+        .set("Authorization", `Bearer ${current.token}`)
+        .expect(httpStatus.NOT_FOUND);
+
+      await expect(
+        prisma.session.findUnique({ where: { id: foreign.session.id } })
+      ).resolves.not.toBeNull();
+    });
+  });
+
+  describe("DELETE /v1/auth/sessions", () => {
+    test("should revoke every other session and keep the current one", async () => {
+      await insertUsers([userOne]);
+      const current = await createSession(userOne.id);
+      await createSession(userOne.id);
+      await createSession(userOne.id);
+
+      await request(app)
+        .delete("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${current.token}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      const dbSessions = await prisma.session.findMany({
+        where: { userId: userOne.id },
+      });
+      expect(dbSessions.map((session) => session.id)).toEqual([
+        current.session.id,
+      ]);
+    });
+  });
+
+  describe("Revoking logins in tokens mode", () => {
+    beforeEach(() => {
+      config.auth.tokenMode = "tokens";
+    });
+
+    afterEach(() => {
+      config.auth.tokenMode = "session";
+    });
+
+    test("should revoke the refresh tokens of the other logins and keep the current one", async () => {
+      await insertUsers([userOne]);
+      const current = await loginWithTokens();
+      const other = await loginWithTokens();
+
+      await request(app)
+        .delete("/v1/auth/sessions")
+        .set("Authorization", `Bearer ${current.access.token}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      await refresh(other.refresh.token, httpStatus.UNAUTHORIZED);
+      await refresh(current.refresh.token, httpStatus.OK);
+    });
+
+    test("should revoke every refresh token when an admin revokes all logins of a user", async () => {
+      await insertUsers([userOne, admin]);
+      const tokens = await loginWithTokens();
+      const adminSession = await createSession(admin.id);
+
+      await request(app)
+        .delete(`/v1/users/${userOne.id}/sessions`)
+        .set("Authorization", `Bearer ${adminSession.token}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      await refresh(tokens.refresh.token, httpStatus.UNAUTHORIZED);
+    });
+  });
+
+  describe("Admin session routes", () => {
+    test("should let an admin list and revoke the sessions of a user", async () => {
+      await insertUsers([userOne, admin]);
+      const adminSession = await createSession(admin.id);
+      const userSession = await createSession(userOne.id, chromeOnMac);
+
+      const res = await request(app)
+        .get(`/v1/users/${userOne.id}/sessions`)
+        .set("Authorization", `Bearer ${adminSession.token}`)
+        .expect(httpStatus.OK);
+      expect(res.body).toHaveLength(1);
+      expect(res.body[0]).toMatchObject({
+        id: userSession.session.id,
+        current: false,
+      });
+
+      await request(app)
+        .delete(`/v1/users/${userOne.id}/sessions/${userSession.session.id}`)
+        .set("Authorization", `Bearer ${adminSession.token}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      await expect(
+        prisma.session.count({ where: { userId: userOne.id } })
+      ).resolves.toBe(0);
+    });
+
+    test("should let an admin revoke all sessions of a user", async () => {
+      await insertUsers([userOne, admin]);
+      const adminSession = await createSession(admin.id);
+      await createSession(userOne.id);
+      await createSession(userOne.id);
+
+      await request(app)
+        .delete(`/v1/users/${userOne.id}/sessions`)
+        .set("Authorization", `Bearer ${adminSession.token}`)
+        .expect(httpStatus.NO_CONTENT);
+
+      await expect(
+        prisma.session.count({ where: { userId: userOne.id } })
+      ).resolves.toBe(0);
+    });
+
+    test("should return 403 when a user lists the sessions of another user", async () => {
+      await insertUsers([userOne, userTwo]);
+      const current = await createSession(userOne.id);
+
+      await request(app)
+        .get(`/v1/users/${userTwo.id}/sessions`)
+        .set("Authorization", `Bearer ${current.token}`)
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+});
@@ -0,0 +1,551 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import moment from "moment";
+import app from "../../src/app.js";
+import config from "../../src/config/config.js";
+import { policyService, roleService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { describe, beforeEach, test, expect } from "vitest";
+import {
+  userOne,
+  userTwo,
+  admin,
+  insertUsers,
+} from "../fixtures/user.fixture.js";
+import { loginAs } from "../fixtures/session.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+// give a user manageUsers through a custom role, keeping their USER role
+const grantManageUsers = async (userId: string) => {
+  const role = await roleService.createRole({
+    name: "support",
+    permissions: ["getUsers", "manageUsers"],
+  });
+  await roleService.assignRole(userId, role.id);
+};
+
+describe("User routes", () => {
+  beforeEach(() => {
+    roleService.invalidateRights();
+  });
+
+  describe("POST /v1/users", () => {
+    const newUser = (role: string) => ({
+      name: "New User",
+      email: "new.user@example.com",
+      password: "Passwo1d@123",
+      role,
+    });
+
+    test("should return 201 if a user with manageUsers creates a user", async () => {
+      await insertUsers([userOne]);
+      await grantManageUsers(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/users")
+        .set("Authorization", `Bearer ${token}`)
+        .send(newUser("USER"))
+        .expect(httpStatus.CREATED);
+    });
+
+    test("should return 403 if a user with manageUsers creates an admin", async () => {
+      await insertUsers([userOne]);
+      await grantManageUsers(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post("/v1/users")
+        .set("Authorization", `Bearer ${token}`)
+        .send(newUser("ADMIN"))
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(await prisma.user.count()).toBe(1);
+    });
+  });
+
+  describe("GET /v1/users", () => {
+    // userOne joined in 2023, userTwo in 2024 and admin in 2025
+    const insertDatedUsers = async () => {
+      await insertUsers([userOne, userTwo, admin]);
+      await prisma.user.update({
+        where: { id: userOne.id },
+        data: { createdAt: new Date("2023-06-01"), isEmailVerified: true },
+      });
+      await prisma.user.update({
+        where: { id: userTwo.id },
+        data: { createdAt: new Date("2024-06-01") },
+      });
+      await prisma.user.update({
+        where: { id: admin.id },
+        data: { createdAt: new Date("2025-06-01") },
+      });
+    };
+
+    const getUsers = async (query: Record<string, string>, status: number) => {
+      const token = await loginAs(admin.id);
+      return request(app)
+        .get("/v1/users")
+        .set("Authorization", `Bearer ${token}`)
+        .query(query)
+        .expect(status);
+    };
+
+    const ids = (users: { id: string }[]) => users.map((user) => user.id);
+
+    test("should filter users with operators", async () => {
+      await insertDatedUsers();
+
+      const byRange = await getUsers(
+        {
+          "createdAt[gt]": "2024-01-01",
+          "createdAt[lt]": "2025-01-01",
+        },
+        httpStatus.OK
+      );
+      const byEmail = await getUsers(
+        {
+          "email[in]": `${userOne.email},${admin.email}`,
+          "role[ne]": "ADMIN",
+        },
+        httpStatus.OK
+      );
+      const byVerification = await getUsers(
+        { isEmailVerified: "true" },
+        httpStatus.OK
+      );
+
+      expect(ids(byRange.body)).toEqual([userTwo.id]);
+      expect(ids(byEmail.body)).toEqual([userOne.id]);
+      expect(ids(byVerification.body)).toEqual([userOne.id]);
+    });
+
+    test("should search the name and email with q", async () => {
+      await insertDatedUsers();
+
+      const res = await getUsers(
+        { q: userTwo.email.split("@")[0] },
+        httpStatus.OK
+      );
+
+      expect(ids(res.body)).toContain(userTwo.id);
+      expect(ids(res.body)).not.toContain(userOne.id);
+    });
+
+    test("should sort by several fields and paginate", async () => {
+      await insertDatedUsers();
+
+      const sorted = await getUsers(
+        { sortBy: "role:desc,createdAt:desc" },
+        httpStatus.OK
+      );
+      const secondPage = await getUsers(
+        { sortBy: "createdAt:asc", limit: "1", page: "2" },
+        httpStatus.OK
+      );
+
+      expect(ids(sorted.body)).toEqual([admin.id, userTwo.id, userOne.id]);
+      expect(ids(secondPage.body)).toEqual([userTwo.id]);
+    });
+
+    test("should return 400 for fields and operators the list does not support", async () => {
+      await insertDatedUsers();
+
+      const byPassword = await getUsers(
+        { password: "x" },
+        httpStatus.BAD_REQUEST
+      );
+      const byOperator = await getUsers(
+        { "email[gt]": "a" },
+        httpStatus.BAD_REQUEST
+      );
+      const byDate = await getUsers(
+        { "createdAt[lt]": "soon" },
+        httpStatus.BAD_REQUEST
+      );
+      const bySort = await getUsers(
+        { sortBy: "password:asc" },
+        httpStatus.BAD_REQUEST
+      );
+      const byLimit = await getUsers({ limit: "101" }, httpStatus.BAD_REQUEST);
+
+      expect(byPassword.body.message).toMatch("Cannot filter by password");
+      expect(byOperator.body.message).toMatch("email supports");
+      expect(byDate.body.message).toBe("createdAt[lt] must be a date");
+      expect(bySort.body.message).toMatch("Cannot sort by password");
+      expect(byLimit.body.message).toMatch("limit");
+    });
+  });
+
+  describe("GET /v1/users/:userId", () => {
+    test("should return 200 if users fetch themselves", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      const res = await request(app)
+        .get(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({ id: userOne.id, email: userOne.email });
+    });
+
+    test("should return 403 if users fetch another user", async () => {
+      await insertUsers([userOne, userTwo]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .get(`/v1/users/${userTwo.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 200 if admins fetch another user", async () => {
+      await insertUsers([userOne, admin]);
+      const token = await loginAs(admin.id);
+
+      await request(app)
+        .get(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.OK);
+    });
+  });
+
+  describe("PATCH /v1/users/:userId", () => {
+    test("should return 200 if users update themselves", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      const res = await request(app)
+        .patch(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "New Name" })
+        .expect(httpStatus.OK);
+
+      expect(res.body.name).toBe("New Name");
+    });
+
+    test("should return 403 if users update another user", async () => {
+      await insertUsers([userOne, userTwo]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .patch(`/v1/users/${userTwo.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "New Name" })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 200 if a custom role grants manageUsers", async () => {
+      await insertUsers([userOne, userTwo]);
+      await grantManageUsers(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .patch(`/v1/users/${userTwo.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "New Name" })
+        .expect(httpStatus.OK);
+    });
+
+    test("should return 403 if a user with manageUsers updates a user with more rights", async () => {
+      await insertUsers([userOne, userTwo]);
+      await grantManageUsers(userOne.id);
+      const role = await roleService.createRole({
+        name: "auditor",
+        permissions: ["manageRoles"],
+      });
+      await roleService.assignRole(userTwo.id, role.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .patch(`/v1/users/${userTwo.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "New Name" })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 if a user with manageUsers updates an admin", async () => {
+      await insertUsers([userOne, admin]);
+      await grantManageUsers(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .patch(`/v1/users/${admin.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ name: "New Name" })
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe("DELETE /v1/users/:userId", () => {
+    test("should return 204 if users delete themselves", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .delete(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      expect(await prisma.user.count({ where: { id: userOne.id } })).toBe(0);
+    });
+
+    test("should return 403 if users delete another user", async () => {
+      await insertUsers([userOne, userTwo]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .delete(`/v1/users/${userTwo.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(await prisma.user.count({ where: { id: userTwo.id } })).toBe(1);
+    });
+
+    test("should return 204 if admins delete another user", async () => {
+      await insertUsers([userOne, admin]);
+      const token = await loginAs(admin.id);
+
+      await request(app)
+        .delete(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+    });
+
+    test("should return 204 and delete the tokens of a user who logged in", async () => {
+      await insertUsers([userOne, admin]);
+      config.auth.tokenMode = "tokens";
+      try {
+        await request(app)
+          .post("/v1/auth/login")
+          .send({ email: userOne.email, password: userOne.password })
+          .expect(httpStatus.OK);
+      } finally {
+        config.auth.tokenMode = "session";
+      }
+      const token = await loginAs(admin.id);
+
+      await request(app)
+        .delete(`/v1/users/${userOne.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      expect(await prisma.token.count({ where: { userId: userOne.id } })).toBe(
+        0
+      );
+    });
+
+    test("should return 403 if a user with manageUsers deletes an admin", async () => {
+      await insertUsers([userOne, admin]);
+      await grantManageUsers(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .delete(`/v1/users/${admin.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(await prisma.user.count({ where: { id: admin.id } })).toBe(1);
+    });
+  });
+
+  describe("POST /v1/users/:userId/unlock", () => {
+    test("should return 403 if users unlock themselves", async () => {
+      await insertUsers([userOne]);
+      await prisma.loginLockout.create({
+        data: {
+          email: userOne.email,
+          lockedUntil: moment().add(30, "minutes").toDate(),
+        },
+      });
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post(`/v1/users/${userOne.id}/unlock`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test("should return 403 if a user with manageUsers unlocks an admin", async () => {
+      await insertUsers([userOne, admin]);
+      await prisma.loginLockout.create({
+        data: {
+          email: admin.email,
+          lockedUntil: moment().add(30, "minutes").toDate(),
+        },
+      });
+      await grantManageUsers(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .post(`/v1/users/${admin.id}/unlock`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(await prisma.loginLockout.count()).toBe(1);
+    });
+  });
+
+  describe("DELETE /v1/users/:userId/sessions", () => {
+    test("should return 403 if a user with manageUsers revokes the sessions of an admin", async () => {
+      await insertUsers([userOne, admin]);
+      await loginAs(admin.id);
+      await grantManageUsers(userOne.id);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .delete(`/v1/users/${admin.id}/sessions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(await prisma.session.count({ where: { userId: admin.id } })).toBe(
+        1
+      );
+    });
+  });
+
+  describe("GET /v1/users/:userId/roles", () => {
+    test("should return 200 if users fetch their own roles", async () => {
+      await insertUsers([userOne]);
+      const token = await loginAs(userOne.id);
+
+      const res = await request(app)
+        .get(`/v1/users/${userOne.id}/roles`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual([]);
+    });
+
+    test("should return 403 if users fetch the roles of another user", async () => {
+      await insertUsers([userOne, userTwo]);
+      const token = await loginAs(userOne.id);
+
+      await request(app)
+        .get(`/v1/users/${userTwo.id}/roles`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe("Policy decisions", () => {
+    test("should explain the decision in the response with POLICY_EXPLAIN", async () => {
+      await insertUsers([userOne, userTwo]);
+      const token = await loginAs(userOne.id);
+      config.auth.explainPolicies = true;
+      try {
+        const res = await request(app)
+          .delete(`/v1/users/${userTwo.id}`)
+          .set("Authorization", `Bearer ${token}`)
+          .send()
+          .expect(httpStatus.FORBIDDEN);
+
+        expect(res.body.decision).toEqual({
+          allowed: false,
+          resource: "user",
+          action: "delete",
+          resourceId: userTwo.id,
+          rule: null,
+          trace: [
+            {
+              description: "clients never manage admins",
+              effect: "deny",
+              matched: false,
+              failed: "the actor kind is not client",
+            },
+            {
+              description: "users only manage users whose rights they all hold",
+              effect: "deny",
+              matched: false,
+              failed: "the resource holds no right the actor lacks",
+            },
+            {
+              description: "manageUsers deletes any user",
+              effect: "allow",
+              matched: false,
+              failed: "the actor lacks the manageUsers permission",
+            },
+            {
+              description: "users delete themselves",
+              effect: "allow",
+              matched: false,
+              failed: "the actor does not own the resource",
+            },
+          ],
+        });
+      } finally {
+        config.auth.explainPolicies = false;
+      }
+    });
+
+    test("should not explain the decision by default", async () => {
+      await insertUsers([userOne, userTwo]);
+      const token = await loginAs(userOne.id);
+
+      const res = await request(app)
+        .delete(`/v1/users/${userTwo.id}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+
+      expect(res.body).toEqual({
+        code: httpStatus.FORBIDDEN,
+        message: "Forbidden",
+      });
+    });
+
+    test("should report the rule that allowed the action", async () => {
+      await insertUsers([userOne]);
+
+      const decision = await policyService.evaluate(
+        "user",
+        "update",
+        userOne.id,
+        {
+          id: userOne.id,
+          rights: [],
+          attributes: { role: userOne.role },
+        }
+      );
+
+      expect(decision).toMatchObject({
+        allowed: true,
+        rule: "users update themselves",
+      });
+    });
+
+    test("should deny with the message of the rule that matched", async () => {
+      await insertUsers([userOne]);
+
+      const decision = await policyService.evaluate(
+        "user",
+        "update",
+        userOne.id,
+        { id: userOne.id, rights: [], attributes: { role: userOne.role } },
+        { changes: ["email", "skipEmailConfirmation"] }
+      );
+
+      expect(decision).toMatchObject({
+        allowed: false,
+        rule: "only manageUsers skips the email confirmation",
+        message: "Only admins can skip the email confirmation",
+      });
+    });
+  });
+});
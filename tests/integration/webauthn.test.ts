@@ -0,0 +1,147 @@
+import request from "supertest";
+import httpStatus from "http-status";
+import app from "../../src/app.js";
+import config from "../../src/config/config.js";
+import { tokenService } from "../../src/services";
+import setupTestDB from "../utils/setupTestDb.js";
+import { SoftwareAuthenticator } from "../utils/softwareAuthenticator.js";
+import { describe, beforeEach, test, expect } from "vitest";
+import { userOne, insertUsers } from "../fixtures/user.fixture.js";
+import prisma from "../../src/client.js";
+
+setupTestDB();
+
+describe("Passkey routes", () => {
+  let authenticator: SoftwareAuthenticator;
+  let userOneAccessToken: string;
+
+  const registerPasskey = async () => {
+    const optionsRes = await request(app)
+      .post("/v1/auth/webauthn/register/options")
+      .set("Authorization", `Bearer ${userOneAccessToken}`)
+      .expect(httpStatus.OK);
+
+    return request(app)
+      .post("/v1/auth/webauthn/register")
+      .set("Authorization", `Bearer ${userOneAccessToken}`)
+      .send({
+        name: "Test key",
+        response: authenticator.createCredential(optionsRes.body),
+      });
+  };
+
+  const getLoginOptions = async () => {
+    const res = await request(app)
+      .post("/v1/auth/webauthn/login/options")
+      .expect(httpStatus.OK);
+    return res.body;
+  };
+
+  beforeEach(async () => {
+    authenticator = new SoftwareAuthenticator(
+      config.webauthn.origins[0],
+      config.webauthn.rpId
+    );
+    await insertUsers([userOne]);
+    userOneAccessToken = await tokenService.generateSessionToken();
+    await tokenService.createSession(userOneAccessToken, userOne.id);
+  });
+
+  test("should register a passkey for the current user", async () => {
+    const res = await registerPasskey();
+
+    expect(res.status).toBe(httpStatus.CREATED);
+    expect(res.body).toMatchObject({
+      id: authenticator.credentialId.toString("base64url"),
+      name: "Test key",
+      transports: ["internal"],
+    });
+    const dbCredential = await prisma.webAuthnCredential.findUnique({
+      where: { id: res.body.id },
+    });
+    expect(dbCredential?.userId).toBe(userOne.id);
+  });
+
+  test("should return 400 if the registration challenge was not issued", async () => {
+    await request(app)
+      .post("/v1/auth/webauthn/register")
+      .set("Authorization", `Bearer ${userOneAccessToken}`)
+      .send({
+        response: authenticator.createCredential({
+          challenge: "bm90LWlzc3VlZA",
+          user: { id: userOne.id },
+        }),
+      })
+      .expect(httpStatus.BAD_REQUEST);
+  });
+
+  test("should login with a registered passkey and create a session", async () => {
+    await registerPasskey();
+    const options = await getLoginOptions();
+
+    const res = await request(app)
+      .post("/v1/auth/webauthn/login")
+      .send(authenticator.getAssertion(options))
+      .expect(httpStatus.OK);
+
+    expect(res.body.user).toMatchObject({
+      id: userOne.id,
+      email: userOne.email,
+    });
+    expect(res.body.user).not.toHaveProperty("password");
+    const { session } = await tokenService.validateSessionToken(res.body.token);
+    expect(session?.userId).toBe(userOne.id);
+    const dbCredential = await prisma.webAuthnCredential.findFirst({
+      where: { userId: userOne.id },
+    });
+    expect(dbCredential?.signCount).toBe(1);
+  });
+
+  test("should return 401 if a login challenge is replayed", async () => {
+    await registerPasskey();
+    const options = await getLoginOptions();
+    await request(app)
+      .post("/v1/auth/webauthn/login")
+      .send(authenticator.getAssertion(options))
+      .expect(httpStatus.OK);
+
+    await request(app)
+      .post("/v1/auth/webauthn/login")
+      .send(authenticator.getAssertion(options))
+      .expect(httpStatus.UNAUTHORIZED);
+  });
+
+  test("should return 401 if the signature does not match the stored key", async () => {
+    await registerPasskey();
+    const options = await getLoginOptions();
+    const assertion = authenticator.getAssertion(options);
+    const otherAuthenticator = new SoftwareAuthenticator(
+      config.webauthn.origins[0],
+      config.webauthn.rpId
+    );
+
+    await request(app)
+      .post("/v1/auth/webauthn/login")
+      .send({
+        ...assertion,
+        signature: otherAuthenticator.getAssertion(options).signature,
+      })
+      .expect(httpStatus.UNAUTHORIZED);
+  });
+
+  test("should list and delete the passkeys of the current user", async () => {
+    const { body: credential } = await registerPasskey();
+
+    const listRes = await request(app)
+      .get("/v1/auth/webauthn/credentials")
+      .set("Authorization", `Bearer ${userOneAccessToken}`)
+      .expect(httpStatus.OK);
+    expect(listRes.body).toHaveLength(1);
+
+    await request(app)
+      .delete(`/v1/auth/webauthn/credentials/${credential.id}`)
+      .set("Authorization", `Bearer ${userOneAccessToken}`)
+      .expect(httpStatus.NO_CONTENT);
+    expect(await prisma.webAuthnCredential.count()).toBe(0);
+  });
+});
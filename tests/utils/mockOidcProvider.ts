@@ -0,0 +1,102 @@
+import express from "express";
+import { createHash, randomBytes } from "crypto";
+import { AddressInfo } from "net";
+import { Server } from "http";
+
+export interface MockOidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+/**
+ * Local OpenID Connect provider implementing discovery, the authorization
+ * code flow with PKCE (S256) and the userinfo endpoint
+ */
+export const startMockOidcProvider = async (client: {
+  clientId: string;
+  clientSecret: string;
+}) => {
+  const app = express();
+  const codes = new Map<
+    string,
+    { claims: MockOidcClaims; codeChallenge: string; redirectUri: string }
+  >();
+  const accessTokens = new Map<string, MockOidcClaims>();
+  let claims: MockOidcClaims = { sub: "mock-subject" };
+
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get("/.well-known/openid-configuration", (req, res) => {
+    const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+    });
+  });
+
+  // the user consents immediately
+  app.get("/authorize", (req, res) => {
+    const { client_id, redirect_uri, state, code_challenge } = req.query;
+    if (client_id !== client.clientId || !code_challenge) {
+      res.status(400).json({ error: "invalid_request" });
+      return;
+    }
+    const code = randomBytes(16).toString("hex");
+    codes.set(code, {
+      claims,
+      codeChallenge: code_challenge as string,
+      redirectUri: redirect_uri as string,
+    });
+    const redirect = new URL(redirect_uri as string);
+    redirect.searchParams.set("code", code);
+    redirect.searchParams.set("state", state as string);
+    res.redirect(redirect.toString());
+  });
+
+  app.post("/token", (req, res) => {
+    const grant = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    const verifierChallenge = createHash("sha256")
+      .update(req.body.code_verifier ?? "")
+      .digest("base64url");
+    if (
+      req.body.client_id !== client.clientId ||
+      req.body.client_secret !== client.clientSecret ||
+      !grant ||
+      grant.redirectUri !== req.body.redirect_uri ||
+      grant.codeChallenge !== verifierChallenge
+    ) {
+      res.status(400).json({ error: "invalid_grant" });
+      return;
+    }
+    const accessToken = randomBytes(16).toString("hex");
+    accessTokens.set(accessToken, grant.claims);
+    res.json({ access_token: accessToken, token_type: "Bearer" });
+  });
+
+  app.get("/userinfo", (req, res) => {
+    const accessToken = req.headers.authorization?.split(" ")[1] ?? "";
+    const userClaims = accessTokens.get(accessToken);
+    if (!userClaims) {
+      res.status(401).json({ error: "invalid_token" });
+      return;
+    }
+    res.json(userClaims);
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const listener = app.listen(0, "127.0.0.1", () => resolve(listener));
+  });
+
+  return {
+    issuer: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    setClaims: (nextClaims: MockOidcClaims) => {
+      claims = nextClaims;
+    },
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
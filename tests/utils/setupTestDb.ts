@@ -1,4 +1,5 @@
 import prisma from "../../src/client";
+import { rights } from "../../src/config/roles";
 import { beforeAll, beforeEach, afterAll } from "vitest";
 
 const setupTestDB = () => {
@@ -9,11 +10,26 @@ const setupTestDB = () => {
   beforeEach(async () => {
     await prisma.token.deleteMany();
     await prisma.user.deleteMany();
+    await prisma.loginLockout.deleteMany();
+    await prisma.impersonationEvent.deleteMany();
+    await prisma.invitation.deleteMany();
+    await prisma.jobLock.deleteMany();
+    await prisma.organization.deleteMany();
+    // the built-in roles and rights are only stored once per process
+    await prisma.accessRole.deleteMany({ where: { builtIn: false } });
+    await prisma.permission.deleteMany({ where: { name: { notIn: rights } } });
   });
 
   afterAll(async () => {
     await prisma.token.deleteMany();
     await prisma.user.deleteMany();
+    await prisma.loginLockout.deleteMany();
+    await prisma.impersonationEvent.deleteMany();
+    await prisma.invitation.deleteMany();
+    await prisma.jobLock.deleteMany();
+    await prisma.organization.deleteMany();
+    await prisma.accessRole.deleteMany({ where: { builtIn: false } });
+    await prisma.permission.deleteMany({ where: { name: { notIn: rights } } });
     await prisma.$disconnect();
   });
 };
@@ -0,0 +1,129 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from "crypto";
+
+type CborValue =
+  | number
+  | string
+  | Uint8Array
+  | CborValue[]
+  | Map<number | string, CborValue>;
+
+const encodeHead = (majorType: number, length: number): Buffer => {
+  if (length < 24) return Buffer.from([(majorType << 5) | length]);
+  if (length < 0x100) return Buffer.from([(majorType << 5) | 24, length]);
+  const head = Buffer.alloc(3);
+  head[0] = (majorType << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+};
+
+// minimal CBOR encoder covering what attestation objects and COSE keys need
+const encodeCbor = (value: CborValue): Buffer => {
+  if (typeof value === "number") {
+    return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+  }
+  if (typeof value === "string") {
+    const bytes = Buffer.from(value, "utf8");
+    return Buffer.concat([encodeHead(3, bytes.length), bytes]);
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([encodeHead(2, value.length), Buffer.from(value)]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([
+      encodeHead(4, value.length),
+      ...value.map(encodeCbor),
+    ]);
+  }
+  const entries = [...value.entries()].flatMap(([key, item]) => [
+    encodeCbor(key),
+    encodeCbor(item),
+  ]);
+  return Buffer.concat([encodeHead(5, value.size), ...entries]);
+};
+
+/**
+ * ES256 authenticator that produces "none" attestations and assertions
+ * the same way a browser would hand them to the API
+ */
+export class SoftwareAuthenticator {
+  credentialId = randomBytes(16);
+  signCount = 0;
+  private keyPair = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  private userHandle = "";
+
+  constructor(private origin: string, private rpId: string) {}
+
+  private clientData(type: string, challenge: string): Buffer {
+    return Buffer.from(
+      JSON.stringify({ type, challenge, origin: this.origin }),
+      "utf8"
+    );
+  }
+
+  private authenticatorData(flags: number, attestedData?: Buffer): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+    return Buffer.concat([
+      createHash("sha256").update(this.rpId).digest(),
+      Buffer.from([flags]),
+      counter,
+      attestedData ?? Buffer.alloc(0),
+    ]);
+  }
+
+  createCredential(options: { challenge: string; user: { id: string } }) {
+    this.userHandle = options.user.id;
+    const jwk = this.keyPair.publicKey.export({ format: "jwk" });
+    const coseKey = new Map<number, CborValue>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x as string, "base64url")],
+      [-3, Buffer.from(jwk.y as string, "base64url")],
+    ]);
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(this.credentialId.length);
+    const attestedData = Buffer.concat([
+      Buffer.alloc(16),
+      credentialIdLength,
+      this.credentialId,
+      encodeCbor(coseKey),
+    ]);
+    const attestationObject = encodeCbor(
+      new Map<string, CborValue>([
+        ["fmt", "none"],
+        ["attStmt", new Map()],
+        ["authData", this.authenticatorData(0x45, attestedData)],
+      ])
+    );
+    return {
+      clientDataJSON: this.clientData(
+        "webauthn.create",
+        options.challenge
+      ).toString("base64url"),
+      attestationObject: attestationObject.toString("base64url"),
+      transports: ["internal"],
+    };
+  }
+
+  getAssertion(options: { challenge: string }) {
+    this.signCount += 1;
+    const clientDataJSON = this.clientData("webauthn.get", options.challenge);
+    const authenticatorData = this.authenticatorData(0x05);
+    const signature = sign(
+      "sha256",
+      Buffer.concat([
+        authenticatorData,
+        createHash("sha256").update(clientDataJSON).digest(),
+      ]),
+      this.keyPair.privateKey
+    );
+    return {
+      credentialId: this.credentialId.toString("base64url"),
+      clientDataJSON: clientDataJSON.toString("base64url"),
+      authenticatorData: authenticatorData.toString("base64url"),
+      signature: signature.toString("base64url"),
+      userHandle: this.userHandle,
+    };
+  }
+}